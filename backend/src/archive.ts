@@ -0,0 +1,511 @@
+// src/archive.ts
+import crypto from "crypto";
+import puppeteer, { HTTPResponse, Page, SecurityDetails } from "puppeteer";
+import JSZip from "jszip";
+import { buildWacz } from "./warc";
+import { buildReplayBundle } from "./replay";
+import { sealEnvelope, spkiFromBase64 } from "../../shared/envelope";
+import { attestArchive } from "./attestation";
+import { buildManifest, MANIFEST_FILE, StageTiming } from "./manifest";
+import type { CaptureConfig, CaptureOptions } from "./captureProfiles";
+import { ARTICLE_FILE, ExtractedArticle, extractArticle, formatArticle } from "./article";
+import { backendAddress, signPersonalMessage } from "./suiClient";
+import type { ArchiveEncryption } from "./suiClient";
+
+/**
+ * The archiving pipeline, split into its stages. The job runner in
+ * jobs.ts drives them one by one and persists what each stage produced.
+ */
+
+/**
+ * Output layout of an archive:
+ * - "zip":  index.html + screenshot.png + assets/ for offline replay (default)
+ * - "wacz": WARC 1.1 records of every HTTP exchange, packaged as WACZ
+ */
+export type ArchiveFormat = "zip" | "wacz";
+export const ARCHIVE_FORMATS: ArchiveFormat[] = ["zip", "wacz"];
+
+/**
+ * Who captured the content: the backend's headless browser ("server"), or
+ * the user's own browser, which submitted the result ("client").
+ */
+export type CaptureMethod = "server" | "client";
+
+/** What a browser that submitted its own capture reported about itself. Not verified. */
+export interface ClientCaptureInfo {
+  /** The submitting browser's clock. */
+  capturedAt: string | null;
+  userAgent: string | null;
+  viewport: { width: number; height: number; deviceScaleFactor: number } | null;
+}
+
+/** Print rendering of the page, stored next to the other capture files. */
+export const PDF_FILE = "page.pdf";
+
+export const FORMAT_MIME_TYPES: Record<ArchiveFormat, string> = {
+  zip: "application/zip",
+  wacz: "application/wacz",
+};
+
+/** One request/response pair seen by the headless browser. */
+export interface HttpExchange {
+  url: string;
+  method: string;
+  requestHeaders: Record<string, string>;
+  requestBody?: string;
+  status: number;
+  statusText: string;
+  responseHeaders: Record<string, string>;
+  body: Uint8Array;
+  fetchedAt: string;
+  remoteAddress?: string;
+}
+
+/** One hop of the redirect chain that led to the main document. */
+export interface RedirectHop {
+  url: string;
+  status: number | null;
+  location: string | null;
+}
+
+export interface TlsDetails {
+  protocol: string;
+  subjectName: string;
+  issuer: string;
+  /** ISO timestamps of the certificate's validity period. */
+  validFrom: string;
+  validTo: string;
+  subjectAlternativeNames: string[];
+}
+
+/** The response to the top-level navigation, after any redirects. */
+export interface MainResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  /** Address the browser connected to; either part may be unknown (e.g. via a proxy). */
+  remoteAddress: { ip: string | null; port: number | null };
+  /** Hops before the final response, oldest first. */
+  redirectChain: RedirectHop[];
+  /** Null for plain HTTP. */
+  tls: TlsDetails | null;
+}
+
+/** Milliseconds spent in each step of capturePage. */
+export interface CaptureTimings {
+  launchMs: number;
+  navigationMs: number;
+  /** Consent dismissal, auto-scroll, waitForSelector and the extra delay. */
+  settleMs: number;
+  snapshotMs: number;
+  screenshotMs: number;
+  pdfMs: number;
+  /** Waiting for recorded response bodies after the screenshot. */
+  networkMs: number;
+}
+
+export interface PageCapture {
+  url: string;
+  /** URL after redirects. */
+  finalUrl?: string;
+  /** document.baseURI, which differs from finalUrl when the page has a <base>. */
+  baseUrl?: string;
+  /** document.title at snapshot time; empty when the page has no <title>. */
+  title?: string;
+  capturedAt: string;
+  htmlContent: string;
+  screenshotBuffer: Uint8Array;
+  /** Print rendering; missing when Chrome couldn't print the page. */
+  pdfBuffer?: Uint8Array;
+  /** Main content and metadata, see article.ts. */
+  article?: ExtractedArticle;
+  /** SHA-256 of the page's visible text, whitespace-collapsed. Stable across captures. */
+  textHashHex: string;
+  /** Absolute URLs of the page's <a href> links, for crawls (see crawls.ts). */
+  links?: string[];
+  exchanges?: HttpExchange[];
+  /** Not set on captures stored before attestations were added. */
+  config?: CaptureConfig;
+  browserVersion?: string;
+  userAgent?: string;
+  /** Null when the navigation produced no response (e.g. served from a service worker). */
+  mainResponse?: MainResponse | null;
+  timings?: CaptureTimings;
+  /** What the browser did to the page before the snapshot. */
+  interactions?: {
+    /** Consent selectors that matched and were clicked. */
+    consentClicks: string[];
+    scrollSteps: number;
+  };
+  /** Missing means "server". */
+  captureMethod?: CaptureMethod;
+  /** Set for client captures (see snapshot.ts). */
+  client?: ClientCaptureInfo;
+}
+
+export interface ArchiveRequest {
+  /** The URL as submitted; this is what gets captured. */
+  url: string;
+  /** Registry and search key, see canonicalUrl.ts. Filled in when the job is created. */
+  canonicalUrl?: string;
+  title: string;
+  /** Base64 SPKI (or PEM) RSA-OAEP keys; the archive is sealed to all of them. */
+  recipientPublicKeys?: string[];
+  /** Captured and sealed in the browser; the backend only ever held the envelope. */
+  clientSealed?: boolean;
+  /** "client" for snapshots submitted from the user's tab; client-sealed uploads are always "client". */
+  captureMethod?: CaptureMethod;
+  format?: ArchiveFormat;
+  /** Profile and load options for the capture, see captureProfiles.ts. */
+  captureOptions?: CaptureOptions;
+}
+
+export interface ArchiveResult {
+  url: string;
+  canonicalUrl: string;
+  title: string;
+  tuskyFileId: string;
+  walrusBlobId: string;
+  /**
+   * Of the archived content, as recorded on-chain: the format's type for a
+   * page, the served type for a PDF, image or other document (stored in a
+   * zip with its manifest and attestation, see packageResource).
+   */
+  mimeType: string;
+  size: number;
+  status: string;
+  contentHashHex: string;
+  suiTxDigest: string | null;
+  suiArchiveId: string | null;
+  suiRegistryId: string | null;
+  isEncrypted: boolean;
+  recipientFingerprints: string[];
+  /** As recorded on-chain; readers should use this rather than the title. */
+  encryption: ArchiveEncryption;
+  clientSealed: boolean;
+  /** As recorded on-chain. */
+  captureMethod: CaptureMethod;
+  /** Null for client captures, which the backend didn't make. */
+  captureProfile: string | null;
+  storageProvider: string;
+}
+
+export function sha256Hex(data: string | Uint8Array): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Hash of the rendered text only. The zip hash changes on every capture
+ * (screenshot pixels, zip timestamps), so change detection uses this instead.
+ */
+export function normalizedTextHash(text: string): string {
+  return sha256Hex(text.replace(/\s+/g, " ").trim());
+}
+
+// --- 1. CAPTURE ---
+async function toExchange(response: HTTPResponse): Promise<HttpExchange | null> {
+  const url = response.url();
+  if (!/^https?:/i.test(url)) return null; // data:, blob: etc. never hit the wire
+
+  const request = response.request();
+  const status = response.status();
+  let body: Uint8Array = new Uint8Array(0);
+
+  // Redirects and HEAD requests have no body to read
+  if ((status < 300 || status >= 400) && request.method() !== "HEAD") {
+    try {
+      body = await response.content();
+    } catch {
+      // Body was evicted from the browser cache or never arrived
+    }
+  }
+
+  return {
+    url,
+    method: request.method(),
+    requestHeaders: request.headers(),
+    requestBody: request.postData(),
+    status,
+    statusText: response.statusText(),
+    responseHeaders: response.headers(),
+    body,
+    fetchedAt: new Date().toISOString(),
+    remoteAddress: response.remoteAddress().ip,
+  };
+}
+
+function toTlsDetails(details: SecurityDetails | null): TlsDetails | null {
+  if (!details) return null;
+  return {
+    protocol: details.protocol(),
+    subjectName: details.subjectName(),
+    issuer: details.issuer(),
+    validFrom: new Date(details.validFrom() * 1000).toISOString(),
+    validTo: new Date(details.validTo() * 1000).toISOString(),
+    subjectAlternativeNames: details.subjectAlternativeNames(),
+  };
+}
+
+function toMainResponse(response: HTTPResponse): MainResponse {
+  const remote = response.remoteAddress();
+  return {
+    status: response.status(),
+    statusText: response.statusText(),
+    headers: response.headers(),
+    remoteAddress: { ip: remote.ip ?? null, port: remote.port ?? null },
+    redirectChain: response.request().redirectChain().map((request) => {
+      const hop = request.response();
+      return { url: request.url(), status: hop?.status() ?? null, location: hop?.headers()["location"] ?? null };
+    }),
+    tls: toTlsDetails(response.securityDetails()),
+  };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const MAX_SCROLL_STEPS = 50;
+const WAIT_FOR_SELECTOR_TIMEOUT_MS = 30_000;
+
+// Lets requests started by a click or scroll finish; pages that never go idle just move on
+async function settle(page: Page, timeout: number): Promise<void> {
+  await page.waitForNetworkIdle({ idleTime: 500, timeout }).catch(() => undefined);
+}
+
+/**
+ * Clicks the first visible match of each selector, in every frame (many
+ * consent banners live in an iframe). Returns the selectors clicked.
+ */
+async function dismissConsent(page: Page, selectors: string[]): Promise<string[]> {
+  const clicked: string[] = [];
+  for (const frame of page.frames()) {
+    for (const selector of selectors) {
+      try {
+        const button = await frame.$(selector);
+        if (!button || !(await button.isVisible())) continue;
+        await button.click();
+        clicked.push(selector);
+      } catch {
+        // Invalid selector, or the frame went away after an earlier click
+      }
+    }
+  }
+  if (clicked.length > 0) await settle(page, 5_000);
+  return clicked;
+}
+
+/**
+ * Scrolls a screen at a time to the bottom so lazy-loaded content
+ * loads, then back to the top. Infinite feeds stop after MAX_SCROLL_STEPS.
+ */
+async function autoScroll(page: Page): Promise<number> {
+  let steps = 0;
+  while (steps < MAX_SCROLL_STEPS) {
+    steps++;
+    const atBottom = await page.evaluate(() => {
+      window.scrollBy(0, window.innerHeight);
+      return window.scrollY + window.innerHeight >= document.documentElement.scrollHeight - 2;
+    });
+    await sleep(250);
+    if (atBottom) break;
+  }
+  await page.evaluate(() => window.scrollTo(0, 0));
+  await settle(page, 10_000);
+  return steps;
+}
+
+/**
+ * Uses a headless browser to capture the full page state, set up as
+ * `config` describes (see resolveCaptureConfig).
+ */
+export async function capturePage(url: string, config: CaptureConfig): Promise<PageCapture> {
+  let stepStartedAt = Date.now();
+  // Milliseconds since the previous call
+  const lap = () => {
+    const now = Date.now();
+    const elapsed = now - stepStartedAt;
+    stepStartedAt = now;
+    return elapsed;
+  };
+
+  const browser = await puppeteer.launch({
+    headless: true,
+    args: [
+      "--no-sandbox",
+      "--disable-setuid-sandbox",
+      ...(config.locale ? [`--lang=${config.locale}`] : []),
+    ],
+  });
+  const launchMs = lap();
+  try {
+    const page = await browser.newPage();
+    const exchanges: HttpExchange[] = [];
+    const pendingExchanges: Promise<void>[] = [];
+
+    if (config.recordNetwork) {
+      page.on("response", (response) => {
+        pendingExchanges.push(
+          toExchange(response).then((ex) => {
+            if (ex) exchanges.push(ex);
+          })
+        );
+      });
+    }
+
+    await page.setViewport(config.viewport);
+    if (config.userAgent) await page.setUserAgent(config.userAgent);
+    const headers = { ...config.headers, ...(config.locale ? { "Accept-Language": config.locale } : {}) };
+    if (Object.keys(headers).length > 0) await page.setExtraHTTPHeaders(headers);
+    if (config.media === "print") await page.emulateMediaType("print");
+
+    const capturedAt = new Date().toISOString();
+    const response = await page.goto(url, { waitUntil: config.waitUntil });
+    const navigationMs = lap();
+
+    const consentClicks = config.dismissConsent ? await dismissConsent(page, config.consentSelectors) : [];
+    const scrollSteps = config.autoScroll ? await autoScroll(page) : 0;
+    if (config.waitForSelector) {
+      try {
+        await page.waitForSelector(config.waitForSelector, { timeout: WAIT_FOR_SELECTOR_TIMEOUT_MS });
+      } catch (err: any) {
+        throw new Error(`waitForSelector "${config.waitForSelector}" failed: ${err?.message ?? err}`);
+      }
+    }
+    if (config.delayMs > 0) await sleep(config.delayMs);
+    const settleMs = lap();
+
+    const htmlContent = await page.content();
+    const visibleText = await page.evaluate(() => document.body?.innerText ?? "");
+    const baseUrl = await page.evaluate(() => document.baseURI);
+    const title = await page.title();
+    const links = await page.evaluate(() => Array.from(new Set(Array.from(document.links, (a) => a.href))));
+    const article = await extractArticle(page);
+    const snapshotMs = lap();
+    const screenshotBuffer = await page.screenshot({ fullPage: config.fullPageScreenshot });
+    const screenshotMs = lap();
+    let pdfBuffer: Uint8Array | undefined;
+    try {
+      pdfBuffer = await page.pdf({ format: "A4", printBackground: true });
+    } catch (err: any) {
+      console.warn(`[CAPTURE] PDF rendering failed for ${url}:`, err?.message);
+    }
+    const pdfMs = lap();
+    await Promise.all(pendingExchanges);
+    const networkMs = lap();
+
+    return {
+      url,
+      finalUrl: page.url(),
+      baseUrl,
+      title,
+      capturedAt,
+      htmlContent,
+      screenshotBuffer,
+      ...(pdfBuffer ? { pdfBuffer } : {}),
+      article,
+      textHashHex: normalizedTextHash(visibleText),
+      links,
+      ...(config.recordNetwork ? { exchanges } : {}),
+      config,
+      browserVersion: await browser.version(),
+      userAgent: await page.evaluate(() => navigator.userAgent),
+      mainResponse: response ? toMainResponse(response) : null,
+      timings: { launchMs, navigationMs, settleMs, snapshotMs, screenshotMs, pdfMs, networkMs },
+      interactions: { consentClicks, scrollSteps },
+    };
+  } finally {
+    await browser.close();
+  }
+}
+
+// --- 2. ZIP ---
+/**
+ * Packages HTML and screenshot for immutable storage. When the capture
+ * recorded network traffic, subresources go under assets/ (listed in
+ * assets.json) and index.html references them instead of the origin.
+ */
+export async function packageCapture(
+  capture: PageCapture,
+  extraFiles: Record<string, string | Uint8Array> = {}
+): Promise<Buffer> {
+  const zip = new JSZip();
+
+  if (capture.exchanges) {
+    const bundle = buildReplayBundle(capture);
+    zip.file("index.html", bundle.html);
+    for (const [path, data] of Object.entries(bundle.files)) zip.file(path, data);
+    zip.file("assets.json", JSON.stringify(bundle.assets, null, 2));
+  } else {
+    zip.file("index.html", capture.htmlContent);
+  }
+  zip.file("screenshot.png", capture.screenshotBuffer);
+  for (const [path, data] of Object.entries(extraFiles)) zip.file(path, data);
+  return zip.generateAsync({
+    type: "nodebuffer",
+    compression: "DEFLATE",
+    compressionOptions: { level: 6 },
+  });
+}
+
+/**
+ * Packages a capture in the requested output format, with its
+ * manifest.json, page.pdf, article.txt and the backend's signed attestation (attestation.ts) of
+ * what was captured. `stages` are the job stages finished so far.
+ */
+export async function packageArchive(
+  capture: PageCapture,
+  request: ArchiveRequest,
+  stages: StageTiming[] = []
+): Promise<Buffer> {
+  const format = request.format ?? "zip";
+  const extraFiles: Record<string, string | Uint8Array> = {
+    [MANIFEST_FILE]: JSON.stringify(buildManifest(capture, request, stages), null, 2),
+  };
+  if (capture.pdfBuffer) extraFiles[PDF_FILE] = capture.pdfBuffer;
+  if (capture.article) extraFiles[ARTICLE_FILE] = formatArticle(capture.article, capture.finalUrl ?? capture.url);
+  const archive = format === "wacz"
+    ? await buildWacz(capture, request.title, extraFiles)
+    : await packageCapture(capture, extraFiles);
+
+  return attestArchive(
+    archive,
+    {
+      url: capture.url,
+      canonicalUrl: request.canonicalUrl ?? null,
+      finalUrl: capture.finalUrl ?? null,
+      capturedAt: capture.capturedAt,
+      format,
+      captureMethod: capture.captureMethod ?? "server",
+      capture: {
+        config: capture.config ?? null,
+        browserVersion: capture.browserVersion ?? null,
+        userAgent: capture.userAgent ?? null,
+      },
+      textHashHex: capture.textHashHex,
+    },
+    { address: backendAddress(), sign: signPersonalMessage },
+    format === "wacz" ? "STORE" : "DEFLATE"
+  );
+}
+
+// --- 3. SEAL: Hybrid Encryption ---
+/**
+ * Seals the archive for its recipients in the shared envelope format
+ * (shared/envelope.ts): AES-256-GCM for the content, the AES key wrapped
+ * once per recipient with their RSA-OAEP public key.
+ *
+ * Security: Only holders of a matching RSA private key can decrypt.
+ */
+export async function sealBuffer(buffer: Buffer, publicKeys: string[]): Promise<Buffer> {
+  return Buffer.from(await sealEnvelope(buffer, publicKeys));
+}
+
+/** Why `publicKey` can't be used as a recipient, or null if it can. */
+export function recipientKeyError(publicKey: string): string | null {
+  try {
+    const key = crypto.createPublicKey({ key: Buffer.from(spkiFromBase64(publicKey)), format: "der", type: "spki" });
+    if (key.asymmetricKeyType !== "rsa") return `expected an RSA key, got ${key.asymmetricKeyType}`;
+    return null;
+  } catch {
+    return "not a valid base64 SPKI or PEM public key";
+  }
+}
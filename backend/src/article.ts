@@ -0,0 +1,148 @@
+// src/article.ts
+import crypto from "crypto";
+import JSZip from "jszip";
+import type { Page } from "puppeteer";
+import { isEnvelope } from "../../shared/envelope";
+import { resourceText, sniffMimeType } from "../../shared/resource";
+import { getIndexedArchive } from "./indexer";
+import { readManifest } from "./manifest";
+import { loadPdf } from "./pdfText";
+import { getStorage } from "./storage";
+
+/**
+ * Readability-style text extraction, done once at capture time in the
+ * capturing browser so every reader diffs and analyzes the same text
+ * instead of re-deriving it from the stored HTML on their own machine.
+ * The result is stored in the archive as article.txt.
+ */
+
+export const ARTICLE_FILE = "article.txt";
+
+export interface ExtractedArticle {
+  title: string | null;
+  byline: string | null;
+  /** As the page states it, usually ISO 8601. */
+  publishedAt: string | null;
+  /** Main content, one block (heading, paragraph, list item) per paragraph. */
+  text: string;
+}
+
+/**
+ * Runs in the page. Metadata comes from meta tags, JSON-LD and common
+ * markup; the main content is the element whose paragraphs hold the
+ * most text (a paragraph counts fully for its parent, half for the
+ * grandparent), with navigation, ads and other chrome removed.
+ */
+function extractInPage(): ExtractedArticle {
+  const clean = (s: unknown) => (typeof s === "string" ? s : "").replace(/\s+/g, " ").trim();
+  const meta = (selector: string) => clean(document.querySelector(selector)?.getAttribute("content")) || null;
+  const textOf = (selector: string) => clean(document.querySelector(selector)?.textContent) || null;
+
+  let ld: Record<string, any> = {};
+  for (const script of Array.from(document.querySelectorAll('script[type="application/ld+json"]'))) {
+    try {
+      const data = JSON.parse(script.textContent ?? "");
+      const items = Array.isArray(data) ? data : data["@graph"] ?? [data];
+      const article = items.find((item: any) => /Article|Posting|Report/.test(String(item?.["@type"])));
+      if (article) {
+        ld = article;
+        break;
+      }
+    } catch {
+      // Malformed JSON-LD is common; ignore it
+    }
+  }
+  const ldAuthor = [ld.author].flat().map((a: any) => (typeof a === "string" ? a : a?.name)).filter(Boolean).join(", ");
+
+  const title = meta('meta[property="og:title"]') || clean(ld.headline) || textOf("h1") || clean(document.title) || null;
+  const byline =
+    meta('meta[name="author"]') || ldAuthor ||
+    textOf('[rel="author"], [itemprop="author"], .byline, .author') || null;
+  const publishedAt =
+    meta('meta[property="article:published_time"]') || clean(ld.datePublished) ||
+    clean(document.querySelector("time[datetime]")?.getAttribute("datetime")) || null;
+
+  const scores = new Map<Element, number>();
+  for (const p of Array.from(document.querySelectorAll("p"))) {
+    const length = clean(p.textContent).length;
+    if (length < 25) continue;
+    const parent = p.parentElement;
+    if (parent) scores.set(parent, (scores.get(parent) ?? 0) + length);
+    const grandparent = parent?.parentElement;
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) ?? 0) + length / 2);
+  }
+  let root: Element = document.body;
+  let best = 0;
+  for (const [element, score] of scores) {
+    if (score > best) {
+      best = score;
+      root = element;
+    }
+  }
+
+  const content = root.cloneNode(true) as Element;
+  content
+    .querySelectorAll("script, style, noscript, template, nav, header, footer, aside, form, button, iframe, svg, [aria-hidden=true], [role=navigation], [role=complementary]")
+    .forEach((el) => el.remove());
+
+  const BLOCKS = "h1, h2, h3, h4, h5, h6, p, li, blockquote, pre, figcaption";
+  const blocks = Array.from(content.querySelectorAll(BLOCKS))
+    // Nested blocks (a <p> inside an <li>) are part of their outer block's text
+    .filter((el) => !el.parentElement?.closest(BLOCKS))
+    .map((el) => clean(el.textContent))
+    .filter(Boolean);
+  const text = blocks.length > 0 ? blocks.join("\n\n") : clean((content as HTMLElement).innerText ?? content.textContent);
+
+  return { title, byline, publishedAt, text };
+}
+
+export async function extractArticle(page: Page): Promise<ExtractedArticle> {
+  return page.evaluate(extractInPage);
+}
+
+/** article.txt: metadata lines, a blank line, then the main content. */
+export function formatArticle(article: ExtractedArticle, url: string): string {
+  const header = [
+    article.title && `Title: ${article.title}`,
+    article.byline && `Byline: ${article.byline}`,
+    article.publishedAt && `Published: ${article.publishedAt}`,
+    `Source: ${url}`,
+  ].filter(Boolean);
+  return `${header.join("\n")}\n\n${article.text}\n`;
+}
+
+/**
+ * article.txt of an indexed, unsealed archive, read from storage and
+ * checked against the on-chain hash; for a PDF, JSON or text document,
+ * its extracted text, normalized JSON or the text itself. Null when the archive is unknown,
+ * sealed, older than article.txt or a resource without text (an image).
+ */
+export async function readStoredArticle(archiveId: string): Promise<string | null> {
+  const archive = getIndexedArchive(archiveId);
+  if (!archive) return null;
+  if (archive.encryption?.isSealed) return null;
+
+  const data = await getStorage().get(archive.walrusBlobId);
+  if (isEnvelope(data)) return null;
+  const expected = archive.contentHash.replace(/^0x/, "").toLowerCase();
+  if (expected && crypto.createHash("sha256").update(data).digest("hex") !== expected) {
+    throw new Error(`Stored blob of ${archiveId} does not match its on-chain hash`);
+  }
+
+  // Documents archived before they were packaged are the bare bytes
+  const sniffed = sniffMimeType(data);
+  if (sniffed && sniffed !== "application/zip") return resourceText(data, archive.mimeType ?? sniffed, loadPdf);
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    return null; // Not a zip
+  }
+  const resource = (await readManifest(zip))?.resource;
+  if (resource) {
+    const file = zip.file(resource.file);
+    return file ? resourceText(await file.async("uint8array"), archive.mimeType ?? resource.mimeType, loadPdf) : null;
+  }
+  return (await zip.file(ARTICLE_FILE)?.async("string")) ?? null;
+}
@@ -0,0 +1,248 @@
+// src/attestation.ts
+import crypto from "crypto";
+import JSZip from "jszip";
+import { verifyPersonalMessage } from "@mysten/sui.js/verify";
+import type { ArchiveFormat, CaptureMethod } from "./archive";
+import type { CaptureConfig } from "./captureProfiles";
+
+/**
+ * Capture attestations: the backend's signed statement of what it captured
+ * (URL, final URL, time, browser setup and the SHA-256 of every file in the
+ * archive), stored in the archive as attestation.json.
+ *
+ * The statement's digest is signed as a Sui personal message with the
+ * backend's Ed25519 key, the same key that sends the create_archive
+ * transaction. The signer is therefore the `captured_by` address of the Archive object, and
+ * a third party can check an archive offline with checkArchiveAttestation:
+ * no backend, RPC node or secret is involved.
+ *
+ * This module has no runtime dependency on the rest of the backend, so the
+ * verification CLI (verifyAttestationCli.ts) runs without any configuration.
+ */
+
+export const ATTESTATION_FILE = "attestation.json";
+export const ATTESTATION_TYPE = "archivechain-capture-attestation";
+const SOFTWARE = "ArchiveChain";
+
+export interface AttestedFile {
+  sha256: string;
+  bytes: number;
+}
+
+/** What the capturing side knows; the rest of the Attestation is filled in when signing. */
+export interface AttestationStatement {
+  url: string;
+  canonicalUrl: string | null;
+  finalUrl: string | null;
+  capturedAt: string;
+  format: ArchiveFormat;
+  /**
+   * "client" when a user's browser captured the page and submitted it: the
+   * backend then attests to what it received, not to what the site served.
+   */
+  captureMethod: CaptureMethod;
+  /**
+   * For a PDF, image or other document archived as served: its type. The
+   * bytes are in the file named by manifest.json's `resource`. Missing
+   * for page captures.
+   */
+  mimeType?: string;
+  capture: {
+    config: CaptureConfig | null;
+    browserVersion: string | null;
+    userAgent: string | null;
+  };
+  /** SHA-256 of the page's visible text, see normalizedTextHash. */
+  textHashHex: string;
+}
+
+export interface Attestation extends AttestationStatement {
+  type: typeof ATTESTATION_TYPE;
+  version: 1;
+  attestedAt: string;
+  software: string;
+  /** Sui address of the signing key. */
+  signer: string;
+  /** Every other file in the archive, by path. */
+  files: Record<string, AttestedFile>;
+}
+
+/** Contents of attestation.json. */
+export interface SignedAttestation {
+  attestation: Attestation;
+  /**
+   * Sui serialized signature (base64) of the personal message
+   * "ArchiveChain capture attestation\nsha256:<hex SHA-256 of canonicalJson(attestation)>".
+   */
+  signature: string;
+}
+
+export interface AttestationSigner {
+  address: string;
+  sign(message: Uint8Array): Promise<string>;
+}
+
+export interface AttestationCheck {
+  /** The attestation as stored, or null if there is none or it can't be parsed. */
+  attestation: Attestation | null;
+  signatureValid: boolean;
+  /** Address of the key that produced the signature. */
+  recoveredSigner: string | null;
+  /** recoveredSigner equals the expected address; null when none was given. */
+  signerMatches: boolean | null;
+  /** Files whose content differs from the attested hash or size. */
+  mismatched: string[];
+  /** Attested files absent from the archive. */
+  missing: string[];
+  /** Files in the archive the attestation doesn't cover. */
+  unattested: string[];
+  /** Everything above checks out. */
+  valid: boolean;
+  error: string | null;
+}
+
+/**
+ * JSON with object keys sorted at every level and no whitespace, so the
+ * signer and every verifier serialize an attestation to the same bytes.
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map((v) => canonicalJson(v) ?? "null").join(",")}]`;
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const members = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${members.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// The Sui SDK caps personal messages at 1 KiB, less than the file list of a
+// typical capture, so the signed message carries the JSON's SHA-256 instead
+function attestationMessage(attestation: Attestation): Uint8Array {
+  const digest = crypto.createHash("sha256").update(canonicalJson(attestation)).digest("hex");
+  return new TextEncoder().encode(`ArchiveChain capture attestation\nsha256:${digest}`);
+}
+
+async function hashFiles(zip: JSZip): Promise<Record<string, AttestedFile>> {
+  const files: Record<string, AttestedFile> = {};
+  for (const entry of Object.values(zip.files)) {
+    if (entry.dir || entry.name === ATTESTATION_FILE) continue;
+    const data = await entry.async("nodebuffer");
+    files[entry.name] = { sha256: crypto.createHash("sha256").update(data).digest("hex"), bytes: data.length };
+  }
+  return files;
+}
+
+/**
+ * Hashes every file of a packaged archive, signs the statement and adds
+ * it as attestation.json. `compression` must match how the archive was
+ * packaged (WACZ entries are stored uncompressed).
+ */
+export async function attestArchive(
+  archive: Buffer,
+  statement: AttestationStatement,
+  signer: AttestationSigner,
+  compression: "STORE" | "DEFLATE"
+): Promise<Buffer> {
+  const zip = await JSZip.loadAsync(archive);
+  const attestation: Attestation = {
+    type: ATTESTATION_TYPE,
+    version: 1,
+    ...statement,
+    attestedAt: new Date().toISOString(),
+    software: SOFTWARE,
+    signer: signer.address,
+    files: await hashFiles(zip),
+  };
+  const signed: SignedAttestation = {
+    attestation,
+    signature: await signer.sign(attestationMessage(attestation)),
+  };
+
+  zip.file(ATTESTATION_FILE, JSON.stringify(signed, null, 2), { createFolders: false });
+  return zip.generateAsync({
+    type: "nodebuffer",
+    compression,
+    ...(compression === "DEFLATE" ? { compressionOptions: { level: 6 } } : {}),
+  });
+}
+
+/**
+ * Checks the signature of an attestation.
+ * @returns the Sui address of the key that signed it
+ * @throws Error if the signature doesn't verify
+ */
+export async function verifyAttestationSignature(signed: SignedAttestation): Promise<string> {
+  const publicKey = await verifyPersonalMessage(attestationMessage(signed.attestation), signed.signature);
+  return publicKey.toSuiAddress();
+}
+
+/**
+ * Verifies an unsealed archive against its attestation.json: the
+ * signature, the signer (against `expectedSigner`, normally the Archive's
+ * on-chain `captured_by`) and the hash of every file.
+ */
+export async function checkArchiveAttestation(archive: Uint8Array, expectedSigner?: string): Promise<AttestationCheck> {
+  const check: AttestationCheck = {
+    attestation: null,
+    signatureValid: false,
+    recoveredSigner: null,
+    signerMatches: null,
+    mismatched: [],
+    missing: [],
+    unattested: [],
+    valid: false,
+    error: null,
+  };
+
+  let zip: JSZip;
+  let signed: SignedAttestation;
+  try {
+    zip = await JSZip.loadAsync(archive);
+    const file = zip.file(ATTESTATION_FILE);
+    if (!file) {
+      check.error = `No ${ATTESTATION_FILE} in this archive`;
+      return check;
+    }
+    signed = JSON.parse(await file.async("string"));
+    if (signed?.attestation?.type !== ATTESTATION_TYPE || typeof signed.signature !== "string") {
+      check.error = `${ATTESTATION_FILE} is not an ArchiveChain capture attestation`;
+      return check;
+    }
+  } catch (err: any) {
+    check.error = err?.message ?? "Archive could not be read";
+    return check;
+  }
+  check.attestation = signed.attestation;
+
+  try {
+    check.recoveredSigner = await verifyAttestationSignature(signed);
+    // The attestation names its signer; a valid signature by another key doesn't count
+    check.signatureValid = check.recoveredSigner === signed.attestation.signer;
+    if (!check.signatureValid) check.error = `Signed by ${check.recoveredSigner}, not the stated signer ${signed.attestation.signer}`;
+  } catch (err: any) {
+    check.error = `Signature does not verify: ${err?.message ?? "invalid signature"}`;
+  }
+  if (expectedSigner) {
+    check.signerMatches = check.recoveredSigner !== null && check.recoveredSigner.toLowerCase() === expectedSigner.toLowerCase();
+  }
+
+  const attested = signed.attestation.files ?? {};
+  const actual = await hashFiles(zip);
+  for (const [path, expected] of Object.entries(attested)) {
+    const file = actual[path];
+    if (!file) check.missing.push(path);
+    else if (file.sha256 !== expected.sha256 || file.bytes !== expected.bytes) check.mismatched.push(path);
+  }
+  check.unattested = Object.keys(actual).filter((path) => !(path in attested));
+
+  check.valid =
+    check.signatureValid &&
+    check.signerMatches !== false &&
+    check.mismatched.length === 0 &&
+    check.missing.length === 0 &&
+    check.unattested.length === 0;
+  return check;
+}
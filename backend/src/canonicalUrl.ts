@@ -0,0 +1,79 @@
+// src/canonicalUrl.ts
+
+/**
+ * Canonical form of a page URL, used as the key when archives are written
+ * and searched, so https://WWW.Example.com:443/a/?utm_source=x#top and
+ * https://example.com/a are the same page.
+ *
+ * - scheme and host lowercased, IDN hosts converted to punycode
+ * - leading "www." dropped
+ * - default ports (80 for http, 443 for https) dropped
+ * - trailing slash dropped, except for the root path
+ * - tracking parameters and the fragment removed
+ */
+
+// Exact names; anything starting with utm_ is matched separately
+const TRACKING_PARAMS = new Set([
+  "fbclid", "gclid", "gclsrc", "dclid", "gbraid", "wbraid", "msclkid", "yclid",
+  "twclid", "ttclid", "li_fat_id", "igshid", "mc_cid", "mc_eid", "_ga", "_gl",
+  "_hsenc", "_hsmi", "mkt_tok", "oly_anon_id", "oly_enc_id", "vero_id", "ref_src",
+]);
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.startsWith("utm_") || TRACKING_PARAMS.has(lower);
+}
+
+/** Throws for anything that isn't an absolute http(s) URL. */
+export function canonicalizeUrl(input: string): string {
+  let url: URL;
+  try {
+    // WHATWG parsing already lowercases the scheme and host, converts IDN
+    // hosts to punycode and drops default ports
+    url = new URL(input.trim());
+  } catch {
+    throw new Error(`Invalid URL: ${input}`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Unsupported URL scheme: ${url.protocol}`);
+  }
+
+  url.hostname = url.hostname.replace(/^www\./, "").replace(/\.$/, "");
+  url.hash = "";
+  url.username = "";
+  url.password = "";
+
+  for (const name of Array.from(url.searchParams.keys())) {
+    if (isTrackingParam(name)) url.searchParams.delete(name);
+  }
+  // Setting an empty search would leave a dangling "?" in some inputs
+  if (!url.searchParams.toString()) url.search = "";
+
+  if (url.pathname.length > 1) url.pathname = url.pathname.replace(/\/+$/, "") || "/";
+
+  return url.href;
+}
+
+/** Like canonicalizeUrl, but returns null instead of throwing. */
+export function tryCanonicalizeUrl(input: string): string | null {
+  try {
+    return canonicalizeUrl(input);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Host used for whole-domain lookups. Accepts a URL or a bare host such
+ * as "example.com" or "www.Example.com".
+ */
+export function canonicalHost(input: string): string | null {
+  const trimmed = input.trim();
+  const canonical = tryCanonicalizeUrl(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  return canonical ? new URL(canonical).hostname : null;
+}
+
+/** True when `host` is `domain` or one of its subdomains. */
+export function isSameDomain(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
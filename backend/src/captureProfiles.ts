@@ -0,0 +1,204 @@
+// src/captureProfiles.ts
+import { KnownDevices, PuppeteerLifeCycleEvent } from "puppeteer";
+
+/**
+ * Capture profiles and options. A request picks a named profile (the
+ * device and media to emulate) and may adjust how the page is loaded:
+ * what to wait for, scrolling for lazy-loaded content, cookie-banner
+ * dismissal, user agent, headers and locale. resolveCaptureConfig turns
+ * them into the full CaptureConfig, which is what capturePage runs with
+ * and what the manifest and attestation record.
+ */
+
+export type CaptureProfileName = "desktop" | "mobile" | "print";
+export const CAPTURE_PROFILES: CaptureProfileName[] = ["desktop", "mobile", "print"];
+
+export const WAIT_CONDITIONS: PuppeteerLifeCycleEvent[] = ["load", "domcontentloaded", "networkidle0", "networkidle2"];
+
+export const MAX_DELAY_MS = 30_000;
+const MAX_CONSENT_SELECTORS = 20;
+const MAX_SELECTOR_LENGTH = 500;
+const MAX_HEADERS = 20;
+
+// Headers Chrome manages itself, and credentials that would end up in the
+// public manifest and attestation
+const FORBIDDEN_HEADERS = new Set([
+  "host", "content-length", "connection", "transfer-encoding", "upgrade",
+  "cookie", "authorization", "proxy-authorization",
+]);
+
+/** What a client may send as `captureOptions`. Everything is optional. */
+export interface CaptureOptions {
+  profile?: CaptureProfileName;
+  waitUntil?: PuppeteerLifeCycleEvent;
+  /** Extra wait after the page has loaded (and scrolled), in ms. */
+  delayMs?: number;
+  /** Scroll to the bottom and back to trigger lazy loading. */
+  autoScroll?: boolean;
+  /** CSS selector that must appear before the page is captured. */
+  waitForSelector?: string;
+  /** Click "accept" on known cookie/consent banners. */
+  dismissConsent?: boolean;
+  /** Further buttons to click when dismissing consent banners. */
+  consentSelectors?: string[];
+  userAgent?: string;
+  /** Extra request headers, e.g. to select a regional edition. */
+  headers?: Record<string, string>;
+  /** BCP 47 language tag, sent as Accept-Language and used as the browser's UI language. */
+  locale?: string;
+}
+
+export interface Viewport {
+  width: number;
+  height: number;
+  deviceScaleFactor: number;
+  isMobile: boolean;
+  hasTouch: boolean;
+}
+
+/** How the headless browser was set up; recorded in the manifest and attestation. */
+export interface CaptureConfig {
+  profile: CaptureProfileName;
+  viewport: Viewport;
+  /** Null uses the browser's own user agent. */
+  userAgent: string | null;
+  locale: string | null;
+  headers: Record<string, string>;
+  /** "print" renders the page's print stylesheet. */
+  media: "screen" | "print";
+  waitUntil: PuppeteerLifeCycleEvent;
+  waitForSelector: string | null;
+  delayMs: number;
+  autoScroll: boolean;
+  dismissConsent: boolean;
+  /** The built-in rules followed by the request's own. */
+  consentSelectors: string[];
+  fullPageScreenshot: boolean;
+  recordNetwork: boolean;
+}
+
+const MOBILE_DEVICE = KnownDevices["iPhone 15 Pro"];
+
+const PROFILES: Record<CaptureProfileName, Pick<CaptureConfig, "viewport" | "userAgent" | "media">> = {
+  desktop: {
+    viewport: { width: 1280, height: 1024, deviceScaleFactor: 1, isMobile: false, hasTouch: false },
+    userAgent: null,
+    media: "screen",
+  },
+  mobile: {
+    viewport: {
+      width: MOBILE_DEVICE.viewport.width,
+      height: MOBILE_DEVICE.viewport.height,
+      deviceScaleFactor: MOBILE_DEVICE.viewport.deviceScaleFactor ?? 1,
+      isMobile: true,
+      hasTouch: true,
+    },
+    userAgent: MOBILE_DEVICE.userAgent,
+    media: "screen",
+  },
+  print: {
+    // A4 width at 96 dpi
+    viewport: { width: 794, height: 1123, deviceScaleFactor: 1, isMobile: false, hasTouch: false },
+    userAgent: null,
+    media: "print",
+  },
+};
+
+/**
+ * "Accept" buttons of common consent-management platforms (OneTrust,
+ * Cookiebot, Didomi, Quantcast, TrustArc, Sourcepoint, Google Funding
+ * Choices). Clicked in every frame, since several render in an iframe.
+ */
+export const CONSENT_SELECTORS = [
+  "#onetrust-accept-btn-handler",
+  "#CybotCookiebotDialogBodyLevelButtonLevelOptinAllowAll",
+  "#CybotCookiebotDialogBodyButtonAccept",
+  "#didomi-notice-agree-button",
+  ".qc-cmp2-summary-buttons button[mode=\"primary\"]",
+  "#truste-consent-button",
+  "button.sp_choice_type_11",
+  ".fc-cta-consent",
+  "button[data-testid=\"uc-accept-all-button\"]",
+];
+
+function stringError(name: string, value: unknown, maxLength: number): string | null {
+  if (typeof value !== "string" || !value.trim()) return `${name} must be a non-empty string`;
+  if (value.length > maxLength) return `${name} must be at most ${maxLength} characters`;
+  if (/[\u0000-\u001f\u007f]/.test(value)) return `${name} must not contain control characters`;
+  return null;
+}
+
+/** Returns a problem description, or null if the options can be used. */
+export function captureOptionsError(options: unknown): string | null {
+  if (options === undefined) return null;
+  if (!options || typeof options !== "object" || Array.isArray(options)) return "captureOptions must be an object";
+  const o = options as Record<string, unknown>;
+
+  if (o.profile !== undefined && !CAPTURE_PROFILES.includes(o.profile as CaptureProfileName)) {
+    return `captureOptions.profile must be one of: ${CAPTURE_PROFILES.join(", ")}`;
+  }
+  if (o.waitUntil !== undefined && !WAIT_CONDITIONS.includes(o.waitUntil as PuppeteerLifeCycleEvent)) {
+    return `captureOptions.waitUntil must be one of: ${WAIT_CONDITIONS.join(", ")}`;
+  }
+  if (o.delayMs !== undefined && (!Number.isInteger(o.delayMs) || (o.delayMs as number) < 0 || (o.delayMs as number) > MAX_DELAY_MS)) {
+    return `captureOptions.delayMs must be an integer from 0 to ${MAX_DELAY_MS}`;
+  }
+  for (const flag of ["autoScroll", "dismissConsent"]) {
+    if (o[flag] !== undefined && typeof o[flag] !== "boolean") return `captureOptions.${flag} must be a boolean`;
+  }
+  if (o.waitForSelector !== undefined) {
+    const problem = stringError("captureOptions.waitForSelector", o.waitForSelector, MAX_SELECTOR_LENGTH);
+    if (problem) return problem;
+  }
+  if (o.consentSelectors !== undefined) {
+    if (!Array.isArray(o.consentSelectors) || o.consentSelectors.length > MAX_CONSENT_SELECTORS) {
+      return `captureOptions.consentSelectors must be an array of at most ${MAX_CONSENT_SELECTORS} selectors`;
+    }
+    for (const selector of o.consentSelectors) {
+      const problem = stringError("captureOptions.consentSelectors[]", selector, MAX_SELECTOR_LENGTH);
+      if (problem) return problem;
+    }
+  }
+  if (o.userAgent !== undefined) {
+    const problem = stringError("captureOptions.userAgent", o.userAgent, 512);
+    if (problem) return problem;
+  }
+  if (o.locale !== undefined && (typeof o.locale !== "string" || !/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/.test(o.locale))) {
+    return "captureOptions.locale must be a language tag such as en-US";
+  }
+  if (o.headers !== undefined) {
+    if (!o.headers || typeof o.headers !== "object" || Array.isArray(o.headers)) return "captureOptions.headers must be an object";
+    const entries = Object.entries(o.headers as Record<string, unknown>);
+    if (entries.length > MAX_HEADERS) return `captureOptions.headers may set at most ${MAX_HEADERS} headers`;
+    for (const [name, value] of entries) {
+      if (!/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name)) return `captureOptions.headers: invalid header name "${name}"`;
+      if (FORBIDDEN_HEADERS.has(name.toLowerCase())) return `captureOptions.headers: "${name}" can't be set (it would be recorded in the public manifest or is managed by the browser)`;
+      const problem = stringError(`captureOptions.headers["${name}"]`, value, 1024);
+      if (problem) return problem;
+    }
+  }
+  return null;
+}
+
+/** Fills in the profile's defaults. The options must have passed captureOptionsError. */
+export function resolveCaptureConfig(options: CaptureOptions = {}, { recordNetwork = false } = {}): CaptureConfig {
+  const profile = options.profile ?? "desktop";
+  const base = PROFILES[profile];
+  const dismissConsent = options.dismissConsent ?? false;
+  return {
+    profile,
+    viewport: { ...base.viewport },
+    userAgent: options.userAgent ?? base.userAgent,
+    locale: options.locale ?? null,
+    headers: { ...options.headers },
+    media: base.media,
+    waitUntil: options.waitUntil ?? "networkidle2",
+    waitForSelector: options.waitForSelector ?? null,
+    delayMs: options.delayMs ?? 0,
+    autoScroll: options.autoScroll ?? false,
+    dismissConsent,
+    consentSelectors: dismissConsent ? [...CONSENT_SELECTORS, ...(options.consentSelectors ?? [])] : [],
+    fullPageScreenshot: true,
+    recordNetwork,
+  };
+}
@@ -0,0 +1,541 @@
+// src/crawls.ts
+import crypto from "crypto";
+import { readJsonDir, writeJson } from "./dataStore";
+import { createArchiveJob, dropJobLinks, getJob, waitForJob } from "./jobs";
+import { canonicalizeUrl, tryCanonicalizeUrl } from "./canonicalUrl";
+import { CaptureOptions, resolveCaptureConfig } from "./captureProfiles";
+import { decompress, fetchResource } from "./resource";
+import { sha256Hex } from "./archive";
+import { UrlPattern, compilePattern, matchesPattern } from "./urlPattern";
+import { getStorage } from "./storage";
+
+/**
+ * Crawls: a whole site section archived in one request. Pages come from a
+ * seed URL and the links on every captured page (breadth-first, up to
+ * maxDepth hops), or from a sitemap. Each page is an ordinary archive job;
+ * the crawl only decides what to queue next. Each crawl's state is its own
+ * DATA_DIR/crawls/<id>.json, written as pages finish, so a restart picks
+ * up where it stopped, and a finished crawl stores a crawl manifest
+ * listing every archive it produced.
+ */
+
+const CRAWLS_DIR = "crawls";
+// Pages finish several at a time; their changes share one write
+const SAVE_DELAY_MS = 1000;
+export const MAX_CRAWL_PAGES = Number(process.env.MAX_CRAWL_PAGES || 1000);
+export const MAX_CRAWL_DEPTH = 10;
+export const MAX_CRAWL_CONCURRENCY = 8;
+const MAX_PATTERNS = 20;
+const MAX_PATTERN_LENGTH = 500;
+// Sitemap indexes that point at further indexes
+const MAX_SITEMAP_NESTING = 3;
+
+export type CrawlStatus = "running" | "completed" | "cancelled" | "failed";
+export type CrawlPageStatus = "pending" | "running" | "archived" | "failed";
+
+export interface CrawlRequest {
+  /** Start page; links are followed from here. Either this or sitemapUrl. */
+  seedUrl?: string;
+  /** sitemap.xml (or a sitemap index, optionally gzipped) listing the pages. */
+  sitemapUrl?: string;
+  title?: string;
+  /** Link hops from the seed or sitemap pages. 0 archives only those. */
+  maxDepth?: number;
+  maxPages?: number;
+  /** URL globs (see urlPattern.ts); when given, a URL must match one. */
+  include?: string[];
+  /** URL globs; a matching URL is never archived. */
+  exclude?: string[];
+  /** Archive jobs this crawl keeps in flight at once. */
+  concurrency?: number;
+  /** Used for every page, see captureProfiles.ts. */
+  captureOptions?: CaptureOptions;
+}
+
+export interface CrawlSettings {
+  maxDepth: number;
+  maxPages: number;
+  include: string[];
+  exclude: string[];
+  concurrency: number;
+}
+
+export interface CrawlPage {
+  url: string;
+  /** Deduplication key, see canonicalUrl.ts. */
+  canonicalUrl: string;
+  depth: number;
+  /** Page the link was found on; null for the seed and sitemap entries. */
+  foundOn: string | null;
+  status: CrawlPageStatus;
+  jobId: string | null;
+  finishedAt: string | null;
+  /** As archived: the page's <title>, or the fallback (see fallbackTitle). */
+  title?: string;
+  mimeType?: string;
+  contentHashHex?: string;
+  walrusBlobId?: string;
+  suiTxDigest?: string | null;
+  suiArchiveId?: string | null;
+  error?: string;
+}
+
+export interface Crawl {
+  id: string;
+  status: CrawlStatus;
+  seedUrl: string | null;
+  sitemapUrl: string | null;
+  title: string | null;
+  /** Links followed stay on this host (canonical form, so www. is ignored). */
+  host: string;
+  settings: CrawlSettings;
+  captureOptions?: CaptureOptions;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+  /** In discovery order, which is breadth-first. */
+  pages: CrawlPage[];
+  /** In-scope URLs left out because maxPages was reached. */
+  skippedOverLimit: number;
+  /** The stored crawl manifest, once the crawl has finished. */
+  manifest: { walrusBlobId: string; contentHashHex: string; storageProvider: string } | null;
+  error: string | null;
+}
+
+export interface CrawlManifest {
+  type: "archivechain-crawl-manifest";
+  version: 1;
+  crawlId: string;
+  title: string | null;
+  seedUrl: string | null;
+  sitemapUrl: string | null;
+  settings: CrawlSettings;
+  status: CrawlStatus;
+  createdAt: string;
+  finishedAt: string | null;
+  /** On-chain ids of every page archived, in discovery order. */
+  archiveIds: string[];
+  pages: Array<
+    Pick<CrawlPage, "url" | "canonicalUrl" | "depth" | "foundOn" | "status" | "finishedAt" | "error"> & {
+      title: string | null;
+      mimeType: string | null;
+      contentHashHex: string | null;
+      walrusBlobId: string | null;
+      suiArchiveId: string | null;
+    }
+  >;
+  skippedOverLimit: number;
+}
+
+let crawls: Crawl[] = [];
+let loaded = false;
+/** Ids of crawls with a runner in this process. */
+const active = new Set<string>();
+/** Compiled include and exclude patterns, by crawl id. */
+const scopes = new Map<string, { include: UrlPattern[]; exclude: UrlPattern[] }>();
+/** Latest write of each crawl's file, and whether it has started; until then later changes join it. */
+const saves = new Map<string, { done: Promise<void>; started: boolean }>();
+
+function crawlFile(id: string): string {
+  return `${CRAWLS_DIR}/${id}.json`;
+}
+
+/**
+ * Writes the crawl's file SAVE_DELAY_MS from now, after any write already
+ * under way. Changes made before it starts are written with it, so a
+ * crawl of n pages isn't rewritten once per page. Resolves when the
+ * current state is on disk.
+ */
+function save(crawl: Crawl): Promise<void> {
+  const previous = saves.get(crawl.id);
+  if (previous && !previous.started) return previous.done;
+
+  const entry = { done: Promise.resolve(), started: false };
+  entry.done = (previous?.done ?? Promise.resolve())
+    .catch(() => {}) // Reported to its own callers; this write replaces it
+    .then(() => new Promise((resolve) => setTimeout(resolve, SAVE_DELAY_MS)))
+    .then(() => {
+      entry.started = true;
+      return writeJson(crawlFile(crawl.id), crawl);
+    })
+    .finally(() => {
+      if (saves.get(crawl.id) === entry) saves.delete(crawl.id);
+    });
+  saves.set(crawl.id, entry);
+  return entry.done;
+}
+
+async function touch(crawl: Crawl) {
+  crawl.updatedAt = new Date().toISOString();
+  await save(crawl);
+}
+
+export function listCrawls(): Crawl[] {
+  return crawls;
+}
+
+export function getCrawl(id: string): Crawl | undefined {
+  return crawls.find((c) => c.id === id);
+}
+
+// --- Validation ---
+
+function patternsError(name: string, value: unknown): string | null {
+  if (value === undefined) return null;
+  if (!Array.isArray(value) || value.length > MAX_PATTERNS) return `${name} must be an array of at most ${MAX_PATTERNS} patterns`;
+  for (const pattern of value) {
+    if (typeof pattern !== "string" || !pattern || pattern.length > MAX_PATTERN_LENGTH) {
+      return `${name} patterns must be non-empty strings of at most ${MAX_PATTERN_LENGTH} characters`;
+    }
+  }
+  return null;
+}
+
+function integerError(name: string, value: unknown, min: number, max: number): string | null {
+  if (value === undefined) return null;
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+    ? null
+    : `${name} must be an integer from ${min} to ${max}`;
+}
+
+/** Returns a problem description, or null if the crawl can be started. captureOptions are checked separately. */
+export function crawlRequestError(input: CrawlRequest): string | null {
+  const { seedUrl, sitemapUrl } = input;
+  if ((seedUrl === undefined) === (sitemapUrl === undefined)) return "Provide exactly one of seedUrl, sitemapUrl";
+  const start = seedUrl ?? sitemapUrl;
+  if (typeof start !== "string" || !tryCanonicalizeUrl(start)) {
+    return `${seedUrl !== undefined ? "seedUrl" : "sitemapUrl"} must be an absolute http(s) URL`;
+  }
+  if (input.title !== undefined && typeof input.title !== "string") return "title must be a string";
+  return (
+    integerError("maxDepth", input.maxDepth, 0, MAX_CRAWL_DEPTH) ??
+    integerError("maxPages", input.maxPages, 1, MAX_CRAWL_PAGES) ??
+    integerError("concurrency", input.concurrency, 1, MAX_CRAWL_CONCURRENCY) ??
+    patternsError("include", input.include) ??
+    patternsError("exclude", input.exclude)
+  );
+}
+
+// --- Discovery ---
+
+function hostOf(url: string): string {
+  return new URL(canonicalizeUrl(url)).host;
+}
+
+function scopeOf(crawl: Crawl) {
+  let scope = scopes.get(crawl.id);
+  if (!scope) {
+    scope = { include: crawl.settings.include.map(compilePattern), exclude: crawl.settings.exclude.map(compilePattern) };
+    scopes.set(crawl.id, scope);
+  }
+  return scope;
+}
+
+function inScope(crawl: Crawl, url: string): boolean {
+  const canonical = tryCanonicalizeUrl(url);
+  if (!canonical || new URL(canonical).host !== crawl.host) return false;
+  const { include, exclude } = scopeOf(crawl);
+  if (include.length > 0 && !include.some((pattern) => matchesPattern(pattern, url))) return false;
+  return !exclude.some((pattern) => matchesPattern(pattern, url));
+}
+
+/** Adds in-scope URLs not seen before, up to maxPages. Returns how many were added. */
+function addPages(crawl: Crawl, urls: string[], depth: number, foundOn: string | null): number {
+  const seen = new Set(crawl.pages.map((p) => p.canonicalUrl));
+  let added = 0;
+  for (const raw of urls) {
+    if (!inScope(crawl, raw)) continue;
+    const url = new URL(raw);
+    url.hash = "";
+    const canonicalUrl = canonicalizeUrl(url.href);
+    if (seen.has(canonicalUrl)) continue;
+    seen.add(canonicalUrl);
+    if (crawl.pages.length >= crawl.settings.maxPages) {
+      crawl.skippedOverLimit++;
+      continue;
+    }
+    crawl.pages.push({
+      url: url.href,
+      canonicalUrl,
+      depth,
+      foundOn,
+      status: "pending",
+      jobId: null,
+      finishedAt: null,
+    });
+    added++;
+  }
+  return added;
+}
+
+function xmlText(value: string): string {
+  return value
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+/**
+ * Page URLs listed in a sitemap, following sitemap indexes. Fetched like a
+ * resource capture, with the crawl's user agent and headers.
+ */
+async function readSitemap(url: string, crawl: Crawl, nesting = 0): Promise<string[]> {
+  const resource = await fetchResource(url, resolveCaptureConfig(crawl.captureOptions));
+  if (!resource) throw new Error(`${url} is an HTML page, not a sitemap`);
+  if (resource.mainResponse.status >= 400) throw new Error(`${url} returned HTTP ${resource.mainResponse.status}`);
+
+  let body: Buffer = Buffer.from(resource.body);
+  // sitemap.xml.gz is usually served as application/gzip, without Content-Encoding
+  if (body[0] === 0x1f && body[1] === 0x8b) body = await decompress(body, "gzip");
+  const xml = body.toString("utf8");
+  const locs = Array.from(xml.matchAll(/<loc>([\s\S]*?)<\/loc>/gi), (match) => xmlText(match[1]));
+
+  if (!/<sitemapindex[\s>]/i.test(xml)) return locs;
+  if (nesting >= MAX_SITEMAP_NESTING) throw new Error(`Sitemap indexes nested more than ${MAX_SITEMAP_NESTING} deep`);
+  const urls: string[] = [];
+  for (const loc of locs) {
+    try {
+      urls.push(...(await readSitemap(loc, crawl, nesting + 1)));
+    } catch (err: any) {
+      console.warn(`[CRAWL] Skipping sitemap ${loc}:`, err?.message);
+    }
+    if (urls.length >= crawl.settings.maxPages * 10) break;
+  }
+  return urls;
+}
+
+// --- Runner ---
+
+/** Title for a page without a <title> (or a document): the crawl's title and the page's path. */
+function fallbackTitle(crawl: Crawl, page: CrawlPage): string {
+  if (!crawl.title) return page.url;
+  const { pathname, search } = new URL(page.url);
+  return `${crawl.title}: ${pathname}${search}`;
+}
+
+/** Queues the page's archive job, or re-attaches to it after a restart, and records the outcome. */
+async function archivePage(crawl: Crawl, page: CrawlPage): Promise<void> {
+  try {
+    if (!page.jobId || !getJob(page.jobId)) {
+      const job = await createArchiveJob(
+        { url: page.url, title: fallbackTitle(crawl, page), captureOptions: crawl.captureOptions },
+        { collectLinks: page.depth < crawl.settings.maxDepth, usePageTitle: true }
+      );
+      page.jobId = job.id;
+      page.status = "running";
+      await touch(crawl);
+    }
+
+    const job = await waitForJob(page.jobId);
+    page.finishedAt = new Date().toISOString();
+    if (job.status === "failed") {
+      page.status = "failed";
+      page.error = job.error ?? "Unknown error";
+      console.error(`[CRAWL] ❌ ${page.url}: ${page.error}`);
+    } else {
+      const result = job.result!;
+      page.status = "archived";
+      page.title = result.title;
+      page.mimeType = result.mimeType;
+      page.contentHashHex = result.contentHashHex;
+      page.walrusBlobId = result.walrusBlobId;
+      page.suiTxDigest = result.suiTxDigest;
+      page.suiArchiveId = result.suiArchiveId;
+      const added =
+        crawl.status === "running" && page.depth < crawl.settings.maxDepth
+          ? addPages(crawl, job.outputs.links ?? [], page.depth + 1, page.url)
+          : 0;
+      console.log(`[CRAWL] ✅ ${page.url} archived${added > 0 ? `, ${added} new page(s) found` : ""}`);
+    }
+  } catch (err: any) {
+    page.status = "failed";
+    page.finishedAt = new Date().toISOString();
+    page.error = err?.message ?? "Unknown error";
+    console.error(`[CRAWL] ❌ ${page.url}:`, page.error);
+  }
+  await touch(crawl);
+  // The pages found on it are saved with the crawl now
+  if (page.jobId) await dropJobLinks(page.jobId);
+}
+
+export function buildCrawlManifest(crawl: Crawl): CrawlManifest {
+  return {
+    type: "archivechain-crawl-manifest",
+    version: 1,
+    crawlId: crawl.id,
+    title: crawl.title,
+    seedUrl: crawl.seedUrl,
+    sitemapUrl: crawl.sitemapUrl,
+    settings: crawl.settings,
+    status: crawl.status,
+    createdAt: crawl.createdAt,
+    finishedAt: crawl.finishedAt,
+    archiveIds: crawl.pages.flatMap((p) => (p.suiArchiveId ? [p.suiArchiveId] : [])),
+    pages: crawl.pages.map((p) => ({
+      url: p.url,
+      canonicalUrl: p.canonicalUrl,
+      depth: p.depth,
+      foundOn: p.foundOn,
+      status: p.status,
+      finishedAt: p.finishedAt,
+      title: p.title ?? null,
+      mimeType: p.mimeType ?? null,
+      contentHashHex: p.contentHashHex ?? null,
+      walrusBlobId: p.walrusBlobId ?? null,
+      suiArchiveId: p.suiArchiveId ?? null,
+      ...(p.error ? { error: p.error } : {}),
+    })),
+    skippedOverLimit: crawl.skippedOverLimit,
+  };
+}
+
+/** Stores the manifest next to the archives, so the crawl is on record with its content hash. */
+async function storeManifest(crawl: Crawl): Promise<void> {
+  const data = Buffer.from(JSON.stringify(buildCrawlManifest(crawl), null, 2));
+  try {
+    const storage = getStorage();
+    const { blobId } = await storage.put(data);
+    crawl.manifest = { walrusBlobId: blobId, contentHashHex: sha256Hex(data), storageProvider: storage.name };
+    console.log(`[CRAWL] ✅ Manifest for ${crawl.id} stored as ${blobId}`);
+  } catch (err: any) {
+    crawl.error = `Manifest upload failed: ${err?.message ?? "Unknown error"}`;
+    console.error(`[CRAWL] ❌ ${crawl.error}`);
+  }
+}
+
+/**
+ * Keeps up to `concurrency` pages in flight until none are pending, then
+ * stores the manifest. Pages left running by a previous process are
+ * re-attached to their jobs first.
+ */
+async function runCrawl(crawl: Crawl): Promise<void> {
+  if (active.has(crawl.id)) return;
+  active.add(crawl.id);
+  try {
+    if (crawl.sitemapUrl && crawl.pages.length === 0) {
+      const urls = await readSitemap(crawl.sitemapUrl, crawl);
+      const added = addPages(crawl, urls, 0, null);
+      console.log(`[CRAWL] Sitemap ${crawl.sitemapUrl} lists ${urls.length} URL(s), ${added} in scope`);
+      if (added === 0) throw new Error("The sitemap lists no pages in scope");
+      await touch(crawl);
+    }
+
+    const inFlight = new Set<Promise<void>>();
+    const start = (page: CrawlPage) => {
+      page.status = "running";
+      const done: Promise<void> = archivePage(crawl, page).finally(() => inFlight.delete(done));
+      inFlight.add(done);
+    };
+    for (const page of crawl.pages) {
+      if (page.status === "running") start(page);
+    }
+
+    while (true) {
+      const next = crawl.status === "running" ? crawl.pages.find((p) => p.status === "pending") : undefined;
+      if (next && inFlight.size < crawl.settings.concurrency) {
+        start(next);
+        continue;
+      }
+      if (inFlight.size === 0) break;
+      await Promise.race(inFlight);
+    }
+
+    if (crawl.status === "running") crawl.status = "completed";
+  } catch (err: any) {
+    crawl.status = "failed";
+    crawl.error = err?.message ?? "Unknown error";
+    console.error(`[CRAWL] ❌ ${crawl.id}:`, crawl.error);
+  } finally {
+    active.delete(crawl.id);
+    scopes.delete(crawl.id);
+  }
+
+  crawl.finishedAt = new Date().toISOString();
+  if (crawl.pages.length > 0) await storeManifest(crawl);
+  await touch(crawl);
+  const archived = crawl.pages.filter((p) => p.status === "archived").length;
+  console.log(`[CRAWL] ${crawl.id} ${crawl.status}: ${archived}/${crawl.pages.length} page(s) archived`);
+}
+
+function launch(crawl: Crawl) {
+  runCrawl(crawl).catch((err) => console.error(`[CRAWL ${crawl.id}] Runner error:`, err?.message));
+}
+
+// --- Public API ---
+
+/** Starts a crawl in the background. The input must have passed crawlRequestError and captureOptionsError. */
+export async function startCrawl(input: CrawlRequest): Promise<Crawl> {
+  const now = new Date().toISOString();
+  const seedUrl = input.seedUrl ?? null;
+  const sitemapUrl = input.sitemapUrl ?? null;
+  const crawl: Crawl = {
+    id: crypto.randomUUID(),
+    status: "running",
+    seedUrl,
+    sitemapUrl,
+    title: input.title ?? null,
+    host: hostOf((seedUrl ?? sitemapUrl)!),
+    settings: {
+      // A sitemap already lists the pages; a seed is only useful with its links
+      maxDepth: input.maxDepth ?? (sitemapUrl ? 0 : 2),
+      maxPages: input.maxPages ?? Math.min(100, MAX_CRAWL_PAGES),
+      include: input.include ?? [],
+      exclude: input.exclude ?? [],
+      concurrency: input.concurrency ?? 2,
+    },
+    ...(input.captureOptions ? { captureOptions: input.captureOptions } : {}),
+    createdAt: now,
+    updatedAt: now,
+    finishedAt: null,
+    pages: [],
+    skippedOverLimit: 0,
+    manifest: null,
+    error: null,
+  };
+  // The seed is archived even if the patterns would leave it out
+  if (seedUrl) {
+    crawl.pages.push({
+      url: seedUrl,
+      canonicalUrl: canonicalizeUrl(seedUrl),
+      depth: 0,
+      foundOn: null,
+      status: "pending",
+      jobId: null,
+      finishedAt: null,
+    });
+  }
+
+  crawls.push(crawl);
+  await writeJson(crawlFile(crawl.id), crawl);
+  launch(crawl);
+  return crawl;
+}
+
+/** Stops queueing pages. Pages already in flight finish and are kept in the manifest. */
+export async function cancelCrawl(id: string): Promise<Crawl | undefined> {
+  const crawl = getCrawl(id);
+  if (!crawl) return undefined;
+  if (crawl.status !== "running") throw new Error(`Only running crawls can be cancelled (status: ${crawl.status})`);
+  crawl.status = "cancelled";
+  await touch(crawl);
+  return crawl;
+}
+
+/** Loads persisted crawls. Call before the routes that read them are served. */
+export async function loadCrawls(): Promise<void> {
+  if (loaded) return;
+  crawls = (await readJsonDir<Crawl>(CRAWLS_DIR)).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  loaded = true;
+}
+
+/** Restarts the runners of unfinished crawls. Call after loadJobs and loadCrawls. */
+export function resumeCrawls(): void {
+  // Cancelled before the restart but never finished
+  const unfinished = crawls.filter((c) => c.status === "running" || (c.status === "cancelled" && !c.finishedAt));
+  if (unfinished.length > 0) console.log(`[CRAWL] Resuming ${unfinished.length} unfinished crawl(s)`);
+  for (const crawl of unfinished) launch(crawl);
+}
@@ -0,0 +1,64 @@
+// src/dataStore.ts
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Tiny JSON-file persistence used for backend state that has to survive a
+ * restart (watchlist, jobs, ...). Everything lives under DATA_DIR.
+ */
+let tmpCounter = 0;
+
+export function dataPath(...segments: string[]): string {
+  // Resolved lazily so it picks up DATA_DIR after dotenv has loaded.
+  return path.join(path.resolve(process.env.DATA_DIR || "data"), ...segments);
+}
+
+/**
+ * Reads `<DATA_DIR>/<name>` as JSON, returning `fallback` if it doesn't exist yet.
+ */
+export async function readJson<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(dataPath(name), "utf8");
+    return JSON.parse(raw) as T;
+  } catch (err: any) {
+    if (err?.code === "ENOENT") return fallback;
+    throw err;
+  }
+}
+
+/**
+ * Reads every `<DATA_DIR>/<dir>/*.json`, for state kept one file per
+ * record so that an update rewrites only its own record. Empty if the
+ * directory doesn't exist yet.
+ */
+export async function readJsonDir<T>(dir: string): Promise<T[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(dataPath(dir));
+  } catch (err: any) {
+    if (err?.code === "ENOENT") return [];
+    throw err;
+  }
+  const values: T[] = [];
+  for (const name of names.filter((n) => n.endsWith(".json"))) {
+    values.push(JSON.parse(await fs.readFile(dataPath(dir, name), "utf8")) as T);
+  }
+  return values;
+}
+
+/** Deletes `<DATA_DIR>/<name>`; a missing file is not an error. */
+export async function removeJson(name: string): Promise<void> {
+  await fs.rm(dataPath(name), { force: true });
+}
+
+/**
+ * Writes JSON atomically (temp file + rename) so a crash mid-write
+ * never leaves a truncated state file behind.
+ */
+export async function writeJson(name: string, value: unknown): Promise<void> {
+  const target = dataPath(name);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const tmp = `${target}.${process.pid}.${tmpCounter++}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2));
+  await fs.rename(tmp, target);
+}
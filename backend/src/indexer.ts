@@ -0,0 +1,338 @@
+// src/indexer.ts
+import type { EventId } from "@mysten/sui.js/client";
+import { canonicalHost, isSameDomain, tryCanonicalizeUrl } from "./canonicalUrl";
+import { readJson, writeJson } from "./dataStore";
+import { ArchiveEncryption, CAPTURE_METHOD_CODES, getOnChainArchives, suiClient } from "./suiClient";
+import type { CaptureMethod } from "./archive";
+
+/**
+ * Follows the events of the registry module and keeps a local copy of
+ * every Archive object, so lookups no longer have to load the registry's
+ * whole all_archive_ids vector from the chain. ArchiveCreated adds an
+ * archive; create_archive_v2 follows it with ArchiveEncryption (the
+ * encryption metadata) and ArchiveCapture (capture method, original URL
+ * and MIME type).
+ */
+
+const INDEX_FILE = "archive-index.json";
+const POLL_MS = Number(process.env.INDEXER_POLL_MS || 10_000);
+// Also the multiGetObjects limit, so one event page is one object batch
+const PAGE_SIZE = 50;
+const MAX_QUERY_LIMIT = 100;
+
+export interface IndexedArchive {
+  id: string;
+  /** URL as written on-chain: canonical for new archives, as submitted for older ones. */
+  url: string;
+  canonicalUrl: string;
+  /**
+   * The URL as submitted, from ArchiveCapture. For archives created before
+   * it was recorded this is the on-chain url, which is only the original
+   * for archives that predate canonical URLs.
+   */
+  originalUrl: string;
+  title: string;
+  walrusBlobId: string;
+  tuskyFileId: string;
+  /** 0x-prefixed SHA-256 hex, as stored in content_hash. */
+  contentHash: string;
+  versionNumber: number;
+  previousArchiveId: string | null;
+  capturedAtMs: number;
+  capturedBy: string;
+  txDigest: string;
+  /** Null for archives created before encryption metadata was recorded on-chain. */
+  encryption: ArchiveEncryption | null;
+  /** Null for archives created before the capture method was recorded on-chain (all server captures). */
+  captureMethod: CaptureMethod | null;
+  /**
+   * Of the archived content: application/zip or application/wacz for a
+   * page, the served type for a PDF, image or other document. Null for
+   * archives created before it was recorded on-chain; readers sniff those.
+   */
+  mimeType: string | null;
+}
+
+interface IndexState {
+  /** Last event processed; the next poll resumes right after it. */
+  cursor: EventId | null;
+  archives: IndexedArchive[];
+}
+
+/** `exact` matches one page; `domain` matches every page on a host and its subdomains. */
+export type UrlMatchMode = "exact" | "domain";
+export const URL_MATCH_MODES: UrlMatchMode[] = ["exact", "domain"];
+
+export interface ArchiveQuery {
+  url?: string;
+  mode?: UrlMatchMode;
+  fromMs?: number;
+  toMs?: number;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ArchivePage {
+  /** Newest first. `version` counts the matches oldest → newest. */
+  archives: (IndexedArchive & { version: number })[];
+  total: number;
+  nextCursor: string | null;
+}
+
+let state: IndexState = { cursor: null, archives: [] };
+let byId = new Map<string, IndexedArchive>();
+let loaded = false;
+let polling = false;
+let timer: NodeJS.Timeout | null = null;
+let lastSyncAt: string | null = null;
+let lastError: string | null = null;
+
+async function loadIndex(): Promise<void> {
+  if (loaded) return;
+  state = await readJson<IndexState>(INDEX_FILE, { cursor: null, archives: [] });
+  byId = new Map(state.archives.map((a) => [a.id, a]));
+  loaded = true;
+}
+
+function canonicalOf(url: string): string {
+  return tryCanonicalizeUrl(url) ?? url;
+}
+
+/** Loads the Archive objects behind one page of events. */
+async function fetchArchives(events: { archiveId: string; txDigest: string }[]): Promise<IndexedArchive[]> {
+  const objects = await getOnChainArchives(events.map((e) => e.archiveId));
+
+  const archives: IndexedArchive[] = [];
+  objects.forEach((archive, i) => {
+    if (!archive) {
+      console.warn(`[INDEXER] Archive ${events[i].archiveId} not readable, skipping`);
+      return;
+    }
+    const { archiveId, ...fields } = archive;
+    archives.push({
+      ...fields,
+      id: archiveId,
+      canonicalUrl: canonicalOf(archive.url),
+      originalUrl: archive.url,
+      // The event's transaction is authoritative; previousTransaction may be missing
+      txDigest: events[i].txDigest,
+      encryption: null,
+      captureMethod: null,
+      mimeType: null,
+    });
+  });
+  return archives;
+}
+
+function parseEncryption(json: any): { archiveId: string; encryption: ArchiveEncryption } | null {
+  if (!json?.archive_id) return null;
+  const fingerprints: number[][] = Array.isArray(json.recipient_fingerprints) ? json.recipient_fingerprints : [];
+  return {
+    archiveId: json.archive_id,
+    encryption: {
+      isSealed: !!json.is_sealed,
+      envelopeVersion: Number(json.envelope_version ?? 0),
+      recipientFingerprints: fingerprints.map((bytes) => Buffer.from(bytes).toString("hex")),
+    },
+  };
+}
+
+function parseCapture(
+  json: any
+): { archiveId: string; captureMethod: CaptureMethod; originalUrl: string | null; mimeType: string | null } | null {
+  if (!json?.archive_id) return null;
+  const code = Number(json.capture_method);
+  const captureMethod = (Object.keys(CAPTURE_METHOD_CODES) as CaptureMethod[]).find((m) => CAPTURE_METHOD_CODES[m] === code);
+  if (!captureMethod) return null;
+  const originalUrl = typeof json.original_url === "string" && json.original_url ? json.original_url : null;
+  const mimeType = typeof json.mime_type === "string" && json.mime_type ? json.mime_type : null;
+  return { archiveId: json.archive_id, captureMethod, originalUrl, mimeType };
+}
+
+/**
+ * Reads every event after the saved cursor. The cursor is persisted after
+ * each page, so a restart picks up where the last page left off.
+ */
+async function poll(packageId: string) {
+  if (polling) return;
+  polling = true;
+  let added = 0;
+  try {
+    for (;;) {
+      const page = await suiClient.queryEvents({
+        query: { MoveEventModule: { package: packageId, module: "registry" } },
+        cursor: state.cursor,
+        limit: PAGE_SIZE,
+        order: "ascending",
+      });
+
+      const events = page.data
+        .filter((ev) => ev.type.endsWith("::registry::ArchiveCreated"))
+        .map((ev) => ({ archiveId: (ev.parsedJson as any)?.archive_id as string, txDigest: ev.id.txDigest }))
+        .filter((e) => e.archiveId && !byId.has(e.archiveId));
+
+      if (events.length > 0) {
+        for (const archive of await fetchArchives(events)) {
+          state.archives.push(archive);
+          byId.set(archive.id, archive);
+          added++;
+        }
+      }
+
+      // Emitted after ArchiveCreated in the same transaction, so the archive
+      // is already indexed, even when the two land on different pages
+      for (const ev of page.data) {
+        if (ev.type.endsWith("::registry::ArchiveEncryption")) {
+          const parsed = parseEncryption(ev.parsedJson);
+          const archive = parsed && byId.get(parsed.archiveId);
+          if (archive) archive.encryption = parsed.encryption;
+        } else if (ev.type.endsWith("::registry::ArchiveCapture")) {
+          const parsed = parseCapture(ev.parsedJson);
+          const archive = parsed && byId.get(parsed.archiveId);
+          if (archive) {
+            archive.captureMethod = parsed.captureMethod;
+            if (parsed.originalUrl) archive.originalUrl = parsed.originalUrl;
+            archive.mimeType = parsed.mimeType;
+          }
+        }
+      }
+
+      if (page.data.length > 0) {
+        state.cursor = page.nextCursor ?? page.data[page.data.length - 1].id;
+        await writeJson(INDEX_FILE, state);
+      }
+      if (!page.hasNextPage) break;
+    }
+    lastSyncAt = new Date().toISOString();
+    lastError = null;
+    if (added > 0) console.log(`[INDEXER] ✅ Indexed ${added} new archives (${state.archives.length} total)`);
+  } catch (err: any) {
+    lastError = err?.message ?? "Unknown error";
+    console.error("[INDEXER] ❌ Poll failed:", lastError);
+  } finally {
+    polling = false;
+  }
+}
+
+export async function startIndexer(): Promise<void> {
+  await loadIndex();
+  const packageId = process.env.SUI_PACKAGE_ID;
+  if (!packageId) {
+    console.warn("[INDEXER] SUI_PACKAGE_ID missing. Archive index will not be updated.");
+    return;
+  }
+  if (timer) return;
+  timer = setInterval(() => void poll(packageId), POLL_MS);
+  console.log(`[INDEXER] Started (${state.archives.length} archives indexed)`);
+  void poll(packageId);
+}
+
+export function indexerStatus() {
+  return {
+    archives: state.archives.length,
+    cursor: state.cursor,
+    lastSyncAt,
+    lastError,
+  };
+}
+
+export function getIndexedArchive(id: string): IndexedArchive | undefined {
+  return byId.get(id);
+}
+
+/**
+ * The archive and the earlier versions it links to through
+ * previous_archive_id, newest first. `complete` is false when a link
+ * points at an archive that isn't indexed (yet). Null if `id` isn't indexed.
+ */
+export function archiveChain(id: string): { archives: IndexedArchive[]; complete: boolean } | null {
+  const archives: IndexedArchive[] = [];
+  let next: string | null = id;
+  while (next) {
+    const archive = byId.get(next);
+    if (!archive) break;
+    archives.push(archive);
+    next = archive.previousArchiveId;
+    // Archives are frozen, so a cycle means a corrupt index entry
+    if (archives.some((a) => a.id === next)) break;
+  }
+  if (archives.length === 0) return null;
+  return { archives, complete: next === null };
+}
+
+/**
+ * Builds the URL filter. Returns null when `url` can't be canonicalized
+ * (or, in domain mode, doesn't contain a host).
+ */
+export function urlMatcher(url: string, mode: UrlMatchMode): ((a: IndexedArchive) => boolean) | null {
+  if (mode === "domain") {
+    const domain = canonicalHost(url);
+    if (!domain) return null;
+    return (a) => {
+      const host = canonicalHost(a.canonicalUrl);
+      return host !== null && isSameDomain(host, domain);
+    };
+  }
+  const canonical = tryCanonicalizeUrl(url);
+  if (!canonical) return null;
+  return (a) => a.canonicalUrl === canonical;
+}
+
+interface PageCursor {
+  capturedAtMs: number;
+  id: string;
+}
+
+function encodeCursor(archive: IndexedArchive): string {
+  const cursor: PageCursor = { capturedAtMs: archive.capturedAtMs, id: archive.id };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): PageCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    return typeof parsed?.capturedAtMs === "number" && typeof parsed?.id === "string" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Newest first; ties broken by object id so the order (and cursors) are stable. */
+function newestFirst(a: IndexedArchive, b: IndexedArchive): number {
+  return b.capturedAtMs - a.capturedAtMs || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+}
+
+/**
+ * Filters and pages the index. The cursor is the position of the last
+ * archive returned, so archives indexed between requests don't shift pages.
+ */
+export function queryArchives(query: ArchiveQuery): ArchivePage {
+  const limit = Math.min(Math.max(query.limit ?? PAGE_SIZE, 1), MAX_QUERY_LIMIT);
+  const matchesUrl = query.url ? urlMatcher(query.url, query.mode ?? "exact") : null;
+
+  const matches = state.archives
+    .filter((a) => !query.url || (matchesUrl !== null && matchesUrl(a)))
+    .filter((a) => query.fromMs === undefined || a.capturedAtMs >= query.fromMs)
+    .filter((a) => query.toMs === undefined || a.capturedAtMs <= query.toMs)
+    .sort(newestFirst);
+
+  let start = 0;
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  if (after) {
+    const anchor = { capturedAtMs: after.capturedAtMs, id: after.id } as IndexedArchive;
+    start = matches.findIndex((a) => newestFirst(anchor, a) < 0);
+    if (start < 0) start = matches.length;
+  }
+
+  const archives = matches.slice(start, start + limit).map((a, i) => ({
+    ...a,
+    version: matches.length - (start + i),
+  }));
+  const hasMore = start + limit < matches.length;
+
+  return {
+    archives,
+    total: matches.length,
+    nextCursor: hasMore && archives.length > 0 ? encodeCursor(archives[archives.length - 1]) : null,
+  };
+}
@@ -0,0 +1,660 @@
+// src/jobs.ts
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import { promises as fs } from "fs";
+import { dataPath, readJsonDir, removeJson, writeJson } from "./dataStore";
+import { ArchiveEncryption, createOnChainArchive, findOnChainArchive } from "./suiClient";
+import {
+  ArchiveRequest,
+  ArchiveResult,
+  CaptureMethod,
+  FORMAT_MIME_TYPES,
+  PageCapture,
+  capturePage,
+  packageArchive,
+  sealBuffer,
+  sha256Hex,
+} from "./archive";
+import { resolveCaptureConfig } from "./captureProfiles";
+import { ResourceCapture, fetchResource, isPageUrl, packageResource } from "./resource";
+import { getStorage } from "./storage";
+import { resolveRegistry } from "./registries";
+import { canonicalizeUrl } from "./canonicalUrl";
+import { ENVELOPE_VERSION, EnvelopeInfo, keyFingerprint } from "../../shared/envelope";
+
+/**
+ * Asynchronous archive jobs. Each job walks the pipeline stage by stage,
+ * writing every stage's output to DATA_DIR/jobs/<id>/ so a failed job can
+ * be retried from the stage that failed (e.g. re-run only the Sui write)
+ * and interrupted jobs resume after a restart. Each job's state is its
+ * own DATA_DIR/jobs/<id>.json, so an update rewrites only that job.
+ *
+ * Jobs with recipients never write their plaintext: the capture and the
+ * unsealed zip stay in memory until the seal stage, and only sealed.bin
+ * reaches the disk. If they're lost first (a failure or a restart before
+ * sealing), the job starts over from the capture.
+ */
+
+const JOBS_DIR = "jobs";
+const JOB_CONCURRENCY = Math.max(1, Number(process.env.JOB_CONCURRENCY || 2));
+// Finished jobs are only kept for their status page; watches and crawls copy what they need
+const JOB_RETENTION_DAYS = Number(process.env.JOB_RETENTION_DAYS || 7);
+const MAX_FINISHED_JOBS = Number(process.env.MAX_FINISHED_JOBS || 1000);
+const PRUNE_INTERVAL_MS = 60 * 60_000;
+const UNSEALED_SNAPSHOT_LOST = "The snapshot was only kept in memory until sealed and is gone";
+
+export const STAGES = ["capture", "zip", "seal", "hash", "upload", "sui"] as const;
+export type StageName = (typeof STAGES)[number];
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+export type StageStatus = "pending" | "running" | "done" | "skipped" | "failed";
+
+export interface StageRecord {
+  name: StageName;
+  status: StageStatus;
+  startedAt: string | null;
+  finishedAt: string | null;
+  durationMs: number | null;
+  error: string | null;
+}
+
+export interface JobOptions {
+  /** Finish as "unchanged" right after capture if the text hash equals this. */
+  skipIfTextHashHex?: string | null;
+  /** Keep the captured page's links in outputs.links (crawls). */
+  collectLinks?: boolean;
+  /** Archive under the captured page's <title> when it has one; request.title is the fallback (crawls). */
+  usePageTitle?: boolean;
+}
+
+/** Small values produced by stages; large artifacts live on disk. */
+export interface JobOutputs {
+  textHashHex?: string;
+  /** Links found on the page, when the job was created with collectLinks; dropped once read (see dropJobLinks). */
+  links?: string[];
+  /** The page's <title>, when the job was created with usePageTitle. */
+  pageTitle?: string;
+  /** Served type of a document captured without the browser; unset for page captures. */
+  mimeType?: string;
+  isEncrypted?: boolean;
+  /** SHA-256 fingerprints of the recipients' SPKI keys, in envelope order. */
+  recipientFingerprints?: string[];
+  /** Sealed-envelope format version of sealed.bin. */
+  envelopeVersion?: number;
+  contentHashHex?: string;
+  size?: number;
+  walrusBlobId?: string;
+  storageProvider?: string;
+  suiTxDigest?: string | null;
+  suiArchiveId?: string | null;
+  suiRegistryId?: string | null;
+}
+
+export interface ArchiveJob {
+  id: string;
+  status: JobStatus;
+  outcome: "archived" | "unchanged" | null;
+  request: ArchiveRequest;
+  options: JobOptions;
+  currentStage: StageName | null;
+  stages: StageRecord[];
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  error: string | null;
+  outputs: JobOutputs;
+  result: ArchiveResult | null;
+}
+
+const jobs = new Map<string, ArchiveJob>();
+// Artifacts of jobs with recipients that come before sealed.bin, by job id
+const plaintext = new Map<string, Map<string, Buffer>>();
+const queue: string[] = [];
+let running = 0;
+let pruneTimer: NodeJS.Timeout | null = null;
+
+/** Emits `update` with the job after every state change. */
+export const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+// --- Persistence ---
+
+async function persist(job: ArchiveJob) {
+  await writeJson(`${JOBS_DIR}/${job.id}.json`, job);
+}
+
+function artifactPath(jobId: string, name: string): string {
+  return dataPath("jobs", jobId, name);
+}
+
+function isSealedJob(job: ArchiveJob): boolean {
+  return (job.request.recipientPublicKeys ?? []).length > 0;
+}
+
+async function writeArtifact(job: ArchiveJob, name: string, data: Uint8Array | string) {
+  if (isSealedJob(job) && name !== "sealed.bin") {
+    if (!plaintext.has(job.id)) plaintext.set(job.id, new Map());
+    plaintext.get(job.id)!.set(name, Buffer.from(data));
+    return;
+  }
+  await fs.mkdir(dataPath("jobs", job.id), { recursive: true });
+  await fs.writeFile(artifactPath(job.id, name), data);
+}
+
+async function readArtifact(job: ArchiveJob, name: string): Promise<Buffer> {
+  if (isSealedJob(job) && name !== "sealed.bin") {
+    const data = plaintext.get(job.id)?.get(name);
+    if (!data) throw new Error(`${name} is no longer in memory`);
+    return data;
+  }
+  return fs.readFile(artifactPath(job.id, name));
+}
+
+/**
+ * Readies a job with recipients whose plaintext is gone to run again:
+ * the stages before the seal go back to pending, while a sealed job
+ * keeps sealed.bin and carries on after it. False when that can't work
+ * because the capture was submitted (a snapshot) and can't be redone.
+ */
+function rewindUnsealed(job: ArchiveJob): boolean {
+  if (!isSealedJob(job) || plaintext.has(job.id)) return true;
+  const stage = (name: StageName) => job.stages.find((record) => record.name === name)!;
+  if (stage("seal").status === "done") return true;
+  if (stage("capture").status === "skipped") return false;
+
+  for (const record of job.stages) {
+    if (record.name !== "capture" && record.name !== "zip" && record.name !== "seal") continue;
+    Object.assign(record, { status: "pending", startedAt: null, finishedAt: null, durationMs: null, error: null });
+  }
+  return true;
+}
+
+/**
+ * Captures are stored as JSON; byte fields are base64-tagged so they
+ * round-trip as Buffers.
+ */
+function encodeCapture(capture: PageCapture): string {
+  return JSON.stringify(capture, function (this: any, key, value) {
+    const raw = this[key];
+    return raw instanceof Uint8Array ? { $bytes: Buffer.from(raw).toString("base64") } : value;
+  });
+}
+
+function decodeCapture(json: string): PageCapture {
+  return JSON.parse(json, (_key, value) =>
+    value && typeof value === "object" && typeof value.$bytes === "string"
+      ? Buffer.from(value.$bytes, "base64")
+      : value
+  );
+}
+
+async function update(job: ArchiveJob) {
+  job.updatedAt = new Date().toISOString();
+  await persist(job);
+  jobEvents.emit("update", job);
+}
+
+// --- Stages ---
+
+async function finalBuffer(job: ArchiveJob): Promise<Buffer> {
+  return readArtifact(job, job.outputs.isEncrypted ? "sealed.bin" : "archive.zip");
+}
+
+/**
+ * Runs one stage. Returns "skipped" when the stage had nothing to do,
+ * or "unchanged" when the job should stop early (watchlist captures).
+ */
+async function runStage(job: ArchiveJob, name: StageName): Promise<"done" | "skipped" | "unchanged"> {
+  const { url } = job.request;
+  const recipients = job.request.recipientPublicKeys ?? [];
+
+  switch (name) {
+    case "capture": {
+      // Network traffic feeds both the WACZ records and the zip's offline assets
+      const config = resolveCaptureConfig(job.request.captureOptions, { recordNetwork: true });
+      let textHashHex: string;
+      // PDFs, images and JSON are kept as served; only HTML goes through the browser
+      const resource = await isPageUrl(url, config)
+        .then((isPage) => (isPage ? null : fetchResource(url, config)))
+        .catch((err: any) => {
+          console.warn(`[CAPTURE] Direct request to ${url} failed, capturing in the browser:`, err?.message);
+          return null;
+        });
+      if (resource) {
+        const { body, ...metadata } = resource;
+        await writeArtifact(job, "resource.bin", body);
+        await writeArtifact(job, "capture.json", JSON.stringify(metadata));
+        job.outputs.mimeType = resource.mimeType;
+        textHashHex = resource.textHashHex;
+        if (job.options.collectLinks) job.outputs.links = [];
+        console.log(`[CAPTURE] ✅ ${url} is ${resource.mimeType} (${body.length} bytes), archived as served`);
+      } else {
+        delete job.outputs.mimeType;
+        const capture = await capturePage(url, config);
+        await writeArtifact(job, "capture.json", encodeCapture(capture));
+        textHashHex = capture.textHashHex;
+        if (job.options.collectLinks) job.outputs.links = capture.links ?? [];
+        const pageTitle = capture.title?.replace(/\s+/g, " ").trim();
+        if (job.options.usePageTitle && pageTitle) job.outputs.pageTitle = pageTitle;
+      }
+      job.outputs.textHashHex = textHashHex;
+      if (job.options.skipIfTextHashHex && job.options.skipIfTextHashHex === textHashHex) {
+        return "unchanged";
+      }
+      return "done";
+    }
+
+    case "zip": {
+      const finished = job.stages
+        .filter((s) => s.status === "done")
+        .map(({ name, startedAt, finishedAt, durationMs }) => ({ name, startedAt, finishedAt, durationMs }));
+      if (job.outputs.mimeType) {
+        const metadata: Omit<ResourceCapture, "body"> = JSON.parse((await readArtifact(job, "capture.json")).toString("utf8"));
+        const resource: ResourceCapture = { ...metadata, body: await readArtifact(job, "resource.bin") };
+        await writeArtifact(job, "archive.zip", await packageResource(resource, job.request, finished));
+        return "done";
+      }
+      const capture = decodeCapture((await readArtifact(job, "capture.json")).toString("utf8"));
+      await writeArtifact(job, "archive.zip", await packageArchive(capture, { ...job.request, title: titleOf(job) }, finished));
+      return "done";
+    }
+
+    case "seal": {
+      if (recipients.length === 0) {
+        job.outputs.isEncrypted = false;
+        return "skipped";
+      }
+      try {
+        const sealed = await sealBuffer(await readArtifact(job, "archive.zip"), recipients);
+        await writeArtifact(job, "sealed.bin", sealed);
+        plaintext.delete(job.id);
+        job.outputs.isEncrypted = true;
+        job.outputs.envelopeVersion = ENVELOPE_VERSION;
+        job.outputs.recipientFingerprints = await Promise.all(recipients.map(keyFingerprint));
+        console.log(`[ENCRYPT] ✅ Archive sealed for ${recipients.length} recipient(s)`);
+        return "done";
+      } catch (e: any) {
+        console.error("[ENCRYPT] ❌ Failed:", e.message);
+        throw new Error(`Encryption failed: ${e.message}`);
+      }
+    }
+
+    case "hash": {
+      const buffer = await finalBuffer(job);
+      job.outputs.contentHashHex = sha256Hex(buffer);
+      job.outputs.size = buffer.length;
+      return "done";
+    }
+
+    case "upload": {
+      const storage = getStorage();
+      const { blobId } = await storage.put(await finalBuffer(job));
+      job.outputs.walrusBlobId = blobId;
+      job.outputs.storageProvider = storage.name;
+      return "done";
+    }
+
+    case "sui": {
+      if (!process.env.SUI_PACKAGE_ID) {
+        job.outputs.suiTxDigest = null;
+        job.outputs.suiArchiveId = null;
+        job.outputs.suiRegistryId = null;
+        return "skipped";
+      }
+      // Sent by an earlier attempt that didn't see it confirmed: look it up instead of archiving twice
+      if (job.outputs.suiTxDigest) {
+        const sent = await findOnChainArchive(job.outputs.suiTxDigest);
+        if (sent) {
+          job.outputs.suiArchiveId = sent.archiveId;
+          console.log(`✅ Sui tx ${sent.digest} from an earlier attempt succeeded, ArchiveID=${sent.archiveId}`);
+          return "done";
+        }
+      }
+      const canonicalUrl = job.request.canonicalUrl!;
+      const { registryId } = await resolveRegistry(canonicalUrl);
+      job.outputs.suiRegistryId = registryId;
+      console.log(`Creating on-chain archive on Sui (registry ${registryId})...`);
+      // Saved as soon as the transaction is sent, for the lookup above
+      const recordDigest = async (digest: string) => {
+        job.outputs.suiTxDigest = digest;
+        await update(job);
+      };
+      const suiResult = await createOnChainArchive({
+        url: canonicalUrl,
+        originalUrl: url,
+        registryId,
+        walrusBlobId: job.outputs.walrusBlobId!,
+        tuskyFileId: "direct-upload",
+        contentHashHex: job.outputs.contentHashHex!,
+        title: titleOf(job),
+        encryption: encryptionOf(job),
+        captureMethod: captureMethodOf(job),
+        mimeType: mimeTypeOf(job),
+      }, recordDigest);
+      job.outputs.suiTxDigest = suiResult.digest;
+      job.outputs.suiArchiveId = suiResult.archiveId ?? null;
+      console.log(`✅ Sui tx success. Digest=${suiResult.digest}, ArchiveID=${suiResult.archiveId}`);
+      return "done";
+    }
+  }
+}
+
+/** Recorded on-chain with the archive. */
+function encryptionOf(job: ArchiveJob): ArchiveEncryption {
+  const { isEncrypted, envelopeVersion, recipientFingerprints } = job.outputs;
+  if (!isEncrypted) return { isSealed: false, envelopeVersion: 0, recipientFingerprints: [] };
+  return { isSealed: true, envelopeVersion: envelopeVersion!, recipientFingerprints: recipientFingerprints! };
+}
+
+/** Client-sealed uploads were captured in the browser too. */
+function captureMethodOf(job: ArchiveJob): CaptureMethod {
+  return job.request.captureMethod ?? (job.request.clientSealed ? "client" : "server");
+}
+
+function titleOf(job: ArchiveJob): string {
+  return job.outputs.pageTitle ?? job.request.title;
+}
+
+/** Of the archived content: the served type of a document, otherwise the format's. */
+function mimeTypeOf(job: ArchiveJob): string {
+  return job.outputs.mimeType ?? FORMAT_MIME_TYPES[job.request.format ?? "zip"];
+}
+
+function buildResult(job: ArchiveJob): ArchiveResult {
+  const { outputs } = job;
+  return {
+    url: job.request.url,
+    canonicalUrl: job.request.canonicalUrl!,
+    title: titleOf(job),
+    tuskyFileId: "direct-upload",
+    walrusBlobId: outputs.walrusBlobId!,
+    mimeType: mimeTypeOf(job),
+    size: outputs.size!,
+    status: "active",
+    contentHashHex: outputs.contentHashHex!,
+    suiTxDigest: outputs.suiTxDigest ?? null,
+    suiArchiveId: outputs.suiArchiveId ?? null,
+    suiRegistryId: outputs.suiRegistryId ?? null,
+    isEncrypted: !!outputs.isEncrypted,
+    recipientFingerprints: outputs.recipientFingerprints ?? [],
+    encryption: encryptionOf(job),
+    clientSealed: !!job.request.clientSealed,
+    captureMethod: captureMethodOf(job),
+    captureProfile: captureMethodOf(job) === "client" ? null : job.request.captureOptions?.profile ?? "desktop",
+    storageProvider: outputs.storageProvider ?? "walrus",
+  };
+}
+
+// --- Runner ---
+
+async function execute(job: ArchiveJob) {
+  job.status = "running";
+  job.attempts += 1;
+  job.error = null;
+  await update(job);
+
+  for (const record of job.stages) {
+    if (record.status === "done" || record.status === "skipped") continue;
+
+    const startedAt = Date.now();
+    job.currentStage = record.name;
+    record.status = "running";
+    record.startedAt = new Date(startedAt).toISOString();
+    record.finishedAt = null;
+    record.durationMs = null;
+    record.error = null;
+    await update(job);
+
+    try {
+      const outcome = await runStage(job, record.name);
+      record.status = outcome === "skipped" ? "skipped" : "done";
+      record.finishedAt = new Date().toISOString();
+      record.durationMs = Date.now() - startedAt;
+
+      if (outcome === "unchanged") {
+        for (const rest of job.stages) {
+          if (rest.status === "pending") rest.status = "skipped";
+        }
+        job.outcome = "unchanged";
+        break;
+      }
+      await update(job);
+    } catch (err: any) {
+      record.status = "failed";
+      record.finishedAt = new Date().toISOString();
+      record.durationMs = Date.now() - startedAt;
+      record.error = err?.message ?? "Unknown error";
+      job.status = "failed";
+      job.error = `${record.name}: ${record.error}`;
+      plaintext.delete(job.id);
+      console.error(`[JOB ${job.id}] ❌ ${job.error}`);
+      await update(job);
+      return;
+    }
+  }
+
+  job.currentStage = null;
+  job.status = "succeeded";
+  if (job.outcome !== "unchanged") {
+    job.outcome = "archived";
+    job.result = buildResult(job);
+  }
+  await update(job);
+
+  // Artifacts are only needed for retries
+  plaintext.delete(job.id);
+  await fs.rm(dataPath("jobs", job.id), { recursive: true, force: true });
+}
+
+function pump() {
+  while (running < JOB_CONCURRENCY && queue.length > 0) {
+    const job = jobs.get(queue.shift()!);
+    if (!job) continue;
+
+    running++;
+    execute(job)
+      .catch((err) => console.error(`[JOB ${job.id}] Runner error:`, err?.message))
+      .finally(() => {
+        running--;
+        pump();
+      });
+  }
+}
+
+/**
+ * Deletes finished jobs older than JOB_RETENTION_DAYS, and the oldest
+ * ones past MAX_FINISHED_JOBS, with their files.
+ */
+async function pruneJobs() {
+  const cutoff = Date.now() - JOB_RETENTION_DAYS * 24 * 60 * 60_000;
+  // In creation order (see loadJobs), so the oldest come first
+  const finished = Array.from(jobs.values()).filter(isFinished);
+  const excess = finished.length - MAX_FINISHED_JOBS;
+  const expired = finished.filter((job, i) => i < excess || Date.parse(job.updatedAt) < cutoff);
+
+  for (const job of expired) {
+    jobs.delete(job.id);
+    await removeJson(`${JOBS_DIR}/${job.id}.json`);
+    await fs.rm(dataPath("jobs", job.id), { recursive: true, force: true });
+  }
+  if (expired.length > 0) console.log(`[JOBS] Deleted ${expired.length} finished job(s)`);
+}
+
+// --- Public API ---
+
+export async function loadJobs(): Promise<void> {
+  const saved = (await readJsonDir<ArchiveJob>(JOBS_DIR)).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  // Resume anything the previous process didn't finish
+  for (const job of saved) {
+    if (jobs.has(job.id)) continue;
+    jobs.set(job.id, job);
+
+    if (job.status === "queued" || job.status === "running") {
+      for (const record of job.stages) {
+        if (record.status === "running") record.status = "pending";
+      }
+      if (!rewindUnsealed(job)) {
+        job.status = "failed";
+        job.error = `${UNSEALED_SNAPSHOT_LOST}; submit it again`;
+        await update(job);
+        continue;
+      }
+      job.status = "queued";
+      queue.push(job.id);
+    }
+  }
+  if (queue.length > 0) console.log(`[JOBS] Resuming ${queue.length} unfinished job(s)`);
+  pump();
+
+  await pruneJobs();
+  if (!pruneTimer) {
+    pruneTimer = setInterval(() => {
+      pruneJobs().catch((err) => console.error("[JOBS] Pruning failed:", err?.message));
+    }, PRUNE_INTERVAL_MS);
+  }
+}
+
+export function getJob(id: string): ArchiveJob | undefined {
+  return jobs.get(id);
+}
+
+function newJob(request: ArchiveRequest, options: JobOptions): ArchiveJob {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    status: "queued",
+    outcome: null,
+    request: { ...request, canonicalUrl: canonicalizeUrl(request.url) },
+    options,
+    currentStage: null,
+    stages: STAGES.map((name) => ({
+      name,
+      status: "pending",
+      startedAt: null,
+      finishedAt: null,
+      durationMs: null,
+      error: null,
+    })),
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+    error: null,
+    outputs: {},
+    result: null,
+  };
+}
+
+async function enqueue(job: ArchiveJob): Promise<ArchiveJob> {
+  jobs.set(job.id, job);
+  await update(job);
+
+  queue.push(job.id);
+  pump();
+  return job;
+}
+
+export async function createArchiveJob(
+  request: ArchiveRequest,
+  options: JobOptions = {}
+): Promise<ArchiveJob> {
+  return enqueue(newJob(request, options));
+}
+
+/**
+ * Job for a blob the client already captured and sealed. The backend never
+ * sees the plaintext: capture, zip and seal are skipped and the job starts
+ * at the hash stage with the envelope as its only artifact.
+ */
+export async function createSealedUploadJob(
+  request: ArchiveRequest,
+  sealed: Buffer,
+  envelope: EnvelopeInfo
+): Promise<ArchiveJob> {
+  const job = newJob({ ...request, clientSealed: true }, {});
+  for (const record of job.stages) {
+    if (record.name === "capture" || record.name === "zip" || record.name === "seal") record.status = "skipped";
+  }
+  job.outputs.isEncrypted = true;
+  job.outputs.envelopeVersion = envelope.version;
+  job.outputs.recipientFingerprints = envelope.recipients;
+
+  await writeArtifact(job, "sealed.bin", sealed);
+  return enqueue(job);
+}
+
+/**
+ * Job for a snapshot taken in the user's own tab (snapshot.ts). The
+ * capture stage is skipped; the pipeline starts at zip with the
+ * submitted capture as its artifact.
+ */
+export async function createSnapshotJob(request: ArchiveRequest, capture: PageCapture): Promise<ArchiveJob> {
+  const job = newJob({ ...request, captureMethod: "client" }, {});
+  const captureStage = job.stages.find((record) => record.name === "capture")!;
+  captureStage.status = "skipped";
+  job.outputs.textHashHex = capture.textHashHex;
+
+  await writeArtifact(job, "capture.json", encodeCapture(capture));
+  return enqueue(job);
+}
+
+/**
+ * Re-queues a failed job. Stages that already finished keep their
+ * outputs, so it picks up at the stage that failed.
+ */
+export async function retryJob(id: string): Promise<ArchiveJob> {
+  const job = jobs.get(id);
+  if (!job) throw new Error("Job not found");
+  if (job.status !== "failed") throw new Error(`Only failed jobs can be retried (status: ${job.status})`);
+  if (!rewindUnsealed(job)) throw new Error(`${UNSEALED_SNAPSHOT_LOST}; submit it again instead`);
+
+  for (const record of job.stages) {
+    if (record.status === "failed") record.status = "pending";
+  }
+  job.status = "queued";
+  job.error = null;
+  await update(job);
+
+  queue.push(job.id);
+  pump();
+  return job;
+}
+
+/** Frees the links a crawl has read from outputs.links and saved itself. */
+export async function dropJobLinks(id: string): Promise<void> {
+  const job = jobs.get(id);
+  if (!job?.outputs.links) return;
+  delete job.outputs.links;
+  await update(job);
+}
+
+export function isFinished(job: ArchiveJob): boolean {
+  return job.status === "succeeded" || job.status === "failed";
+}
+
+/**
+ * Resolves once the job has succeeded or failed, or after `timeoutMs`
+ * (if given) with the job as it is then; check isFinished.
+ */
+export function waitForJob(id: string, timeoutMs?: number): Promise<ArchiveJob> {
+  return new Promise((resolve, reject) => {
+    const job = jobs.get(id);
+    if (!job) return reject(new Error("Job not found"));
+    if (isFinished(job)) return resolve(job);
+
+    let timer: NodeJS.Timeout | undefined;
+    const onUpdate = (updated: ArchiveJob) => {
+      if (updated.id !== id || !isFinished(updated)) return;
+      jobEvents.off("update", onUpdate);
+      clearTimeout(timer);
+      resolve(updated);
+    };
+    jobEvents.on("update", onUpdate);
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(() => {
+        jobEvents.off("update", onUpdate);
+        resolve(jobs.get(id) ?? job);
+      }, timeoutMs);
+    }
+  });
+}
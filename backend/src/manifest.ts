@@ -0,0 +1,157 @@
+// src/manifest.ts
+import type JSZip from "jszip";
+import type { ArchiveRequest, CaptureMethod, CaptureTimings, ClientCaptureInfo, MainResponse, PageCapture } from "./archive";
+import type { CaptureConfig } from "./captureProfiles";
+import type { ResourceCapture } from "./resource";
+
+/**
+ * manifest.json: what the server saw when it captured the page. The
+ * status code, redirect chain, server address and TLS certificate show
+ * whether a capture is the real page rather than an error page, a block
+ * or a geo-redirect. The manifest is one of the files the attestation
+ * covers, so its contents are signed too. For a client capture it says
+ * so, and records what the submitting browser reported instead. For a
+ * PDF, image or other document it names the file holding the bytes as
+ * served, and their type.
+ */
+
+export const MANIFEST_FILE = "manifest.json";
+
+/** A pipeline stage that finished before the archive was packaged. */
+export interface StageTiming {
+  name: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  durationMs: number | null;
+}
+
+export interface CaptureManifest {
+  type: "archivechain-capture-manifest";
+  version: 1;
+  url: string;
+  canonicalUrl: string | null;
+  finalUrl: string | null;
+  baseUrl: string | null;
+  capturedAt: string;
+  /**
+   * "client": captured in the user's own browser and submitted to the
+   * backend, which never loaded the page. Response, browser setup and
+   * timings are then unknown.
+   */
+  captureMethod: CaptureMethod;
+  /** What the submitting browser reported about itself; null for server captures. */
+  client: ClientCaptureInfo | null;
+  /** Null when the navigation produced no response or the capture predates manifests. */
+  response: MainResponse | null;
+  browser: {
+    version: string | null;
+    userAgent: string | null;
+    config: CaptureConfig | null;
+  };
+  timings: {
+    capture: CaptureTimings | null;
+    /** Stages finished before packaging; seal, upload and the Sui write come after and are only in the job record. */
+    stages: StageTiming[];
+  };
+  network: {
+    recorded: boolean;
+    exchanges: number;
+  };
+  /** Clicks and scrolling done before the snapshot; they change what the page shows. */
+  interactions: PageCapture["interactions"] | null;
+  /**
+   * Set when the archive holds a document fetched without the browser
+   * instead of a page.
+   */
+  resource: ResourceEntry | null;
+}
+
+export interface ResourceEntry {
+  /** Archive path of the bytes as served, e.g. "resource.pdf". */
+  file: string;
+  mimeType: string;
+  bytes: number;
+  fetchMs: number;
+}
+
+export function buildManifest(capture: PageCapture, request: ArchiveRequest, stages: StageTiming[] = []): CaptureManifest {
+  return {
+    type: "archivechain-capture-manifest",
+    version: 1,
+    url: capture.url,
+    canonicalUrl: request.canonicalUrl ?? null,
+    finalUrl: capture.finalUrl ?? null,
+    baseUrl: capture.baseUrl ?? null,
+    capturedAt: capture.capturedAt,
+    captureMethod: capture.captureMethod ?? "server",
+    client: capture.client ?? null,
+    response: capture.mainResponse ?? null,
+    browser: {
+      version: capture.browserVersion ?? null,
+      userAgent: capture.userAgent ?? null,
+      config: capture.config ?? null,
+    },
+    timings: {
+      capture: capture.timings ?? null,
+      stages,
+    },
+    network: {
+      recorded: capture.exchanges !== undefined,
+      exchanges: capture.exchanges?.length ?? 0,
+    },
+    interactions: capture.interactions ?? null,
+    resource: null,
+  };
+}
+
+export function buildResourceManifest(
+  resource: ResourceCapture,
+  file: string,
+  request: ArchiveRequest,
+  stages: StageTiming[] = []
+): CaptureManifest {
+  return {
+    type: "archivechain-capture-manifest",
+    version: 1,
+    url: resource.url,
+    canonicalUrl: request.canonicalUrl ?? null,
+    finalUrl: resource.finalUrl,
+    baseUrl: null,
+    capturedAt: resource.capturedAt,
+    captureMethod: "server",
+    client: null,
+    response: resource.mainResponse,
+    browser: {
+      version: null,
+      userAgent: resource.userAgent ?? null,
+      config: resource.config,
+    },
+    timings: {
+      capture: null,
+      stages,
+    },
+    network: {
+      recorded: false,
+      exchanges: 0,
+    },
+    interactions: null,
+    resource: {
+      file,
+      mimeType: resource.mimeType,
+      bytes: resource.body.length,
+      fetchMs: resource.fetchMs,
+    },
+  };
+}
+
+/** The archive's manifest, or null for archives packaged before manifests existed. */
+export async function readManifest(zip: JSZip): Promise<CaptureManifest | null> {
+  const text = await zip.file(MANIFEST_FILE)?.async("string");
+  if (!text) return null;
+  try {
+    const manifest = JSON.parse(text) as CaptureManifest;
+    return manifest.type === "archivechain-capture-manifest" ? manifest : null;
+  } catch {
+    return null;
+  }
+}
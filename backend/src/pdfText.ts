@@ -0,0 +1,22 @@
+// src/pdfText.ts
+import path from "path";
+import type { PdfDocument } from "../../shared/resource";
+
+/**
+ * pdf.js for the backend's PDF text extraction (shared/resource.ts).
+ * pdfjs-dist is an ES module; it is loaded on first use, since most
+ * captures are HTML pages and never need it.
+ */
+
+// Metrics of the 14 standard fonts, which PDFs may use without embedding them
+const STANDARD_FONT_DATA_URL = path.join(path.dirname(require.resolve("pdfjs-dist/package.json")), "standard_fonts") + path.sep;
+
+export async function loadPdf(data: Uint8Array): Promise<PdfDocument> {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  return pdfjs.getDocument({
+    data,
+    isEvalSupported: false,
+    standardFontDataUrl: STANDARD_FONT_DATA_URL,
+    verbosity: pdfjs.VerbosityLevel.ERRORS,
+  }).promise;
+}
@@ -0,0 +1,116 @@
+// src/recipients.ts
+import { readJson, writeJson } from "./dataStore";
+import { keyFingerprint } from "../../shared/envelope";
+
+/**
+ * Directory of recipient public keys, so a source can pick a journalist by
+ * name or fingerprint instead of pasting a raw key. Entries are only added
+ * with a signed proof of key possession (shared/recipientProof.ts) and are
+ * revoked, not deleted, so a fingerprint can't be re-registered later.
+ */
+
+const RECIPIENTS_FILE = "recipients.json";
+/** Shortest fingerprint prefix accepted for lookups. */
+export const MIN_FINGERPRINT_PREFIX = 16;
+export const MAX_DISPLAY_NAME_LENGTH = 80;
+
+export interface RecipientEntry {
+  /** Hex SHA-256 of the SPKI key, as used in sealed envelopes. */
+  fingerprint: string;
+  /** First 16 hex digits in groups of four, for reading aloud or comparing by eye. */
+  shortFingerprint: string;
+  displayName: string;
+  /** Base64 SPKI RSA-OAEP public key. */
+  publicKey: string;
+  createdAt: string;
+  updatedAt: string;
+  revokedAt: string | null;
+}
+
+let recipients: Record<string, RecipientEntry> = {};
+let loaded = false;
+
+async function loadRecipients(): Promise<void> {
+  if (loaded) return;
+  recipients = await readJson<Record<string, RecipientEntry>>(RECIPIENTS_FILE, {});
+  loaded = true;
+}
+
+async function persist() {
+  await writeJson(RECIPIENTS_FILE, recipients);
+}
+
+export function shortFingerprint(fingerprint: string): string {
+  return fingerprint.slice(0, MIN_FINGERPRINT_PREFIX).match(/.{4}/g)!.join(":");
+}
+
+/** Accepts full or short fingerprints, with or without colons, any case. */
+export function normalizeFingerprint(ref: string): string {
+  return ref.replace(/:/g, "").trim().toLowerCase();
+}
+
+/** Returns a problem description, or null if the name can go in the directory. */
+export function displayNameError(name: unknown): string | null {
+  if (typeof name !== "string" || !name.trim()) return "displayName is required";
+  if (name.length > MAX_DISPLAY_NAME_LENGTH) return `displayName must be at most ${MAX_DISPLAY_NAME_LENGTH} characters`;
+  // The name is a line of the signed statement
+  if (/[\u0000-\u001f\u007f]/.test(name)) return "displayName must not contain control characters";
+  return null;
+}
+
+export async function listRecipients(options: { query?: string; includeRevoked?: boolean } = {}): Promise<RecipientEntry[]> {
+  await loadRecipients();
+  const query = options.query?.trim().toLowerCase();
+  const fingerprintQuery = query ? normalizeFingerprint(query) : "";
+  return Object.values(recipients)
+    .filter((r) => options.includeRevoked || !r.revokedAt)
+    .filter((r) => !query || r.displayName.toLowerCase().includes(query) || (fingerprintQuery.length >= 4 && r.fingerprint.startsWith(fingerprintQuery)))
+    .sort((a, b) => a.displayName.localeCompare(b.displayName));
+}
+
+/**
+ * Finds an entry by full fingerprint or a prefix of at least
+ * MIN_FINGERPRINT_PREFIX hex digits. Revoked entries are returned too;
+ * callers decide what revocation means for them.
+ * @throws Error if a prefix matches more than one entry
+ */
+export async function findRecipient(ref: string): Promise<RecipientEntry | null> {
+  await loadRecipients();
+  const fingerprint = normalizeFingerprint(ref);
+  if (recipients[fingerprint]) return recipients[fingerprint];
+  if (fingerprint.length < MIN_FINGERPRINT_PREFIX || !/^[0-9a-f]+$/.test(fingerprint)) return null;
+
+  const matches = Object.values(recipients).filter((r) => r.fingerprint.startsWith(fingerprint));
+  if (matches.length > 1) throw new Error(`Fingerprint ${ref} is ambiguous; use the full fingerprint`);
+  return matches[0] ?? null;
+}
+
+/** Adds a key, or renames it when it is already listed. The proof must be checked first. */
+export async function saveRecipient(publicKey: string, displayName: string): Promise<RecipientEntry> {
+  await loadRecipients();
+  const fingerprint = await keyFingerprint(publicKey);
+  const now = new Date().toISOString();
+  const existing = recipients[fingerprint];
+
+  recipients[fingerprint] = {
+    fingerprint,
+    shortFingerprint: shortFingerprint(fingerprint),
+    displayName: displayName.trim(),
+    publicKey,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    revokedAt: null,
+  };
+  await persist();
+  return recipients[fingerprint];
+}
+
+export async function revokeRecipient(fingerprint: string): Promise<RecipientEntry> {
+  await loadRecipients();
+  const entry = recipients[fingerprint];
+  if (!entry) throw new Error("Recipient not found");
+  entry.revokedAt ??= new Date().toISOString();
+  entry.updatedAt = entry.revokedAt;
+  await persist();
+  return entry;
+}
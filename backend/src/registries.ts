@@ -0,0 +1,92 @@
+// src/registries.ts
+import { readJson, writeJson } from "./dataStore";
+import { createOnChainRegistry, listOwnedRegistries } from "./suiClient";
+
+/**
+ * One on-chain URLRegistry per canonical URL, so version_number and
+ * previous_archive_id form a real provenance chain for each page. The
+ * URL → registry mapping is kept locally and rebuilt from the backend's
+ * owned objects if it is lost.
+ */
+
+const REGISTRIES_FILE = "registries.json";
+
+export interface RegistryEntry {
+  url: string;
+  registryId: string;
+  createdAt: string;
+  /** create_registry transaction; null when recovered from owned objects. */
+  txDigest: string | null;
+}
+
+let registries: Record<string, RegistryEntry> = {};
+let loaded = false;
+let recovered = false;
+// Concurrent archives of a new URL must not create two registries
+const inFlight = new Map<string, Promise<RegistryEntry>>();
+
+async function loadRegistries(): Promise<void> {
+  if (loaded) return;
+  registries = await readJson<Record<string, RegistryEntry>>(REGISTRIES_FILE, {});
+  loaded = true;
+}
+
+async function persist() {
+  await writeJson(REGISTRIES_FILE, registries);
+}
+
+/** Adds registries the backend owns on-chain but doesn't know about locally. Runs once. */
+async function recoverOwnedRegistries() {
+  if (recovered) return;
+  const owned = await listOwnedRegistries();
+  let added = 0;
+  for (const [url, registryId] of owned) {
+    if (registries[url]) continue;
+    registries[url] = { url, registryId, createdAt: new Date().toISOString(), txDigest: null };
+    added++;
+  }
+  recovered = true;
+  if (added > 0) {
+    console.log(`[REGISTRY] Recovered ${added} registries from owned objects`);
+    await persist();
+  }
+}
+
+export async function findRegistry(canonicalUrl: string): Promise<RegistryEntry | null> {
+  await loadRegistries();
+  return registries[canonicalUrl] ?? null;
+}
+
+/** Returns the URL's registry, creating it on-chain the first time the URL is archived. */
+export async function resolveRegistry(canonicalUrl: string): Promise<RegistryEntry> {
+  await loadRegistries();
+  const known = registries[canonicalUrl];
+  if (known) return known;
+
+  const pending = inFlight.get(canonicalUrl);
+  if (pending) return pending;
+
+  const creation = (async () => {
+    await recoverOwnedRegistries();
+    if (registries[canonicalUrl]) return registries[canonicalUrl];
+
+    const { digest, registryId } = await createOnChainRegistry(canonicalUrl);
+    const entry: RegistryEntry = {
+      url: canonicalUrl,
+      registryId,
+      createdAt: new Date().toISOString(),
+      txDigest: digest,
+    };
+    registries[canonicalUrl] = entry;
+    await persist();
+    console.log(`[REGISTRY] ✅ Created ${registryId} for ${canonicalUrl}`);
+    return entry;
+  })();
+
+  inFlight.set(canonicalUrl, creation);
+  try {
+    return await creation;
+  } finally {
+    inFlight.delete(canonicalUrl);
+  }
+}
@@ -0,0 +1,169 @@
+// src/replay.ts
+import crypto from "crypto";
+import type { HttpExchange, PageCapture } from "./archive";
+
+/**
+ * Turns a capture into a self-contained replay bundle: every subresource
+ * the browser received is stored under assets/ and the HTML and CSS are
+ * rewritten to point at those archive-relative paths instead of the origin.
+ */
+
+export const ASSETS_DIR = "assets";
+
+export interface ReplayAsset {
+  url: string;
+  path: string;
+  mimeType: string;
+  size: number;
+  sha256: string;
+}
+
+export interface ReplayBundle {
+  html: string;
+  files: Record<string, Uint8Array>;
+  assets: ReplayAsset[];
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "text/css": ".css",
+  "text/javascript": ".js",
+  "application/javascript": ".js",
+  "application/json": ".json",
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/avif": ".avif",
+  "image/svg+xml": ".svg",
+  "image/x-icon": ".ico",
+  "image/vnd.microsoft.icon": ".ico",
+  "font/woff": ".woff",
+  "font/woff2": ".woff2",
+  "font/ttf": ".ttf",
+  "font/otf": ".otf",
+  "application/font-woff": ".woff",
+  "video/mp4": ".mp4",
+  "audio/mpeg": ".mp3",
+};
+
+function mimeOf(ex: HttpExchange): string {
+  return (ex.responseHeaders["content-type"] ?? "application/octet-stream").split(";")[0].trim().toLowerCase();
+}
+
+function resolveUrl(ref: string, base: string): string | null {
+  const cleaned = ref.trim().replace(/&amp;/g, "&");
+  if (!cleaned || /^(data|blob|javascript|mailto|tel|about):/i.test(cleaned) || cleaned.startsWith("#")) {
+    return null;
+  }
+  try {
+    const resolved = new URL(cleaned, base);
+    resolved.hash = "";
+    return resolved.href;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rewrites url(...) and @import references in a stylesheet. `toPath` gets
+ * the absolute URL and returns the replacement or null to leave it alone.
+ */
+function rewriteCss(css: string, base: string, toPath: (url: string) => string | null): string {
+  const swap = (ref: string) => {
+    const abs = resolveUrl(ref, base);
+    return abs ? toPath(abs) : null;
+  };
+  return css
+    .replace(/url\(\s*(["']?)([^"')]+)\1\s*\)/gi, (match, quote, ref) => {
+      const path = swap(ref);
+      return path ? `url(${quote}${path}${quote})` : match;
+    })
+    .replace(/@import\s+(["'])([^"']+)\1/gi, (match, quote, ref) => {
+      const path = swap(ref);
+      return path ? `@import ${quote}${path}${quote}` : match;
+    });
+}
+
+function rewriteHtml(html: string, base: string, toPath: (url: string) => string | null): string {
+  const swap = (ref: string) => {
+    const abs = resolveUrl(ref, base);
+    return abs ? toPath(abs) : null;
+  };
+
+  return html
+    // The <base> would re-anchor our relative paths at the origin
+    .replace(/<base\b[^>]*>/gi, "")
+    // SRI hashes and CORS modes don't apply to archived copies
+    .replace(/<[a-z][^>]*>/gi, (tag) =>
+      tag.replace(/\s(?:integrity|crossorigin)(?:\s*=\s*(["'])[^"']*\1)?(?=[\s>/])/gi, "")
+    )
+    .replace(/(\s(?:src|href|poster|data)\s*=\s*)(["'])([^"']*)\2/gi, (match, attr, quote, ref) => {
+      const path = swap(ref);
+      return path ? `${attr}${quote}${path}${quote}` : match;
+    })
+    .replace(/(\ssrcset\s*=\s*)(["'])([^"']*)\2/gi, (_match, attr, quote, value: string) => {
+      const candidates = value.split(",").map((candidate) => {
+        const [ref, ...descriptor] = candidate.trim().split(/\s+/);
+        const path = ref ? swap(ref) : null;
+        return [path ?? ref, ...descriptor].join(" ");
+      });
+      return `${attr}${quote}${candidates.join(", ")}${quote}`;
+    })
+    .replace(/(<style\b[^>]*>)([\s\S]*?)(<\/style>)/gi, (_match, open, css, close) =>
+      `${open}${rewriteCss(css, base, toPath)}${close}`
+    )
+    .replace(/(\sstyle\s*=\s*)(["'])([^"']*)\2/gi, (_match, attr, quote, css) =>
+      `${attr}${quote}${rewriteCss(css.replace(/&quot;/g, "'"), base, toPath)}${quote}`
+    );
+}
+
+/**
+ * Builds the replay bundle for a capture recorded with `recordNetwork`.
+ * Responses without a usable body (errors, redirects, the page itself)
+ * are left out; references to them keep pointing at the original URL and
+ * are blocked by the viewer's CSP during replay.
+ */
+export function buildReplayBundle(capture: PageCapture): ReplayBundle {
+  const pageUrl = capture.finalUrl ?? capture.url;
+  const byUrl = new Map<string, { ex: HttpExchange; asset: ReplayAsset }>();
+
+  for (const ex of capture.exchanges ?? []) {
+    if (ex.status < 200 || ex.status >= 300 || ex.body.length === 0) continue;
+    if (ex.url === pageUrl || byUrl.has(ex.url)) continue;
+
+    const mimeType = mimeOf(ex);
+    const sha256 = crypto.createHash("sha256").update(ex.body).digest("hex");
+    byUrl.set(ex.url, {
+      ex,
+      asset: {
+        url: ex.url,
+        path: `${ASSETS_DIR}/${sha256.slice(0, 32)}${EXTENSIONS[mimeType] ?? ""}`,
+        mimeType,
+        size: ex.body.length,
+        sha256,
+      },
+    });
+  }
+
+  const files: Record<string, Uint8Array> = {};
+  for (const { ex, asset } of byUrl.values()) {
+    if (asset.mimeType === "text/css") {
+      // Stylesheets live next to their assets, so references are sibling file names
+      const css = rewriteCss(Buffer.from(ex.body).toString("utf8"), ex.url, (abs) => {
+        const target = byUrl.get(abs)?.asset.path;
+        return target ? target.slice(ASSETS_DIR.length + 1) : null;
+      });
+      files[asset.path] = Buffer.from(css, "utf8");
+    } else {
+      files[asset.path] = ex.body;
+    }
+  }
+
+  const html = rewriteHtml(capture.htmlContent, capture.baseUrl ?? pageUrl, (abs) => byUrl.get(abs)?.asset.path ?? null);
+
+  return {
+    html,
+    files,
+    assets: Array.from(byUrl.values()).map(({ asset }) => asset),
+  };
+}
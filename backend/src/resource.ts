@@ -0,0 +1,242 @@
+// src/resource.ts
+import http, { IncomingMessage } from "http";
+import https from "https";
+import { TLSSocket } from "tls";
+import { promisify } from "util";
+import zlib from "zlib";
+import JSZip from "jszip";
+import { essenceOf, extensionOf, isPageMimeType, resourceText } from "../../shared/resource";
+import { ArchiveRequest, MainResponse, RedirectHop, TlsDetails, normalizedTextHash, sha256Hex } from "./archive";
+import { attestArchive } from "./attestation";
+import type { CaptureConfig } from "./captureProfiles";
+import { buildResourceManifest, MANIFEST_FILE, StageTiming } from "./manifest";
+import { loadPdf } from "./pdfText";
+import { backendAddress, signPersonalMessage } from "./suiClient";
+
+/**
+ * Non-HTML captures. Before the browser is started, the URL's headers are
+ * checked (isPageUrl); if it isn't an HTML page (a PDF report, an image,
+ * a JSON API), it is requested directly and its body archived byte for
+ * byte instead of the wrapper page Chrome would render around it. HTML
+ * pages are captured by capturePage as before.
+ *
+ * The bytes are packaged unchanged in a zip with the manifest (the
+ * response that delivered them) and the signed attestation, like a page
+ * capture. The document's type is recorded in both and on-chain.
+ */
+
+const MAX_REDIRECTS = 10;
+const FETCH_TIMEOUT_MS = 60_000;
+const MAX_RESOURCE_BYTES = Number(process.env.MAX_RESOURCE_BYTES || 100 * 1024 * 1024);
+// Close to a browser's navigation request, so servers that negotiate content pick the same representation
+const ACCEPT = "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8";
+const DEFAULT_USER_AGENT = "Mozilla/5.0 (compatible; ArchiveChain)";
+
+// Content-Encoding → decoder
+const DECOMPRESSORS = new Map<string, (body: Buffer, options: zlib.ZlibOptions & zlib.BrotliOptions) => Promise<Buffer>>([
+  ["gzip", promisify(zlib.gunzip)],
+  ["deflate", promisify(zlib.inflate)],
+  ["br", promisify(zlib.brotliDecompress)],
+]);
+
+export interface ResourceCapture {
+  url: string;
+  finalUrl: string;
+  capturedAt: string;
+  /** Essence of the Content-Type header, e.g. "application/pdf". */
+  mimeType: string;
+  body: Uint8Array;
+  /** See resourceText; for images and other binaries, the SHA-256 of the bytes. */
+  textHashHex: string;
+  mainResponse: MainResponse;
+  config: CaptureConfig;
+  /** User-Agent the request was sent with. */
+  userAgent: string;
+  fetchMs: number;
+}
+
+function requestOnce(url: URL, headers: Record<string, string>, method: "GET" | "HEAD"): Promise<IncomingMessage> {
+  const client = url.protocol === "https:" ? https : url.protocol === "http:" ? http : null;
+  if (!client) return Promise.reject(new Error(`Unsupported protocol ${url.protocol}`));
+  return new Promise((resolve, reject) => {
+    const req = client.request(url, { method, headers, timeout: FETCH_TIMEOUT_MS }, resolve);
+    req.on("timeout", () => req.destroy(new Error(`No response from ${url.host} after ${FETCH_TIMEOUT_MS} ms`)));
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+/** The response at the end of `url`'s redirects, with the hops that led there. */
+async function followRedirects(url: string, headers: Record<string, string>, method: "GET" | "HEAD") {
+  const redirectChain: RedirectHop[] = [];
+  let current = new URL(url);
+  let res = await requestOnce(current, headers, method);
+  while (res.statusCode && res.statusCode >= 300 && res.statusCode < 400 && res.headers.location) {
+    res.resume();
+    if (redirectChain.length >= MAX_REDIRECTS) throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+    redirectChain.push({ url: current.href, status: res.statusCode, location: res.headers.location });
+    current = new URL(res.headers.location, current);
+    res = await requestOnce(current, headers, method);
+  }
+  return { res, finalUrl: current.href, redirectChain };
+}
+
+/** The capture's user agent, extra headers and locale. */
+function requestHeaders(config: CaptureConfig): Record<string, string> {
+  return {
+    ...config.headers,
+    "User-Agent": config.userAgent ?? DEFAULT_USER_AGENT,
+    Accept: ACCEPT,
+    ...(config.locale ? { "Accept-Language": config.locale } : {}),
+  };
+}
+
+function toTlsDetails(res: IncomingMessage): TlsDetails | null {
+  const socket = res.socket;
+  if (!(socket instanceof TLSSocket)) return null;
+  const cert = socket.getPeerCertificate();
+  if (!cert || Object.keys(cert).length === 0) return null;
+  return {
+    protocol: socket.getProtocol() ?? "",
+    subjectName: [cert.subject?.CN ?? ""].flat().join(", "),
+    issuer: [cert.issuer?.CN ?? cert.issuer?.O ?? ""].flat().join(", "),
+    validFrom: new Date(cert.valid_from).toISOString(),
+    validTo: new Date(cert.valid_to).toISOString(),
+    subjectAlternativeNames: (cert.subjectaltname ?? "")
+      .split(/,\s*/)
+      .filter((name) => name.startsWith("DNS:"))
+      .map((name) => name.slice(4)),
+  };
+}
+
+function flatHeaders(res: IncomingMessage): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(res.headers)) {
+    if (value !== undefined) headers[name] = Array.isArray(value) ? value.join("\n") : value;
+  }
+  return headers;
+}
+
+async function readBody(res: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of res) {
+    size += chunk.length;
+    if (size > MAX_RESOURCE_BYTES) {
+      res.destroy();
+      throw new Error(`Resource is larger than ${MAX_RESOURCE_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  // Accept-Encoding isn't sent, but some servers compress anyway
+  return decompress(Buffer.concat(chunks), essenceOf(res.headers["content-encoding"]));
+}
+
+/**
+ * Decodes a gzip, deflate or br body. The limit applies to the output too,
+ * so a small compressed body can't expand into gigabytes.
+ */
+export async function decompress(body: Buffer, encoding: string): Promise<Buffer> {
+  const decompressor = DECOMPRESSORS.get(encoding);
+  if (!decompressor) return body;
+  try {
+    return await decompressor(body, { maxOutputLength: MAX_RESOURCE_BYTES });
+  } catch (err: any) {
+    if (err?.code === "ERR_BUFFER_TOO_LARGE") throw new Error(`Resource is larger than ${MAX_RESOURCE_BYTES} bytes`);
+    throw err;
+  }
+}
+
+/**
+ * Asks for `url`'s headers only (HEAD, following redirects) to tell
+ * whether it's an HTML page, so pages are requested once, by the browser.
+ * False when the server says it's something else or won't answer HEAD;
+ * fetchResource then decides from the GET response.
+ */
+export async function isPageUrl(url: string, config: CaptureConfig): Promise<boolean> {
+  const { res } = await followRedirects(url, requestHeaders(config), "HEAD");
+  res.resume();
+  if (!res.statusCode || res.statusCode >= 400) return false;
+  const mimeType = essenceOf(res.headers["content-type"]);
+  return !mimeType || isPageMimeType(mimeType);
+}
+
+/**
+ * Requests `url` with the capture's user agent, headers and locale,
+ * following redirects. Returns null when the response is an HTML page
+ * (or has no Content-Type) and should be captured in the browser.
+ */
+export async function fetchResource(url: string, config: CaptureConfig): Promise<ResourceCapture | null> {
+  const startedAt = Date.now();
+  const capturedAt = new Date(startedAt).toISOString();
+  const headers = requestHeaders(config);
+  const { res, finalUrl, redirectChain } = await followRedirects(url, headers, "GET");
+
+  const mimeType = essenceOf(res.headers["content-type"]);
+  if (!mimeType || isPageMimeType(mimeType)) {
+    res.destroy();
+    return null;
+  }
+
+  const mainResponse: MainResponse = {
+    status: res.statusCode ?? 0,
+    statusText: res.statusMessage ?? "",
+    headers: flatHeaders(res),
+    remoteAddress: { ip: res.socket.remoteAddress ?? null, port: res.socket.remotePort ?? null },
+    redirectChain,
+    tls: toTlsDetails(res),
+  };
+  const body = await readBody(res);
+  const text = await resourceText(body, mimeType, loadPdf);
+
+  return {
+    url,
+    finalUrl,
+    capturedAt,
+    mimeType,
+    body,
+    textHashHex: text ? normalizedTextHash(text) : sha256Hex(body),
+    mainResponse,
+    config,
+    userAgent: headers["User-Agent"],
+    fetchMs: Date.now() - startedAt,
+  };
+}
+
+/** Archive path of the document, e.g. "resource.pdf". */
+function resourceFile(mimeType: string): string {
+  return `resource${extensionOf(mimeType) || ".bin"}`;
+}
+
+/** Zips the document with its manifest and signs both, see attestArchive. */
+export async function packageResource(
+  resource: ResourceCapture,
+  request: ArchiveRequest,
+  stages: StageTiming[] = []
+): Promise<Buffer> {
+  const file = resourceFile(resource.mimeType);
+  const zip = new JSZip();
+  zip.file(file, resource.body);
+  zip.file(MANIFEST_FILE, JSON.stringify(buildResourceManifest(resource, file, request, stages), null, 2));
+
+  return attestArchive(
+    await zip.generateAsync({ type: "nodebuffer" }),
+    {
+      url: resource.url,
+      canonicalUrl: request.canonicalUrl ?? null,
+      finalUrl: resource.finalUrl,
+      capturedAt: resource.capturedAt,
+      format: "zip",
+      captureMethod: "server",
+      mimeType: resource.mimeType,
+      capture: {
+        config: resource.config,
+        browserVersion: null,
+        userAgent: resource.userAgent,
+      },
+      textHashHex: resource.textHashHex,
+    },
+    { address: backendAddress(), sign: signPersonalMessage },
+    "DEFLATE"
+  );
+}
@@ -1,236 +1,713 @@
 import express from "express";
 import cors from "cors";
 import dotenv from "dotenv";
-import crypto from "crypto";
-import { publicEncrypt, randomBytes, createCipheriv } from 'crypto';
-import { createOnChainArchive } from "./suiClient";
-import puppeteer from "puppeteer";
-import JSZip from "jszip";
 import OpenAI from "openai";
+import { ARCHIVE_FORMATS, ArchiveFormat, recipientKeyError } from "./archive";
+import { CaptureOptions, captureOptionsError } from "./captureProfiles";
+import { readStoredArticle } from "./article";
+import { ClientSnapshot, snapshotError, snapshotToCapture } from "./snapshot";
+import {
+  createArchiveJob,
+  createSealedUploadJob,
+  createSnapshotJob,
+  getJob,
+  isFinished,
+  jobEvents,
+  loadJobs,
+  retryJob,
+  ArchiveJob,
+} from "./jobs";
+import { getStorage } from "./storage";
+import {
+  archiveChain,
+  decodeCursor,
+  getIndexedArchive,
+  indexerStatus,
+  queryArchives,
+  startIndexer,
+  urlMatcher,
+  UrlMatchMode,
+  URL_MATCH_MODES,
+} from "./indexer";
+import { tryCanonicalizeUrl } from "./canonicalUrl";
+import { findRegistry } from "./registries";
+import { backendAddress, getOnChainRegistry } from "./suiClient";
+import { verifyArchive } from "./verify";
+import { EnvelopeInfo, inspectEnvelope, isEnvelope, keyFingerprint } from "../../shared/envelope";
+import { PROOF_MAX_AGE_MS, ProofAction, proofStatement, verifyStatement } from "../../shared/recipientProof";
+import {
+  displayNameError,
+  findRecipient,
+  listRecipients,
+  RecipientEntry,
+  revokeRecipient,
+  saveRecipient,
+} from "./recipients";
+import {
+  addWatch,
+  getWatch,
+  listWatches,
+  loadWatches,
+  removeWatch,
+  startWatchScheduler,
+  MIN_INTERVAL_MINUTES,
+} from "./watches";
+import {
+  buildCrawlManifest,
+  cancelCrawl,
+  CrawlRequest,
+  crawlRequestError,
+  getCrawl,
+  listCrawls,
+  loadCrawls,
+  resumeCrawls,
+  startCrawl,
+} from "./crawls";
 
 dotenv.config();
 
 const PORT = process.env.PORT || 4000;
+// Upper bound on wrapped keys per sealed archive
+const MAX_RECIPIENTS = 16;
+const SEALED_UPLOAD_LIMIT = process.env.SEALED_UPLOAD_LIMIT || "50mb";
+const SNAPSHOT_LIMIT = process.env.SNAPSHOT_LIMIT || "50mb";
+const SNAPSHOT_PATH = "/api/archive/snapshot";
 
 // --- Env ---
 const SUI_PACKAGE_ID = process.env.SUI_PACKAGE_ID;
-const SUI_REGISTRY_ID = process.env.SUI_REGISTRY_ID;
 const GROQ_API_KEY = process.env.GROQ_API_KEY;
 
-if (!SUI_PACKAGE_ID || !SUI_REGISTRY_ID) {
-  console.warn("[WARN] SUI_PACKAGE_ID or SUI_REGISTRY_ID missing. On-chain writes will fail.");
+if (!SUI_PACKAGE_ID) {
+  console.warn("[WARN] SUI_PACKAGE_ID missing. Archives will not be written on-chain.");
 }
 
 if (!GROQ_API_KEY) {
   console.warn("[WARN] GROQ_API_KEY missing. AI analysis will be disabled.");
 }
 
-// --- Resilient Walrus Upload with Multi-Publisher Fallback ---
+// --- Express App ---
+const app = express();
+app.use(cors());
+const jsonBody = express.json({ limit: "10mb" });
+// Snapshots carry a screenshot and the page's resources, so their route has its own limit
+app.use((req, res, next) => (req.path === SNAPSHOT_PATH ? next() : jsonBody(req, res, next)));
+
+app.get("/api/health", (_req, res) => {
+  res.json({ ok: true, service: "archivechain-backend" });
+});
+
+// The key that signs capture attestations; also `captured_by` on every Archive
+app.get("/api/attestation/signer", (_req, res) => {
+  res.json({ ok: true, address: backendAddress(), scheme: "ED25519", message: "sui-personal-message" });
+});
+
 /**
- * Uploads data to Walrus decentralized storage with automatic failover.
- * Tries multiple public publishers until successful to ensure high availability.
+ * The keys an archive request seals to: pasted keys, the single-key form
+ * older clients send (`recipientPublicKey`) and recipient-directory entries
+ * by fingerprint. Returns the problem instead when any can't be used.
  */
-async function uploadToWalrusDirectly(fileBuffer: Buffer): Promise<{ blobId: string, status: string }> {
-  
-  const PUBLISHERS = [
-    "https://publisher.walrus-testnet.walrus.space",
-    "https://walrus-testnet-publisher.stakely.io",
-    "https://walrus-testnet-publisher.nodes.guru",
-    "https://testnet-walrus-publisher.staketab.org"
-  ];
+async function resolveRecipients(input: {
+  recipientPublicKey?: string;
+  recipientPublicKeys?: string[];
+  recipientFingerprints?: string[];
+}): Promise<{ recipients: string[] } | { error: string }> {
+  const { recipientPublicKey, recipientPublicKeys, recipientFingerprints } = input;
+  if (recipientPublicKeys !== undefined && (!Array.isArray(recipientPublicKeys) || recipientPublicKeys.some((k) => typeof k !== "string"))) {
+    return { error: "recipientPublicKeys must be an array of public keys" };
+  }
+  if (recipientFingerprints !== undefined && (!Array.isArray(recipientFingerprints) || recipientFingerprints.some((f) => typeof f !== "string"))) {
+    return { error: "recipientFingerprints must be an array of fingerprints" };
+  }
 
-  let lastError: any = null;
+  const directoryKeys: string[] = [];
+  for (const ref of recipientFingerprints ?? []) {
+    let entry: RecipientEntry | null;
+    try {
+      entry = await findRecipient(ref);
+    } catch (err: any) {
+      return { error: err.message };
+    }
+    if (!entry) {
+      return { error: `No recipient with fingerprint ${ref} in the directory` };
+    }
+    if (entry.revokedAt) {
+      return { error: `Recipient ${entry.displayName} (${entry.shortFingerprint}) was revoked` };
+    }
+    directoryKeys.push(entry.publicKey);
+  }
 
-  for (const baseUrl of PUBLISHERS) {
-    const url = `${baseUrl}/v1/blobs?epochs=5`;
+  const recipients = Array.from(new Set([
+    ...(recipientPublicKeys ?? []),
+    ...(recipientPublicKey ? [recipientPublicKey] : []),
+    ...directoryKeys,
+  ].map((k) => k.trim()).filter(Boolean)));
 
-    try {
-      const response = await fetch(url, {
-        method: "PUT",
-        body: new Uint8Array(fileBuffer),
-      });
+  if (recipients.length > MAX_RECIPIENTS) {
+    return { error: `At most ${MAX_RECIPIENTS} recipients per archive` };
+  }
+  for (const [i, key] of recipients.entries()) {
+    const problem = recipientKeyError(key);
+    if (problem) {
+      return { error: `Recipient key ${i + 1}: ${problem}` };
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error(`Status ${response.status}: ${response.statusText}`);
-      }
+  return { recipients };
+}
 
-      const data: any = await response.json();
+app.post("/api/archive", async (req, res) => {
+  const { url, title, recipientPublicKey, recipientPublicKeys, recipientFingerprints, format, captureOptions } = (req.body ?? {}) as {
+    url?: string;
+    title?: string;
+    recipientPublicKey?: string;
+    recipientPublicKeys?: string[];
+    /** Keys from the recipient directory, by full or short fingerprint. */
+    recipientFingerprints?: string[];
+    format?: ArchiveFormat;
+    captureOptions?: CaptureOptions;
+  };
 
-      // Extract blob ID from response
-      let blobId: string;
-      if (data.newlyCreated) {
-        blobId = data.newlyCreated.blobObject.blobId;
-      } else if (data.alreadyCertified) {
-        blobId = data.alreadyCertified.blobId;
-      } else {
-        throw new Error("Invalid response structure from Walrus");
-      }
+  if (!url || !title) {
+    return res.status(400).json({ ok: false, error: "Missing required fields: url, title" });
+  }
+  if (format !== undefined && !ARCHIVE_FORMATS.includes(format)) {
+    return res.status(400).json({ ok: false, error: `format must be one of: ${ARCHIVE_FORMATS.join(", ")}` });
+  }
+  if (!tryCanonicalizeUrl(url)) {
+    return res.status(400).json({ ok: false, error: "url must be an absolute http(s) URL" });
+  }
+  const captureOptionsProblem = captureOptionsError(captureOptions);
+  if (captureOptionsProblem) {
+    return res.status(400).json({ ok: false, error: captureOptionsProblem });
+  }
+  const resolved = await resolveRecipients({ recipientPublicKey, recipientPublicKeys, recipientFingerprints });
+  if ("error" in resolved) {
+    return res.status(400).json({ ok: false, error: resolved.error });
+  }
+  const { recipients } = resolved;
+
+  console.log(`\n[ARCHIVE] ${url} ${recipients.length > 0 ? `🔒 SEALED (${recipients.length} recipients)` : '📢 PUBLIC'}`);
+
+  // CAPTURE → ZIP → SEAL → HASH → UPLOAD → WRITE TO SUI run in the background;
+  // poll /api/jobs/:id or follow /api/jobs/:id/events for progress and the result.
+  const job = await createArchiveJob({
+    url,
+    title,
+    recipientPublicKeys: recipients.length > 0 ? recipients : undefined,
+    format: format ?? "zip",
+    captureOptions,
+  });
+
+  return res.status(202).json({
+    ok: true,
+    jobId: job.id,
+    job,
+    statusUrl: `/api/jobs/${job.id}`,
+    eventsUrl: `/api/jobs/${job.id}/events`,
+  });
+});
 
-      console.log(`[WALRUS] ✅ ${baseUrl.split('//')[1].split('.')[0]}`);
-      return { blobId, status: "active" };
+/**
+ * Client capture: the page as the user's own tab shows it (serialized DOM,
+ * inlined resources, screenshot; see snapshot.ts), for pages the backend's
+ * logged-out browser can't see. ZIP → SEAL → HASH → UPLOAD → WRITE TO SUI
+ * run as for /api/archive; the archive is recorded as client-captured.
+ */
+app.post(SNAPSHOT_PATH, express.json({ limit: SNAPSHOT_LIMIT }), async (req, res) => {
+  const { url, title, recipientPublicKey, recipientPublicKeys, recipientFingerprints, format, ...snapshot } = (req.body ?? {}) as {
+    url?: string;
+    title?: string;
+    recipientPublicKey?: string;
+    recipientPublicKeys?: string[];
+    recipientFingerprints?: string[];
+    format?: string;
+  } & Partial<ClientSnapshot>;
 
+  if (!url || !title) {
+    return res.status(400).json({ ok: false, error: "Missing required fields: url, title" });
+  }
+  if (!tryCanonicalizeUrl(url)) {
+    return res.status(400).json({ ok: false, error: "url must be an absolute http(s) URL" });
+  }
+  // WACZ is a record of HTTP traffic, which a tab can't hand over
+  if (format !== undefined && format !== "zip") {
+    return res.status(400).json({ ok: false, error: "Snapshots can only be packaged as zip" });
+  }
+  const problem = snapshotError(snapshot);
+  if (problem) {
+    return res.status(400).json({ ok: false, error: problem });
+  }
+  const resolved = await resolveRecipients({ recipientPublicKey, recipientPublicKeys, recipientFingerprints });
+  if ("error" in resolved) {
+    return res.status(400).json({ ok: false, error: resolved.error });
+  }
+  const { recipients } = resolved;
+
+  console.log(`\n[SNAPSHOT] ${url} 📱 CLIENT-CAPTURED ${recipients.length > 0 ? `🔒 SEALED (${recipients.length} recipients)` : '📢 PUBLIC'}`);
+
+  const job = await createSnapshotJob(
+    { url, title, recipientPublicKeys: recipients.length > 0 ? recipients : undefined, format: "zip" },
+    snapshotToCapture(url, snapshot as ClientSnapshot)
+  );
+
+  return res.status(202).json({
+    ok: true,
+    jobId: job.id,
+    job,
+    statusUrl: `/api/jobs/${job.id}`,
+    eventsUrl: `/api/jobs/${job.id}/events`,
+  });
+});
+
+/**
+ * Client-side sealing: the browser captures and encrypts, and only the
+ * envelope (shared/envelope.ts) is sent here as the raw request body, with
+ * the metadata in the query string. It is hashed, stored and anchored on
+ * Sui like any other archive; the content is never visible to the server.
+ */
+app.post(
+  "/api/archive/sealed-upload",
+  express.raw({ type: "application/octet-stream", limit: SEALED_UPLOAD_LIMIT }),
+  async (req, res) => {
+    const { url, title, format } = req.query as { url?: string; title?: string; format?: string };
+
+    if (!url || !title) {
+      return res.status(400).json({ ok: false, error: "Missing required query parameters: url, title" });
+    }
+    if (format !== undefined && !ARCHIVE_FORMATS.includes(format as ArchiveFormat)) {
+      return res.status(400).json({ ok: false, error: `format must be one of: ${ARCHIVE_FORMATS.join(", ")}` });
+    }
+    if (!tryCanonicalizeUrl(url)) {
+      return res.status(400).json({ ok: false, error: "url must be an absolute http(s) URL" });
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ ok: false, error: "Body must be the sealed blob (Content-Type: application/octet-stream)" });
+    }
+
+    const sealed: Buffer = req.body;
+    // Only the header is read: it says who the blob is sealed to, nothing about the content
+    let envelope: EnvelopeInfo;
+    try {
+      if (!isEnvelope(sealed)) throw new Error("missing envelope header");
+      envelope = inspectEnvelope(sealed);
     } catch (err: any) {
-      lastError = err;
-      continue; // Try next publisher
+      return res.status(400).json({ ok: false, error: `Not a sealed envelope: ${err?.message}` });
     }
+    const { recipients } = envelope;
+    if (recipients.length === 0) {
+      return res.status(400).json({ ok: false, error: "Envelope has no recipients" });
+    }
+
+    console.log(`\n[ARCHIVE] ${url} 🔒 CLIENT-SEALED (${recipients.length} recipients, ${sealed.length} bytes)`);
+
+    const job = await createSealedUploadJob(
+      { url, title, format: (format as ArchiveFormat | undefined) ?? "zip" },
+      sealed,
+      envelope
+    );
+
+    return res.status(202).json({
+      ok: true,
+      jobId: job.id,
+      job,
+      statusUrl: `/api/jobs/${job.id}`,
+      eventsUrl: `/api/jobs/${job.id}/events`,
+    });
   }
+);
 
-  throw new Error(`All Walrus publishers failed. Last error: ${lastError?.message}`);
-}
+// --- Recipient Directory ---
 
-// --- [NEW] Seal Buffer with Hybrid Encryption ---
 /**
- * Implements hybrid encryption for whistleblower protection:
- * 1. Generate ephemeral AES-256 key for fast bulk encryption
- * 2. Encrypt content with AES-256-GCM (authenticated encryption)
- * 3. Encrypt AES key with recipient's RSA public key
- * 4. Pack all components: [IV + AuthTag + KeyLength + EncryptedKey + EncryptedContent]
- * 
- * Security: Only the holder of the matching RSA private key can decrypt.
- * Performance: AES for speed, RSA for secure key exchange.
+ * Checks a signed proof of key possession (shared/recipientProof.ts).
+ * Returns a problem description, or null if the proof is valid.
  */
-function sealBuffer(buffer: Buffer, publicKeyPem: string): Buffer {
-  // Generate cryptographically secure random keys
-  const aesKey = randomBytes(32); // 256-bit AES key
-  const iv = randomBytes(16);     // 128-bit initialization vector
-
-  // Encrypt content using AES-256-GCM (provides both confidentiality and authenticity)
-  const cipher = createCipheriv('aes-256-gcm', aesKey, iv);
-  const encryptedContent = Buffer.concat([cipher.update(buffer), cipher.final()]);
-  const authTag = cipher.getAuthTag(); // GCM authentication tag prevents tampering
-
-  // Encrypt the AES key using recipient's RSA public key (OAEP padding for security)
-  const formattedKey = `-----BEGIN PUBLIC KEY-----\n${publicKeyPem}\n-----END PUBLIC KEY-----`;
-  
-  const encryptedAesKey = publicEncrypt(
-    {
-      key: formattedKey,
-      padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
-      oaepHash: "sha256",
-    },
-    aesKey
-  );
-
-  // Pack encrypted data in structured format for decryption
-  // Format: [IV (16 bytes)] + [AuthTag (16 bytes)] + [KeyLength (2 bytes)] + [EncryptedKey (variable)] + [EncryptedContent (variable)]
-  const keyLengthBuf = Buffer.alloc(2);
-  keyLengthBuf.writeUInt16BE(encryptedAesKey.length);
-
-  return Buffer.concat([
-    iv, 
-    authTag, 
-    keyLengthBuf, 
-    encryptedAesKey, 
-    encryptedContent
-  ]);
+async function proofError(
+  action: ProofAction,
+  publicKey: string,
+  displayName: string,
+  proof: { timestamp?: string; signature?: string } | undefined
+): Promise<string | null> {
+  if (!proof?.timestamp || !proof.signature) return "proof.timestamp and proof.signature are required";
+  const signedAt = Date.parse(proof.timestamp);
+  if (Number.isNaN(signedAt) || Math.abs(Date.now() - signedAt) > PROOF_MAX_AGE_MS) {
+    return "proof.timestamp is missing or too old; sign a fresh proof";
+  }
+  const statement = proofStatement(action, await keyFingerprint(publicKey), displayName, proof.timestamp);
+  return (await verifyStatement(publicKey, statement, proof.signature)) ? null : "Proof signature does not verify against this key";
 }
 
-// --- Express App ---
-const app = express();
-app.use(cors());
-app.use(express.json({ limit: "10mb" }));
+app.post("/api/recipients", async (req, res) => {
+  const { publicKey, displayName, proof } = (req.body ?? {}) as {
+    publicKey?: string;
+    displayName?: string;
+    proof?: { timestamp?: string; signature?: string };
+  };
 
-app.get("/api/health", (_req, res) => {
-  res.json({ ok: true, service: "archivechain-backend" });
+  if (!publicKey || typeof publicKey !== "string") {
+    return res.status(400).json({ ok: false, error: "Missing required field: publicKey" });
+  }
+  const keyProblem = recipientKeyError(publicKey);
+  if (keyProblem) return res.status(400).json({ ok: false, error: `publicKey: ${keyProblem}` });
+  const nameProblem = displayNameError(displayName);
+  if (nameProblem) return res.status(400).json({ ok: false, error: nameProblem });
+  if (!proof) return res.status(400).json({ ok: false, error: "Missing required field: proof" });
+
+  const problem = await proofError("register", publicKey, displayName!, proof);
+  if (problem) return res.status(401).json({ ok: false, error: problem });
+
+  const existing = await findRecipient(await keyFingerprint(publicKey));
+  if (existing?.revokedAt) {
+    return res.status(409).json({ ok: false, error: "This key was revoked and can't be registered again" });
+  }
+
+  const recipient = await saveRecipient(publicKey, displayName!);
+  console.log(`[RECIPIENTS] ✅ ${existing ? "Updated" : "Registered"} ${recipient.displayName} (${recipient.shortFingerprint})`);
+  return res.status(existing ? 200 : 201).json({ ok: true, recipient });
 });
 
-app.post("/api/archive", async (req, res) => {
-  const { url, title, recipientPublicKey } = req.body as { url?: string; title?: string; recipientPublicKey?: string; };
+app.get("/api/recipients", async (req, res) => {
+  const { q, includeRevoked } = req.query as { q?: string; includeRevoked?: string };
+  const recipients = await listRecipients({ query: q, includeRevoked: includeRevoked === "true" });
+  res.json({ ok: true, recipients });
+});
 
-  if (!url || !title) {
-    return res.status(400).json({ ok: false, error: "Missing required fields: url, title" });
+app.get("/api/recipients/:fingerprint", async (req, res) => {
+  try {
+    const recipient = await findRecipient(req.params.fingerprint);
+    if (!recipient) return res.status(404).json({ ok: false, error: "Recipient not found" });
+    return res.json({ ok: true, recipient });
+  } catch (err: any) {
+    return res.status(400).json({ ok: false, error: err.message });
   }
+});
 
+/** Revocation needs a proof signed by the key itself, with the listed display name. */
+app.post("/api/recipients/:fingerprint/revoke", async (req, res) => {
+  const { proof } = (req.body ?? {}) as { proof?: { timestamp?: string; signature?: string } };
+  if (!proof) return res.status(400).json({ ok: false, error: "Missing required field: proof" });
+
+  let recipient: RecipientEntry | null;
   try {
-    console.log(`\n[ARCHIVE] ${url} ${recipientPublicKey ? '🔒 SEALED' : '📢 PUBLIC'}`);
-    
-    // 1. CAPTURE: Use headless browser to capture full page state
-    const browser = await puppeteer.launch({
-      headless: true,
-      args: ["--no-sandbox", "--disable-setuid-sandbox"],
-    });
-    const page = await browser.newPage();
-    await page.setViewport({ width: 1280, height: 1024 });
-    await page.goto(url, { waitUntil: "networkidle2" });
-    const htmlContent = await page.content();
-    const screenshotBuffer = await page.screenshot({ fullPage: true });
-    await browser.close();
-
-    // 2. ZIP: Package HTML and screenshot for immutable storage
-    const zip = new JSZip();
-    zip.file("index.html", htmlContent);
-    zip.file("screenshot.png", screenshotBuffer);
-    const zipBuffer = await zip.generateAsync({
-      type: "nodebuffer",
-      compression: "DEFLATE",
-      compressionOptions: { level: 6 },
-    });
+    recipient = await findRecipient(req.params.fingerprint);
+  } catch (err: any) {
+    return res.status(400).json({ ok: false, error: err.message });
+  }
+  if (!recipient) return res.status(404).json({ ok: false, error: "Recipient not found" });
 
-    // 3. SEAL: Apply hybrid encryption if recipient specified (Whistleblower Mode)
-    let finalBuffer = zipBuffer;
-    let isEncrypted = false;
-
-    if (recipientPublicKey) {
-      try {
-        finalBuffer = sealBuffer(zipBuffer, recipientPublicKey);
-        isEncrypted = true;
-        console.log("[ENCRYPT] ✅ Archive sealed with hybrid encryption");
-      } catch (e: any) {
-        console.error("[ENCRYPT] ❌ Failed:", e.message);
-        return res.status(500).json({ok: false, error: `Encryption failed: ${e.message}`});
-      }
+  const problem = await proofError("revoke", recipient.publicKey, recipient.displayName, proof);
+  if (problem) return res.status(401).json({ ok: false, error: problem });
+
+  const revoked = await revokeRecipient(recipient.fingerprint);
+  console.log(`[RECIPIENTS] Revoked ${revoked.displayName} (${revoked.shortFingerprint})`);
+  return res.json({ ok: true, recipient: revoked });
+});
+
+// --- Archive Jobs ---
+app.get("/api/jobs/:id", (req, res) => {
+  const job = getJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({ ok: false, error: "Job not found" });
+  }
+  return res.json({ ok: true, job });
+});
+
+/**
+ * Server-Sent Events stream of job updates. Sends the current state
+ * immediately and closes once the job has succeeded or failed.
+ */
+app.get("/api/jobs/:id/events", (req, res) => {
+  const job = getJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({ ok: false, error: "Job not found" });
+  }
+
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders();
+
+  const send = (current: ArchiveJob) => {
+    res.write(`event: job\ndata: ${JSON.stringify(current)}\n\n`);
+    if (isFinished(current)) {
+      jobEvents.off("update", onUpdate);
+      res.end();
     }
+  };
+  const onUpdate = (updated: ArchiveJob) => {
+    if (updated.id === job.id) send(updated);
+  };
+
+  jobEvents.on("update", onUpdate);
+  req.on("close", () => jobEvents.off("update", onUpdate));
+  send(job);
+});
 
-    // 4. HASH: Generate SHA-256 for blockchain proof (of encrypted or plain data)
-    const contentHashHex = crypto.createHash("sha256").update(finalBuffer).digest("hex");
+app.post("/api/jobs/:id/retry", async (req, res) => {
+  const job = getJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({ ok: false, error: "Job not found" });
+  }
+  if (job.status !== "failed") {
+    return res.status(409).json({ ok: false, error: `Only failed jobs can be retried (status: ${job.status})` });
+  }
 
-    // 5. UPLOAD: Store on decentralized Walrus network with multi-publisher fallback
-    const { blobId } = await uploadToWalrusDirectly(finalBuffer);
-    
-    const walrusBlobId = blobId;
-    const tuskyFileId = "direct-upload"; 
-
-    // 6. WRITE TO SUI (Mark sealed archives with 🔒 prefix)
-    let suiDigest: string | null = null;
-    let suiArchiveId: string | null = null;
-    const finalTitle = isEncrypted ? `🔒 ${title}` : title;
-
-    if (SUI_PACKAGE_ID && SUI_REGISTRY_ID) {
-      console.log("Creating on-chain archive on Sui...");
-      const suiResult = await createOnChainArchive({
-        url,
-        walrusBlobId,
-        tuskyFileId,
-        contentHashHex,
-        title: finalTitle,
-      });
-      suiDigest = suiResult.digest;
-      suiArchiveId = suiResult.archiveId ?? null;
-      console.log(`✅ Sui tx success. Digest=${suiDigest}, ArchiveID=${suiArchiveId}`);
+  try {
+    const retried = await retryJob(job.id);
+    console.log(`[JOB ${job.id}] Retrying from ${retried.currentStage ?? "capture"}`);
+    return res.status(202).json({ ok: true, jobId: retried.id, job: retried });
+  } catch (err: any) {
+    // A sealed snapshot that failed before sealing has nothing left to retry from
+    return res.status(409).json({ ok: false, error: err.message });
+  }
+});
+
+// --- Blob Reads (through the configured storage provider) ---
+app.get("/api/blobs/:blobId", async (req, res) => {
+  const storage = getStorage();
+  const { blobId } = req.params;
+
+  try {
+    if (!(await storage.exists(blobId))) {
+      return res.status(404).json({ ok: false, error: "Blob not found" });
     }
+    const data = await storage.get(blobId);
+    res.setHeader("Content-Type", "application/octet-stream");
+    res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+    return res.send(data);
+  } catch (err: any) {
+    console.error(`[STORAGE] ❌ read ${blobId}:`, err?.message);
+    return res.status(502).json({ ok: false, error: err?.message ?? "Storage read failed" });
+  }
+});
 
-    // 7. RESPONSE
-    return res.json({
-      ok: true,
-      url,
-      title: finalTitle,
-      tuskyFileId,
-      walrusBlobId,
-      mimeType: "application/zip",
-      size: finalBuffer.length,
-      status: "active",
-      contentHashHex,
-      suiTxDigest: suiDigest,
-      suiArchiveId,
-      isEncrypted,
-    });
+app.get("/api/blobs/:blobId/status", async (req, res) => {
+  const storage = getStorage();
+  const { blobId } = req.params;
 
+  try {
+    const exists = await storage.exists(blobId);
+    const expiry = exists ? await storage.expiry(blobId) : null;
+    return res.json({ ok: true, provider: storage.name, blobId, exists, expiry });
   } catch (err: any) {
-    console.error("Archive error:", err);
-    return res.status(500).json({
-      ok: false,
-      error: err?.message ?? "Unknown error",
-    });
+    return res.status(502).json({ ok: false, error: err?.message ?? "Storage lookup failed" });
+  }
+});
+
+app.get("/api/storage/health", (_req, res) => {
+  const storage = getStorage();
+  res.json({ ok: true, provider: storage.name, endpoints: storage.health?.() ?? [] });
+});
+
+// --- Archive Index (built from ArchiveCreated events) ---
+/** Accepts epoch milliseconds or anything Date.parse understands. */
+function parseTime(value: unknown): number | null | undefined {
+  if (value === undefined || value === "") return undefined;
+  if (typeof value !== "string") return null;
+  const ms = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(ms) ? ms : null;
+}
+
+app.get("/api/archives", (req, res) => {
+  const { url, mode, from, to, cursor, limit } = req.query as Record<string, string | undefined>;
+
+  if (mode !== undefined && !URL_MATCH_MODES.includes(mode as UrlMatchMode)) {
+    return res.status(400).json({ ok: false, error: `mode must be one of: ${URL_MATCH_MODES.join(", ")}` });
+  }
+  if (url && !urlMatcher(url, (mode as UrlMatchMode) ?? "exact")) {
+    return res.status(400).json({ ok: false, error: mode === "domain" ? "url must be a URL or host name" : "url must be an absolute http(s) URL" });
+  }
+
+  const fromMs = parseTime(from);
+  const toMs = parseTime(to);
+  if (fromMs === null || toMs === null) {
+    return res.status(400).json({ ok: false, error: "from and to must be epoch milliseconds or ISO dates" });
+  }
+  if (cursor && !decodeCursor(cursor)) {
+    return res.status(400).json({ ok: false, error: "Invalid cursor" });
+  }
+  const pageSize = limit === undefined ? undefined : Number(limit);
+  if (pageSize !== undefined && (!Number.isInteger(pageSize) || pageSize < 1)) {
+    return res.status(400).json({ ok: false, error: "limit must be a positive integer" });
+  }
+
+  const page = queryArchives({ url, mode: mode as UrlMatchMode | undefined, fromMs, toMs, cursor, limit: pageSize });
+  return res.json({ ok: true, ...page, index: indexerStatus() });
+});
+
+app.get("/api/archives/:id", (req, res) => {
+  const archive = getIndexedArchive(req.params.id);
+  if (!archive) {
+    return res.status(404).json({ ok: false, error: "Archive not indexed" });
+  }
+  return res.json({ ok: true, archive });
+});
+
+// The provenance chain behind an archive, newest first
+app.get("/api/archives/:id/chain", (req, res) => {
+  const chain = archiveChain(req.params.id);
+  if (!chain) {
+    return res.status(404).json({ ok: false, error: "Archive not indexed" });
+  }
+  return res.json({ ok: true, ...chain });
+});
+
+// --- Integrity Verification ---
+app.post("/api/verify", async (req, res) => {
+  const { archiveId } = (req.body ?? {}) as { archiveId?: string };
+
+  if (!archiveId || !/^0x[0-9a-fA-F]{1,64}$/.test(archiveId)) {
+    return res.status(400).json({ ok: false, error: "archiveId must be a Sui object id (0x...)" });
+  }
+
+  try {
+    const report = await verifyArchive(archiveId);
+    if (!report) {
+      return res.status(404).json({ ok: false, error: "No Archive object with this id" });
+    }
+    console.log(`[VERIFY] ${archiveId}: ${report.verdict}`);
+    return res.json({ ok: true, report });
+  } catch (err: any) {
+    console.error(`[VERIFY] ❌ ${archiveId}:`, err?.message);
+    return res.status(502).json({ ok: false, error: err?.message ?? "Verification failed" });
+  }
+});
+
+// --- Per-URL Registries ---
+app.get("/api/registries", async (req, res) => {
+  const url = typeof req.query.url === "string" ? req.query.url : "";
+  const canonicalUrl = tryCanonicalizeUrl(url);
+  if (!canonicalUrl) {
+    return res.status(400).json({ ok: false, error: "url must be an absolute http(s) URL" });
+  }
+
+  const entry = await findRegistry(canonicalUrl);
+  if (!entry) {
+    return res.status(404).json({ ok: false, canonicalUrl, error: "No registry for this URL yet" });
+  }
+
+  try {
+    const onChain = await getOnChainRegistry(entry.registryId);
+    return res.json({ ok: true, canonicalUrl, registry: entry, onChain });
+  } catch (err: any) {
+    // The mapping is still useful when the fullnode is unreachable
+    console.error(`[REGISTRY] ❌ read ${entry.registryId}:`, err?.message);
+    return res.json({ ok: true, canonicalUrl, registry: entry, onChain: null });
+  }
+});
+
+// --- Watchlist: scheduled re-captures, archived only on change ---
+app.post("/api/watches", async (req, res) => {
+  const { url, title, intervalMinutes, captureOptions } = (req.body ?? {}) as {
+    url?: string;
+    title?: string;
+    intervalMinutes?: number;
+    captureOptions?: CaptureOptions;
+  };
+
+  if (!url || !title || intervalMinutes === undefined) {
+    return res.status(400).json({ ok: false, error: "Missing required fields: url, title, intervalMinutes" });
+  }
+  if (typeof intervalMinutes !== "number" || !Number.isFinite(intervalMinutes) || intervalMinutes < MIN_INTERVAL_MINUTES) {
+    return res.status(400).json({ ok: false, error: `intervalMinutes must be a number >= ${MIN_INTERVAL_MINUTES}` });
+  }
+  if (!tryCanonicalizeUrl(url)) {
+    return res.status(400).json({ ok: false, error: "url must be an absolute http(s) URL" });
+  }
+  const captureOptionsProblem = captureOptionsError(captureOptions);
+  if (captureOptionsProblem) {
+    return res.status(400).json({ ok: false, error: captureOptionsProblem });
+  }
+
+  const watch = await addWatch({ url, title, intervalMinutes, captureOptions });
+  console.log(`[WATCH] Added ${url} every ${intervalMinutes}m`);
+  return res.status(201).json({ ok: true, watch });
+});
+
+app.get("/api/watches", (_req, res) => {
+  res.json({ ok: true, watches: listWatches() });
+});
+
+app.get("/api/watches/:id", (req, res) => {
+  const watch = getWatch(req.params.id);
+  if (!watch) {
+    return res.status(404).json({ ok: false, error: "Watch not found" });
+  }
+  return res.json({ ok: true, watch });
+});
+
+app.delete("/api/watches/:id", async (req, res) => {
+  const removed = await removeWatch(req.params.id);
+  if (!removed) {
+    return res.status(404).json({ ok: false, error: "Watch not found" });
+  }
+  return res.json({ ok: true });
+});
+
+// --- Crawls: a seed URL or sitemap archived page by page ---
+app.post("/api/crawls", async (req, res) => {
+  const input = (req.body ?? {}) as CrawlRequest;
+
+  const problem = crawlRequestError(input);
+  if (problem) {
+    return res.status(400).json({ ok: false, error: problem });
+  }
+  const captureOptionsProblem = captureOptionsError(input.captureOptions);
+  if (captureOptionsProblem) {
+    return res.status(400).json({ ok: false, error: captureOptionsProblem });
+  }
+
+  const crawl = await startCrawl({
+    seedUrl: input.seedUrl,
+    sitemapUrl: input.sitemapUrl,
+    title: input.title,
+    maxDepth: input.maxDepth,
+    maxPages: input.maxPages,
+    include: input.include,
+    exclude: input.exclude,
+    concurrency: input.concurrency,
+    captureOptions: input.captureOptions,
+  });
+  console.log(`[CRAWL] Started ${crawl.id} from ${crawl.seedUrl ?? crawl.sitemapUrl} (depth ${crawl.settings.maxDepth}, up to ${crawl.settings.maxPages} pages)`);
+  return res.status(202).json({ ok: true, crawlId: crawl.id, crawl, statusUrl: `/api/crawls/${crawl.id}` });
+});
+
+app.get("/api/crawls", (_req, res) => {
+  // Page lists can be long; fetch a crawl by id for them
+  const crawls = listCrawls().map(({ pages, ...crawl }) => ({
+    ...crawl,
+    pageCount: pages.length,
+    archivedCount: pages.filter((p) => p.status === "archived").length,
+  }));
+  res.json({ ok: true, crawls });
+});
+
+app.get("/api/crawls/:id", (req, res) => {
+  const crawl = getCrawl(req.params.id);
+  if (!crawl) {
+    return res.status(404).json({ ok: false, error: "Crawl not found" });
+  }
+  return res.json({ ok: true, crawl });
+});
+
+// The manifest as it stands; once the crawl has finished, the stored copy is at crawl.manifest.walrusBlobId
+app.get("/api/crawls/:id/manifest", (req, res) => {
+  const crawl = getCrawl(req.params.id);
+  if (!crawl) {
+    return res.status(404).json({ ok: false, error: "Crawl not found" });
+  }
+  return res.json(buildCrawlManifest(crawl));
+});
+
+app.post("/api/crawls/:id/cancel", async (req, res) => {
+  try {
+    const crawl = await cancelCrawl(req.params.id);
+    if (!crawl) {
+      return res.status(404).json({ ok: false, error: "Crawl not found" });
+    }
+    return res.json({ ok: true, crawl });
+  } catch (err: any) {
+    return res.status(409).json({ ok: false, error: err?.message });
   }
 });
 
@@ -257,7 +734,23 @@ const groq = new OpenAI({
 })();
 
 app.post("/api/analyze", async (req, res) => {
-  const { text1, text2 } = req.body;
+  const { archiveId1, archiveId2 } = (req.body ?? {}) as { archiveId1?: string; archiveId2?: string };
+  let { text1, text2 } = (req.body ?? {}) as { text1?: string; text2?: string };
+
+  // The article.txt stored at capture time beats text the client extracted
+  // from HTML; sealed and older archives fall back to the client's text
+  let textSource: "archive" | "client" = "client";
+  if (typeof archiveId1 === "string" && typeof archiveId2 === "string") {
+    try {
+      const [stored1, stored2] = await Promise.all([readStoredArticle(archiveId1), readStoredArticle(archiveId2)]);
+      if (stored1 && stored2) {
+        [text1, text2] = [stored1, stored2];
+        textSource = "archive";
+      }
+    } catch (err: any) {
+      console.warn("[ANALYZE] Stored text unavailable:", err?.message);
+    }
+  }
 
   if (!text1 || !text2) {
     return res.status(400).json({ ok: false, error: "Missing text content" });
@@ -295,7 +788,7 @@ app.post("/api/analyze", async (req, res) => {
     const analysis = JSON.parse(completion.choices[0].message.content || "{}");
     
     console.log("✅ Groq analysis complete:", analysis);
-    return res.json({ ok: true, analysis });
+    return res.json({ ok: true, analysis, textSource });
 
   } catch (err: any) {
     console.error("Groq API Error:", err);
@@ -318,6 +811,23 @@ app.post("/api/analyze", async (req, res) => {
   }
 });
 
-app.listen(PORT, () => {
-  console.log(`ArchiveChain backend running on http://localhost:${PORT}`);
-});
\ No newline at end of file
+// Restore persisted jobs, watches and crawls before accepting requests so
+// nothing overwrites them; crawls re-attach to their jobs, so jobs go first
+loadJobs()
+  .then(() => Promise.all([loadWatches(), loadCrawls()]))
+  .then(() => {
+    app.listen(PORT, () => {
+      console.log(`ArchiveChain backend running on http://localhost:${PORT}`);
+      startWatchScheduler().catch((err) => {
+        console.error("[WATCH] Failed to start scheduler:", err?.message);
+      });
+      resumeCrawls();
+      startIndexer().catch((err) => {
+        console.error("[INDEXER] Failed to start:", err?.message);
+      });
+    });
+  })
+  .catch((err) => {
+    console.error("[STARTUP] Failed to restore saved state:", err?.message);
+    process.exit(1);
+  });
@@ -0,0 +1,159 @@
+// src/snapshot.ts
+import type { HttpExchange, PageCapture } from "./archive";
+import { normalizedTextHash } from "./archive";
+
+/**
+ * Client captures: a page as the user's own browser shows it (logged in,
+ * past a paywall, geo-targeted), serialized in that tab and submitted to
+ * POST /api/archive/snapshot. The backend never loads the page; it turns
+ * the snapshot into a PageCapture marked captureMethod "client", and the
+ * job pipeline packages, seals, hashes, stores and anchors it like any
+ * other capture.
+ *
+ * Nothing in a snapshot can be checked against the site. The manifest,
+ * the attestation and the on-chain record all say it was client-captured,
+ * so readers weigh it accordingly.
+ */
+
+export const MAX_SNAPSHOT_RESOURCES = 500;
+const MAX_RESOURCE_URL_LENGTH = 4096;
+const MAX_CLIENT_CLOCK_SKEW_MS = 24 * 60 * 60 * 1000;
+
+/** A subresource the tab had loaded, inlined by the client. */
+export interface SnapshotResource {
+  url: string;
+  mimeType: string;
+  /** Base64 body. */
+  data: string;
+}
+
+/** Body of POST /api/archive/snapshot, besides url, title and recipients. */
+export interface ClientSnapshot {
+  /** document.documentElement.outerHTML, after scripts ran. */
+  html: string;
+  /** document.body.innerText; used for the text hash when present. */
+  text?: string;
+  /** document.baseURI, when the tab's URL isn't the base for relative links. */
+  baseUrl?: string;
+  /** PNG of the tab, base64 or a data: URL as chrome.tabs.captureVisibleTab returns it. */
+  screenshot: string;
+  resources?: SnapshotResource[];
+  /** The client's clock at capture time. */
+  capturedAt?: string;
+  userAgent?: string;
+  viewport?: { width: number; height: number; deviceScaleFactor?: number };
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+function decodeBase64(value: string): Buffer | null {
+  const data = value.replace(/^data:[^,]*;base64,/, "").replace(/\s+/g, "");
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(data) || data.length % 4 !== 0) return null;
+  return Buffer.from(data, "base64");
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return /^https?:$/.test(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/** Returns a problem description, or null if the snapshot can be archived. */
+export function snapshotError(snapshot: unknown): string | null {
+  if (!snapshot || typeof snapshot !== "object") return "Missing snapshot";
+  const s = snapshot as Record<string, unknown>;
+
+  if (typeof s.html !== "string" || !s.html.trim()) return "html must be the serialized document";
+  if (s.text !== undefined && typeof s.text !== "string") return "text must be a string";
+  if (s.baseUrl !== undefined && (typeof s.baseUrl !== "string" || !isHttpUrl(s.baseUrl))) return "baseUrl must be an absolute http(s) URL";
+
+  if (typeof s.screenshot !== "string") return "screenshot must be a base64 PNG";
+  const screenshot = decodeBase64(s.screenshot);
+  if (!screenshot || !screenshot.subarray(0, 8).equals(PNG_SIGNATURE)) return "screenshot must be a base64 PNG";
+
+  if (s.capturedAt !== undefined) {
+    const at = typeof s.capturedAt === "string" ? Date.parse(s.capturedAt) : NaN;
+    if (Number.isNaN(at)) return "capturedAt must be an ISO timestamp";
+    if (Math.abs(at - Date.now()) > MAX_CLIENT_CLOCK_SKEW_MS) return "capturedAt is more than a day away from the server's clock";
+  }
+  if (s.userAgent !== undefined && (typeof s.userAgent !== "string" || s.userAgent.length > 512)) {
+    return "userAgent must be a string of at most 512 characters";
+  }
+  if (s.viewport !== undefined) {
+    const v = s.viewport as Record<string, unknown> | null;
+    const positive = (n: unknown) => typeof n === "number" && Number.isFinite(n) && n > 0 && n <= 100_000;
+    if (!v || typeof v !== "object" || !positive(v.width) || !positive(v.height) ||
+        (v.deviceScaleFactor !== undefined && !positive(v.deviceScaleFactor))) {
+      return "viewport must be { width, height, deviceScaleFactor? } with positive numbers";
+    }
+  }
+
+  if (s.resources !== undefined) {
+    if (!Array.isArray(s.resources) || s.resources.length > MAX_SNAPSHOT_RESOURCES) {
+      return `resources must be an array of at most ${MAX_SNAPSHOT_RESOURCES} entries`;
+    }
+    for (const [i, resource] of s.resources.entries()) {
+      const r = resource as Record<string, unknown> | null;
+      if (!r || typeof r !== "object") return `resources[${i}] must be an object`;
+      if (typeof r.url !== "string" || r.url.length > MAX_RESOURCE_URL_LENGTH || !isHttpUrl(r.url)) {
+        return `resources[${i}].url must be an absolute http(s) URL`;
+      }
+      if (typeof r.mimeType !== "string" || !/^[\w.+-]+\/[\w.+-]+$/.test(r.mimeType.split(";")[0].trim())) {
+        return `resources[${i}].mimeType must be a MIME type`;
+      }
+      if (typeof r.data !== "string" || !decodeBase64(r.data)) return `resources[${i}].data must be base64`;
+    }
+  }
+  return null;
+}
+
+// Only when the client sent no text: good enough for change detection, not for reading
+function roughText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|template)\b[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ");
+}
+
+/**
+ * The snapshot as a PageCapture. Resources become HTTP exchanges so the
+ * zip bundles them under assets/ and index.html works offline. The
+ * snapshot must have passed snapshotError.
+ */
+export function snapshotToCapture(url: string, snapshot: ClientSnapshot): PageCapture {
+  const receivedAt = new Date().toISOString();
+  const exchanges: HttpExchange[] = (snapshot.resources ?? []).map((resource) => ({
+    url: resource.url,
+    method: "GET",
+    requestHeaders: {},
+    status: 200,
+    statusText: "OK",
+    responseHeaders: { "content-type": resource.mimeType },
+    body: decodeBase64(resource.data)!,
+    fetchedAt: receivedAt,
+  }));
+
+  return {
+    url,
+    finalUrl: url,
+    ...(snapshot.baseUrl ? { baseUrl: snapshot.baseUrl } : {}),
+    // When the backend received it; the client's own clock is kept in `client`
+    capturedAt: receivedAt,
+    htmlContent: snapshot.html,
+    screenshotBuffer: decodeBase64(snapshot.screenshot)!,
+    textHashHex: normalizedTextHash(snapshot.text ?? roughText(snapshot.html)),
+    exchanges,
+    userAgent: snapshot.userAgent,
+    mainResponse: null,
+    captureMethod: "client",
+    client: {
+      capturedAt: snapshot.capturedAt ? new Date(snapshot.capturedAt).toISOString() : null,
+      userAgent: snapshot.userAgent ?? null,
+      viewport: snapshot.viewport
+        ? { width: snapshot.viewport.width, height: snapshot.viewport.height, deviceScaleFactor: snapshot.viewport.deviceScaleFactor ?? 1 }
+        : null,
+    },
+  };
+}
@@ -0,0 +1,115 @@
+// src/storage/endpointHealth.ts
+import type { EndpointHealth } from "./types";
+
+export interface HealthOptions {
+  /** Consecutive failures that open the circuit. */
+  failureThreshold: number;
+  /** How long an open circuit stays open before one probe is let through. */
+  cooldownMs: number;
+}
+
+export interface HealthTracker {
+  /**
+   * Usable endpoints, best first. Open circuits are left out until their
+   * cooldown passes, unless every circuit is open.
+   */
+  rank(): string[];
+  recordSuccess(url: string, latencyMs: number): void;
+  recordFailure(url: string, error: string, latencyMs: number): void;
+  snapshot(): EndpointHealth[];
+}
+
+// Weight of the newest sample in the moving latency average
+const LATENCY_ALPHA = 0.3;
+
+/**
+ * Tracks latency and failures per endpoint with a simple circuit breaker:
+ * closed → (N consecutive failures) → open → (cooldown) → half-open →
+ * closed on the next success, open again on the next failure.
+ */
+export function createHealthTracker(urls: string[], options: HealthOptions): HealthTracker {
+  const entries = new Map<string, EndpointHealth>(
+    urls.map((url) => [url, {
+      url,
+      circuit: "closed",
+      successes: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      avgLatencyMs: null,
+      lastLatencyMs: null,
+      lastError: null,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      openedAt: null,
+    }])
+  );
+
+  const refresh = (entry: EndpointHealth) => {
+    if (entry.circuit === "open" && entry.openedAt && Date.now() - Date.parse(entry.openedAt) >= options.cooldownMs) {
+      entry.circuit = "half-open";
+    }
+  };
+
+  /** Lower is better: smoothed latency, penalised by failure rate. Untried endpoints go first. */
+  const score = (entry: EndpointHealth) => {
+    const attempts = entry.successes + entry.failures;
+    if (attempts === 0 || entry.avgLatencyMs === null) return 0;
+    const failureRate = entry.failures / attempts;
+    return entry.avgLatencyMs * (1 + 4 * failureRate) + (entry.circuit === "half-open" ? 1e6 : 0);
+  };
+
+  const sample = (entry: EndpointHealth, latencyMs: number) => {
+    entry.lastLatencyMs = latencyMs;
+    entry.avgLatencyMs = entry.avgLatencyMs === null
+      ? latencyMs
+      : Math.round(LATENCY_ALPHA * latencyMs + (1 - LATENCY_ALPHA) * entry.avgLatencyMs);
+  };
+
+  return {
+    rank() {
+      const usable = Array.from(entries.values()).filter((entry) => {
+        refresh(entry);
+        return entry.circuit !== "open";
+      });
+      if (usable.length === 0) {
+        // Everything is tripped: better to probe the longest-open endpoints than to fail outright
+        return Array.from(entries.values())
+          .sort((a, b) => Date.parse(a.openedAt ?? "") - Date.parse(b.openedAt ?? ""))
+          .map((entry) => entry.url);
+      }
+      return usable.sort((a, b) => score(a) - score(b)).map((entry) => entry.url);
+    },
+
+    recordSuccess(url, latencyMs) {
+      const entry = entries.get(url);
+      if (!entry) return;
+      sample(entry, latencyMs);
+      entry.successes++;
+      entry.consecutiveFailures = 0;
+      entry.lastSuccessAt = new Date().toISOString();
+      entry.circuit = "closed";
+      entry.openedAt = null;
+    },
+
+    recordFailure(url, error, latencyMs) {
+      const entry = entries.get(url);
+      if (!entry) return;
+      sample(entry, latencyMs);
+      entry.failures++;
+      entry.consecutiveFailures++;
+      entry.lastError = error;
+      entry.lastFailureAt = new Date().toISOString();
+      if (entry.circuit === "half-open" || entry.consecutiveFailures >= options.failureThreshold) {
+        entry.circuit = "open";
+        entry.openedAt = entry.lastFailureAt;
+      }
+    },
+
+    snapshot() {
+      return Array.from(entries.values()).map((entry) => {
+        refresh(entry);
+        return { ...entry };
+      });
+    },
+  };
+}
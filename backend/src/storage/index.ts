@@ -0,0 +1,99 @@
+// src/storage/index.ts
+import { dataPath } from "../dataStore";
+import { createLocalProvider } from "./local";
+import { createS3Provider } from "./s3";
+import { createWalrusProvider } from "./walrus";
+import type { StorageProvider } from "./types";
+
+export type { BlobExpiry, EndpointHealth, PutResult, StorageProvider } from "./types";
+
+export const STORAGE_PROVIDERS = ["walrus", "local", "s3"] as const;
+export type StorageProviderName = (typeof STORAGE_PROVIDERS)[number];
+
+const DEFAULT_WALRUS_PUBLISHERS = [
+  "https://publisher.walrus-testnet.walrus.space",
+  "https://walrus-testnet-publisher.stakely.io",
+  "https://walrus-testnet-publisher.nodes.guru",
+  "https://testnet-walrus-publisher.staketab.org",
+];
+
+const DEFAULT_WALRUS_AGGREGATORS = [
+  "https://aggregator.walrus-testnet.walrus.space",
+  "https://walrus-testnet-aggregator.nodes.guru",
+  "https://walrus-testnet-aggregator.stakely.io",
+  "https://testnet-walrus-aggregator.staketab.org",
+];
+
+function list(value: string | undefined, fallback: string[]): string[] {
+  const items = (value ?? "").split(",").map((s) => s.trim().replace(/\/+$/, "")).filter(Boolean);
+  return items.length > 0 ? items : fallback;
+}
+
+function selectedName(): StorageProviderName {
+  return (process.env.STORAGE_PROVIDER || "walrus") as StorageProviderName;
+}
+
+function createProvider(name: StorageProviderName): StorageProvider {
+  switch (name) {
+    case "walrus":
+      return createWalrusProvider({
+        publishers: list(process.env.WALRUS_PUBLISHERS, DEFAULT_WALRUS_PUBLISHERS),
+        aggregators: list(process.env.WALRUS_AGGREGATORS, DEFAULT_WALRUS_AGGREGATORS),
+        epochs: Number(process.env.WALRUS_EPOCHS || 5),
+        raceCount: Number(process.env.WALRUS_RACE_COUNT || 1),
+        timeoutMs: Number(process.env.WALRUS_TIMEOUT_MS || 60_000),
+        circuitFailureThreshold: Number(process.env.WALRUS_CIRCUIT_FAILURES || 3),
+        circuitCooldownMs: Number(process.env.WALRUS_CIRCUIT_COOLDOWN_MS || 60_000),
+      });
+
+    case "local":
+      return createLocalProvider(process.env.LOCAL_STORAGE_DIR || dataPath("blobs"));
+
+    case "s3":
+      if (!process.env.S3_BUCKET) throw new Error("STORAGE_PROVIDER=s3 requires S3_BUCKET");
+      return createS3Provider({
+        bucket: process.env.S3_BUCKET,
+        prefix: process.env.S3_PREFIX || "archives/",
+        region: process.env.S3_REGION || "us-east-1",
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      });
+
+    default:
+      throw new Error(`Unknown STORAGE_PROVIDER "${name}" (expected one of: ${STORAGE_PROVIDERS.join(", ")})`);
+  }
+}
+
+const providers = new Map<StorageProviderName, StorageProvider>();
+
+function providerNamed(name: StorageProviderName): StorageProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+/**
+ * The storage provider selected by STORAGE_PROVIDER, created on first use
+ * and shared by the archive pipeline and the blob read endpoint.
+ */
+export function getStorage(): StorageProvider {
+  const name = selectedName();
+  if (!providers.has(name)) console.log(`[STORAGE] Using ${name} provider`);
+  return providerNamed(name);
+}
+
+/**
+ * Every provider a blob could have been stored with, the selected one
+ * first: Walrus and local storage are always readable, S3 when S3_BUCKET
+ * is set. Archives on-chain don't record their provider, and
+ * STORAGE_PROVIDER may have changed since they were stored.
+ */
+export function getReadableStorages(): StorageProvider[] {
+  const names = STORAGE_PROVIDERS.filter((name) => name !== "s3" || process.env.S3_BUCKET);
+  return [getStorage(), ...names.filter((name) => name !== selectedName()).map(providerNamed)];
+}
@@ -0,0 +1,45 @@
+// src/storage/local.ts
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { StorageProvider } from "./types";
+
+/**
+ * Plain filesystem storage for local development and staging.
+ * Blobs are content-addressed: the blob id is the SHA-256 of the data.
+ */
+export function createLocalProvider(rootDir: string): StorageProvider {
+  const blobPath = (blobId: string) => {
+    if (!/^[0-9a-f]{64}$/.test(blobId)) throw new Error(`Invalid local blob id: ${blobId}`);
+    return path.join(rootDir, blobId);
+  };
+
+  return {
+    name: "local",
+
+    async put(data) {
+      const blobId = crypto.createHash("sha256").update(data).digest("hex");
+      await fs.mkdir(rootDir, { recursive: true });
+      await fs.writeFile(blobPath(blobId), data);
+      console.log(`[STORAGE] ✅ local ${blobId.slice(0, 12)}…`);
+      return { blobId, status: "active", expiry: { expiresAt: null } };
+    },
+
+    async get(blobId) {
+      return fs.readFile(blobPath(blobId));
+    },
+
+    async exists(blobId) {
+      try {
+        await fs.access(blobPath(blobId));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    async expiry() {
+      return { expiresAt: null };
+    },
+  };
+}
@@ -0,0 +1,79 @@
+// src/storage/s3.ts
+import crypto from "crypto";
+import {
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import type { StorageProvider } from "./types";
+
+export interface S3Config {
+  bucket: string;
+  prefix: string;
+  region: string;
+  endpoint?: string;
+  forcePathStyle: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+/**
+ * S3-compatible object storage (AWS, MinIO, R2, ...).
+ * Blobs are content-addressed: the blob id is the SHA-256 of the data.
+ */
+export function createS3Provider(config: S3Config): StorageProvider {
+  const client = new S3Client({
+    region: config.region,
+    endpoint: config.endpoint,
+    forcePathStyle: config.forcePathStyle,
+    credentials:
+      config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
+  });
+
+  const key = (blobId: string) => `${config.prefix}${blobId}`;
+
+  const head = async (blobId: string) => {
+    try {
+      return await client.send(new HeadObjectCommand({ Bucket: config.bucket, Key: key(blobId) }));
+    } catch (err: any) {
+      if (err?.$metadata?.httpStatusCode === 404) return null;
+      throw err;
+    }
+  };
+
+  return {
+    name: "s3",
+
+    async put(data) {
+      const blobId = crypto.createHash("sha256").update(data).digest("hex");
+      await client.send(new PutObjectCommand({
+        Bucket: config.bucket,
+        Key: key(blobId),
+        Body: data,
+        ContentType: "application/octet-stream",
+      }));
+      console.log(`[STORAGE] ✅ s3://${config.bucket}/${key(blobId)}`);
+      return { blobId, status: "active", expiry: { expiresAt: null } };
+    },
+
+    async get(blobId) {
+      const object = await client.send(new GetObjectCommand({ Bucket: config.bucket, Key: key(blobId) }));
+      if (!object.Body) throw new Error(`Blob ${blobId} has no body`);
+      return Buffer.from(await object.Body.transformToByteArray());
+    },
+
+    async exists(blobId) {
+      return (await head(blobId)) !== null;
+    },
+
+    /** Reads the lifecycle expiration S3 reports for the object, if any. */
+    async expiry(blobId) {
+      const object = await head(blobId);
+      const match = object?.Expiration?.match(/expiry-date="([^"]+)"/);
+      return { expiresAt: match ? new Date(match[1]).toISOString() : null };
+    },
+  };
+}
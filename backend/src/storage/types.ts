@@ -0,0 +1,45 @@
+// src/storage/types.ts
+
+/**
+ * A place archive blobs can be written to and read back from.
+ * Blob ids are whatever the backend hands out (Walrus blob id, content hash, ...)
+ * and are what ends up in `walrus_blob_id` on-chain.
+ */
+export interface StorageProvider {
+  readonly name: string;
+  put(data: Buffer): Promise<PutResult>;
+  get(blobId: string): Promise<Buffer>;
+  exists(blobId: string): Promise<boolean>;
+  /** When the blob stops being stored, if the backend knows. */
+  expiry(blobId: string): Promise<BlobExpiry>;
+  /** Per-endpoint health, for providers that talk to several endpoints. */
+  health?(): EndpointHealth[];
+}
+
+export interface PutResult {
+  blobId: string;
+  status: string;
+  expiry: BlobExpiry;
+}
+
+export interface BlobExpiry {
+  /** ISO timestamp, or null when the blob doesn't expire or it's unknown. */
+  expiresAt: string | null;
+  /** Walrus storage end epoch, when applicable. */
+  endEpoch?: number | null;
+}
+
+export interface EndpointHealth {
+  url: string;
+  circuit: "closed" | "open" | "half-open";
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  /** Exponentially weighted moving average. */
+  avgLatencyMs: number | null;
+  lastLatencyMs: number | null;
+  lastError: string | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  openedAt: string | null;
+}
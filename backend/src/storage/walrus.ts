@@ -0,0 +1,183 @@
+// src/storage/walrus.ts
+import { readJson, writeJson } from "../dataStore";
+import { createHealthTracker } from "./endpointHealth";
+import type { BlobExpiry, PutResult, StorageProvider } from "./types";
+
+export interface WalrusConfig {
+  publishers: string[];
+  aggregators: string[];
+  epochs: number;
+  /** How many of the best-ranked publishers to upload to in parallel; first success wins. */
+  raceCount: number;
+  /** Per-request timeout for publishers and aggregators. */
+  timeoutMs: number;
+  circuitFailureThreshold: number;
+  circuitCooldownMs: number;
+}
+
+const EXPIRY_FILE = "walrus-expiry.json";
+
+/**
+ * Walrus storage through HTTP publishers (writes) and aggregators (reads).
+ *
+ * Publishers are ranked by a health tracker (latency, failures, circuit
+ * breaker) instead of being tried in a fixed order.
+ *
+ * Walrus only reports a blob's end epoch in the upload response, so we keep
+ * the ones we've seen in DATA_DIR to answer `expiry` later.
+ */
+export function createWalrusProvider(config: WalrusConfig): StorageProvider {
+  let expiries: Record<string, BlobExpiry> | null = null;
+  const publisherHealth = createHealthTracker(config.publishers, {
+    failureThreshold: config.circuitFailureThreshold,
+    cooldownMs: config.circuitCooldownMs,
+  });
+
+  const knownExpiries = async () => {
+    if (!expiries) expiries = await readJson<Record<string, BlobExpiry>>(EXPIRY_FILE, {});
+    return expiries;
+  };
+
+  /** Tries each aggregator in order; returns the first OK response or null if none has it. */
+  const fromAggregators = async (blobId: string, method: "GET" | "HEAD"): Promise<Response | null> => {
+    let lastError: any = null;
+    let notFound = 0;
+
+    for (const baseUrl of config.aggregators) {
+      try {
+        const response = await fetch(`${baseUrl}/v1/blobs/${encodeURIComponent(blobId)}`, {
+          method,
+          signal: AbortSignal.timeout(config.timeoutMs),
+        });
+        if (response.ok) return response;
+        if (response.status === 404) notFound++;
+        lastError = new Error(`Status ${response.status}: ${response.statusText}`);
+      } catch (err: any) {
+        lastError = err;
+      }
+    }
+
+    if (notFound === config.aggregators.length) return null;
+    throw new Error(`All Walrus aggregators failed. Last error: ${lastError?.message}`);
+  };
+
+  return {
+    name: "walrus",
+
+    /**
+     * Uploads data to Walrus decentralized storage with automatic failover.
+     * Races the top `raceCount` publishers, then falls back to the rest one
+     * at a time. Every failure is logged and fed into the health tracker.
+     */
+    async put(fileBuffer) {
+      const ranked = publisherHealth.rank();
+      const errors: string[] = [];
+
+      for (let i = 0; i < ranked.length; ) {
+        const batch = ranked.slice(i, i + (i === 0 ? Math.max(1, config.raceCount) : 1));
+        i += batch.length;
+
+        const race = new AbortController();
+        let result: PutResult;
+        try {
+          result = await firstSuccess(batch.map((baseUrl) =>
+            uploadTo(baseUrl, fileBuffer, race.signal).catch((err: any) => {
+              // Losers we cancelled ourselves aren't failures
+              if (!race.signal.aborted) {
+                errors.push(`${new URL(baseUrl).hostname}: ${err?.message}`);
+                console.warn(`[WALRUS] ⚠️ ${new URL(baseUrl).hostname}: ${err?.message}`);
+              }
+              throw err;
+            })
+          ));
+          race.abort();
+        } catch {
+          continue; // Try the next-best publisher
+        }
+
+        // The blob is stored either way; without the record, expiry() just reports it unknown
+        try {
+          const known = await knownExpiries();
+          known[result.blobId] = result.expiry;
+          await writeJson(EXPIRY_FILE, known);
+        } catch (err: any) {
+          console.warn(`[WALRUS] ⚠️ Could not record the expiry of ${result.blobId}:`, err?.message);
+        }
+        return result;
+      }
+
+      throw new Error(`All Walrus publishers failed: ${errors.join("; ")}`);
+    },
+
+    async get(blobId) {
+      const response = await fromAggregators(blobId, "GET");
+      if (!response) throw new Error(`Blob ${blobId} not found on Walrus`);
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    async exists(blobId) {
+      return (await fromAggregators(blobId, "HEAD")) !== null;
+    },
+
+    async expiry(blobId) {
+      return (await knownExpiries())[blobId] ?? { expiresAt: null, endEpoch: null };
+    },
+
+    health() {
+      return publisherHealth.snapshot();
+    },
+  };
+
+  async function uploadTo(baseUrl: string, fileBuffer: Buffer, raceSignal: AbortSignal): Promise<PutResult> {
+    const startedAt = Date.now();
+    try {
+      const response = await fetch(`${baseUrl}/v1/blobs?epochs=${config.epochs}`, {
+        method: "PUT",
+        body: new Uint8Array(fileBuffer),
+        signal: AbortSignal.any([raceSignal, AbortSignal.timeout(config.timeoutMs)]),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Status ${response.status}: ${response.statusText}`);
+      }
+
+      const data: any = await response.json();
+
+      // Extract blob ID from response
+      let blobId: string;
+      let endEpoch: number | null = null;
+      if (data.newlyCreated) {
+        blobId = data.newlyCreated.blobObject.blobId;
+        endEpoch = data.newlyCreated.blobObject.storage?.endEpoch ?? null;
+      } else if (data.alreadyCertified) {
+        blobId = data.alreadyCertified.blobId;
+        endEpoch = data.alreadyCertified.endEpoch ?? null;
+      } else {
+        throw new Error("Invalid response structure from Walrus");
+      }
+
+      publisherHealth.recordSuccess(baseUrl, Date.now() - startedAt);
+      console.log(`[WALRUS] ✅ ${new URL(baseUrl).hostname} (${Date.now() - startedAt}ms)`);
+      return { blobId, status: "active", expiry: { expiresAt: null, endEpoch } };
+    } catch (err: any) {
+      if (!raceSignal.aborted) {
+        const message = err?.name === "TimeoutError" ? `Timed out after ${config.timeoutMs}ms` : err?.message ?? String(err);
+        publisherHealth.recordFailure(baseUrl, message, Date.now() - startedAt);
+        throw new Error(message);
+      }
+      throw err;
+    }
+  }
+}
+
+/** Resolves with the first promise to fulfil; rejects only if all of them reject. */
+function firstSuccess<T>(promises: Promise<T>[]): Promise<T> {
+  return new Promise((resolve, reject) => {
+    let rejected = 0;
+    for (const promise of promises) {
+      promise.then(resolve, (err) => {
+        if (++rejected === promises.length) reject(err);
+      });
+    }
+  });
+}
@@ -1,15 +1,15 @@
 // src/suiClient.ts
 import dotenv from "dotenv";
-import { SuiClient, getFullnodeUrl } from "@mysten/sui.js/client";
+import { SuiClient, SuiTransactionBlockResponseOptions, getFullnodeUrl } from "@mysten/sui.js/client";
 import { Ed25519Keypair } from "@mysten/sui.js/keypairs/ed25519";
 import { TransactionBlock } from "@mysten/sui.js/transactions";
 import { decodeSuiPrivateKey } from "@mysten/sui.js/cryptography";
+import type { CaptureMethod } from "./archive";
 
 dotenv.config();
 
 const RPC_URL = process.env.SUI_RPC_URL || getFullnodeUrl("testnet");
 const PACKAGE_ID = process.env.SUI_PACKAGE_ID!;
-const REGISTRY_ID = process.env.SUI_REGISTRY_ID!;
 const SUI_PRIVATE_KEY = process.env.SUI_PRIVATE_KEY;
 
 if (!SUI_PRIVATE_KEY) {
@@ -26,22 +26,147 @@ if (schema !== "ED25519") {
 const keypair = Ed25519Keypair.fromSecretKey(secretKey);
 const client = new SuiClient({ url: RPC_URL });
 
+/** Read-only access for the event indexer; writes go through the helpers below. */
+export { client as suiClient };
+
+// Every transaction is sent from one address and pays gas with its coins.
+// Two built at the same time can pick the same gas coin (or the same owned
+// URLRegistry version) and equivocate, which locks the object until the
+// end of the epoch, so they are sent one at a time.
+let signerQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Signs and executes `tx` with the backend's key once every earlier
+ * transaction has been executed and indexed, so the next one is built
+ * against the new object versions. `onExecuted` gets the digest before
+ * the wait, so a caller whose wait fails can look the transaction up
+ * instead of sending it again.
+ */
+function executeTransaction(
+  tx: TransactionBlock,
+  options: SuiTransactionBlockResponseOptions,
+  onExecuted?: (digest: string) => Promise<void>
+) {
+  const run = signerQueue.catch(() => undefined).then(async () => {
+    const result = await client.signAndExecuteTransactionBlock({ signer: keypair, transactionBlock: tx, options });
+    await onExecuted?.(result.digest);
+    await client.waitForTransactionBlock({ digest: result.digest });
+    return result;
+  });
+  signerQueue = run;
+  return run;
+}
+
+/**
+ * The backend's Sui address: sender of every archive transaction (so it is
+ * the `captured_by` of each Archive object) and signer of capture attestations.
+ */
+export function backendAddress(): string {
+  return keypair.toSuiAddress();
+}
+
+/**
+ * Signs `message` as a Sui personal message. Returns the serialized
+ * signature (scheme flag, signature and public key, base64), which
+ * verifyPersonalMessage from @mysten/sui.js/verify checks offline.
+ */
+export async function signPersonalMessage(message: Uint8Array): Promise<string> {
+  const { signature } = await keypair.signPersonalMessage(message);
+  return signature;
+}
+
 export interface OnChainArchiveParams {
-  url: string;
+  url: string; // canonical; the registry key
+  /** The URL as submitted, with its query and fragment. */
+  originalUrl: string;
+  registryId: string; // URLRegistry for this canonical URL
   walrusBlobId: string;
   tuskyFileId: string;
   contentHashHex: string; // sha256 hex string
   title: string;
+  encryption: ArchiveEncryption;
+  captureMethod: CaptureMethod;
+  mimeType: string; // of the archived content, see ArchiveResult.mimeType
+}
+
+/** capture_method values of create_archive_v2. */
+export const CAPTURE_METHOD_CODES: Record<CaptureMethod, number> = { server: 0, client: 1 };
+
+/** Stored next to each archive so readers don't have to guess from the blob or title. */
+export interface ArchiveEncryption {
+  isSealed: boolean;
+  /** Sealed-envelope format version; 0 when not sealed. */
+  envelopeVersion: number;
+  /** Hex SHA-256 fingerprints of the recipients' SPKI keys. */
+  recipientFingerprints: string[];
 }
 
 /**
- * Calls archivechain::registry::create_archive on Sui testnet.
+ * Calls archivechain::registry::create_registry for a URL not tracked yet.
+ * The registry is owned by the backend's address.
+ */
+export async function createOnChainRegistry(url: string) {
+  const tx = new TransactionBlock();
+  tx.moveCall({
+    target: `${PACKAGE_ID}::registry::create_registry`,
+    arguments: [tx.pure.string(url)],
+  });
+
+  const result = await executeTransaction(tx, {
+    showEffects: true,
+    showObjectChanges: true,
+  });
+
+  const created = result.objectChanges?.find(
+    (change) => change.type === "created" && change.objectType.endsWith("::registry::URLRegistry")
+  );
+  if (!created || created.type !== "created") {
+    throw new Error(`create_registry succeeded (${result.digest}) but no URLRegistry was created`);
+  }
+
+  return {
+    digest: result.digest,
+    registryId: created.objectId,
+  };
+}
+
+/**
+ * Every URLRegistry owned by the backend's address, keyed by the URL it
+ * tracks. Used to rebuild the local URL → registry mapping.
+ */
+export async function listOwnedRegistries(): Promise<Map<string, string>> {
+  const registries = new Map<string, string>();
+  let cursor: string | null | undefined = null;
+
+  do {
+    const page = await client.getOwnedObjects({
+      owner: keypair.toSuiAddress(),
+      filter: { StructType: `${PACKAGE_ID}::registry::URLRegistry` },
+      options: { showContent: true },
+      cursor,
+    });
+    for (const obj of page.data) {
+      if (obj.data?.content?.dataType !== "moveObject") continue;
+      const fields = obj.data.content.fields as any;
+      registries.set(fields.url, obj.data.objectId);
+    }
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+
+  return registries;
+}
+
+/**
+ * Calls archivechain::registry::create_archive_v2 on Sui testnet, which
+ * also records the encryption metadata, the capture method and the
+ * original URL.
  * Returns tx digest + new archive object id if found.
  */
 export async function createOnChainArchive(
-  params: OnChainArchiveParams
+  params: OnChainArchiveParams,
+  onExecuted?: (digest: string) => Promise<void>
 ) {
-  const { url, walrusBlobId, tuskyFileId, contentHashHex, title } = params;
+  const { url, originalUrl, registryId, walrusBlobId, tuskyFileId, contentHashHex, title, encryption, captureMethod, mimeType } = params;
 
   const tx = new TransactionBlock();
 
@@ -50,51 +175,129 @@ export async function createOnChainArchive(
     ? contentHashHex.slice(2)
     : contentHashHex;
   const hashBytes = Buffer.from(hex, "hex");
+  const fingerprints = encryption.recipientFingerprints.map((f) => Array.from(Buffer.from(f, "hex")));
 
   tx.moveCall({
-    target: `${PACKAGE_ID}::registry::create_archive`,
+    target: `${PACKAGE_ID}::registry::create_archive_v2`,
     arguments: [
       tx.pure.string(url),
       tx.pure.string(walrusBlobId),
       tx.pure.string(tuskyFileId),
       tx.pure(Array.from(hashBytes)), // vector<u8>
       tx.pure.string(title),
-      tx.object(REGISTRY_ID), // &mut URLRegistry
+      tx.pure.bool(encryption.isSealed),
+      tx.pure.u8(encryption.envelopeVersion),
+      tx.pure(fingerprints), // vector<vector<u8>>
+      tx.pure.u8(CAPTURE_METHOD_CODES[captureMethod]),
+      tx.pure.string(originalUrl),
+      tx.pure.string(mimeType),
+      tx.object(registryId), // &mut URLRegistry
       tx.object("0x6"), // &Clock (global shared object)
     ],
   });
 
-  const result = await client.signAndExecuteTransactionBlock({
-    signer: keypair,
-    transactionBlock: tx,
-    options: {
+  const result = await executeTransaction(
+    tx,
+    {
       showEffects: true,
       showEvents: true,
     },
-  });
+    onExecuted
+  );
 
-  const digest = result.digest;
-  let archiveId: string | null = null;
-
-  if (result.events) {
-    for (const ev of result.events as any[]) {
-      if (
-        ev.type &&
-        typeof ev.type === "string" &&
-        ev.type.endsWith("::registry::ArchiveCreated")
-      ) {
-        const parsed = ev.parsedJson;
-        if (parsed && parsed.archive_id) {
-          archiveId = parsed.archive_id as string;
-          break;
-        }
-      }
+  return {
+    digest: result.digest,
+    archiveId: archiveIdOf(result.events ?? []),
+    raw: result,
+  };
+}
+
+function archiveIdOf(events: any[]): string | null {
+  for (const ev of events) {
+    if (
+      ev.type &&
+      typeof ev.type === "string" &&
+      ev.type.endsWith("::registry::ArchiveCreated")
+    ) {
+      const parsed = ev.parsedJson;
+      if (parsed && parsed.archive_id) return parsed.archive_id as string;
     }
   }
+  return null;
+}
+
+/**
+ * Outcome of a create_archive transaction sent earlier whose confirmation
+ * was lost. Null when it failed on-chain, so no Archive was created.
+ * @throws Error if the RPC node doesn't know the transaction (yet)
+ */
+export async function findOnChainArchive(digest: string): Promise<{ digest: string; archiveId: string | null } | null> {
+  const tx = await client.getTransactionBlock({ digest, options: { showEffects: true, showEvents: true } });
+  if (tx.effects?.status.status !== "success") return null;
+  return { digest, archiveId: archiveIdOf(tx.events ?? []) };
+}
 
+/** Current state of a URLRegistry, or null if the object can't be read. */
+export async function getOnChainRegistry(registryId: string) {
+  const obj = await client.getObject({ id: registryId, options: { showContent: true } });
+  if (obj.data?.content?.dataType !== "moveObject") return null;
+
+  const fields = obj.data.content.fields as any;
   return {
-    digest,
-    archiveId,
-    raw: result,
+    registryId,
+    url: fields.url as string,
+    totalVersions: Number(fields.total_versions),
+    latestArchiveId: (fields.latest_archive_id ?? null) as string | null,
+    archiveIds: (fields.all_archive_ids ?? []) as string[],
   };
 }
+
+export interface OnChainArchive {
+  archiveId: string;
+  url: string;
+  title: string;
+  walrusBlobId: string;
+  tuskyFileId: string;
+  /** 0x-prefixed SHA-256 hex of content_hash. */
+  contentHash: string;
+  versionNumber: number;
+  previousArchiveId: string | null;
+  capturedAtMs: number;
+  capturedBy: string;
+  /** The create_archive transaction (archives are frozen, so it's the last one to touch them). */
+  txDigest: string | null;
+}
+
+function toHex(bytes: unknown): string {
+  return Array.isArray(bytes)
+    ? "0x" + bytes.map((b: number) => b.toString(16).padStart(2, "0")).join("")
+    : "0x";
+}
+
+/**
+ * Loads Archive objects by id (at most 50 per call, the RPC limit).
+ * Ids that don't resolve to an Archive map to null.
+ */
+export async function getOnChainArchives(ids: string[]): Promise<(OnChainArchive | null)[]> {
+  const objects = await client.multiGetObjects({ ids, options: { showContent: true, showPreviousTransaction: true } });
+
+  return objects.map((obj) => {
+    if (obj.data?.content?.dataType !== "moveObject" || !obj.data.content.type.endsWith("::registry::Archive")) {
+      return null;
+    }
+    const f = obj.data.content.fields as any;
+    return {
+      archiveId: obj.data.objectId,
+      url: f.url,
+      title: f.title,
+      walrusBlobId: f.walrus_blob_id,
+      tuskyFileId: f.tusky_file_id,
+      contentHash: toHex(f.content_hash),
+      versionNumber: Number(f.version_number),
+      previousArchiveId: f.previous_archive_id ?? null,
+      capturedAtMs: Number(f.captured_at_ms),
+      capturedBy: f.captured_by,
+      txDigest: obj.data.previousTransaction ?? null,
+    };
+  });
+}
@@ -0,0 +1,33 @@
+// src/urlPattern.ts
+
+/**
+ * URL globs for crawl scopes (include / exclude). They match the whole
+ * URL: `*` stands for any run of characters and everything else for
+ * itself, e.g. "https://example.com/blog/*".
+ */
+
+/** A URL glob split at its wildcards. */
+export type UrlPattern = string[];
+
+export function compilePattern(pattern: string): UrlPattern {
+  return pattern.split("*");
+}
+
+/**
+ * Each literal part is located with one indexOf (the leftmost fit is
+ * always a valid one), so a pattern from a request can't make matching
+ * backtrack the way a regular expression can.
+ */
+export function matchesPattern(parts: UrlPattern, url: string): boolean {
+  const first = parts[0];
+  if (parts.length === 1) return url === first;
+  const last = parts[parts.length - 1];
+  if (!url.startsWith(first)) return false;
+  let at = first.length;
+  for (const part of parts.slice(1, -1)) {
+    const found = url.indexOf(part, at);
+    if (found === -1) return false;
+    at = found + part.length;
+  }
+  return url.length - last.length >= at && url.endsWith(last);
+}
@@ -0,0 +1,187 @@
+// src/verify.ts
+import { sha256Hex } from "./archive";
+import { canonicalizeUrl } from "./canonicalUrl";
+import { getReadableStorages } from "./storage";
+import { getOnChainArchives, OnChainArchive } from "./suiClient";
+import type { BlobExpiry } from "./storage";
+import { AttestationCheck, checkArchiveAttestation } from "./attestation";
+import { sniffMimeType } from "../../shared/resource";
+
+/**
+ * Independent integrity check of an on-chain Archive: the stored blob is
+ * fetched again and hashed, and the provenance link is followed one step
+ * back. Nothing here trusts local job state or the archive index.
+ */
+
+export type Verdict = "verified" | "hash_mismatch" | "blob_unavailable" | "no_hash";
+
+export interface VerificationReport {
+  archiveId: string;
+  checkedAt: string;
+  /** Integrity only: whether the stored bytes are the bytes that were anchored. */
+  verdict: Verdict;
+  archive: OnChainArchive;
+  blob: {
+    /** The provider the blob was read from, or the selected one when none had it. */
+    provider: string;
+    blobId: string;
+    retrievable: boolean;
+    size: number | null;
+    /** Sniffed from the bytes: application/zip for packaged archives. */
+    mimeType: string | null;
+    fetchMs: number | null;
+    expiry: BlobExpiry | null;
+    error: string | null;
+  };
+  hash: {
+    expected: string;
+    actual: string | null;
+    match: boolean | null;
+  };
+  /**
+   * The archive's signed capture attestation, checked against the
+   * Archive's `captured_by`. Null when the blob is sealed or unavailable.
+   */
+  attestation: AttestationCheck | null;
+  previous: {
+    archiveId: string | null;
+    /** The previous Archive object exists on-chain. */
+    found: boolean | null;
+    sameUrl: boolean | null;
+    /** Captured no later than this archive. */
+    earlier: boolean | null;
+    /** version_number is exactly one lower. */
+    sequential: boolean | null;
+    /**
+     * Links to an earlier version of the same page. For a first version
+     * (no previous id) this is true when version_number is 1.
+     */
+    linksToEarlierVersion: boolean;
+  };
+}
+
+function sameCanonicalUrl(a: string, b: string): boolean {
+  try {
+    return canonicalizeUrl(a) === canonicalizeUrl(b);
+  } catch {
+    return a === b;
+  }
+}
+
+function checkPrevious(archive: OnChainArchive, previous: OnChainArchive | null): VerificationReport["previous"] {
+  if (!archive.previousArchiveId) {
+    return {
+      archiveId: null,
+      found: null,
+      sameUrl: null,
+      earlier: null,
+      sequential: null,
+      linksToEarlierVersion: archive.versionNumber === 1,
+    };
+  }
+  if (!previous) {
+    return {
+      archiveId: archive.previousArchiveId,
+      found: false,
+      sameUrl: null,
+      earlier: null,
+      sequential: null,
+      linksToEarlierVersion: false,
+    };
+  }
+
+  const sameUrl = sameCanonicalUrl(previous.url, archive.url);
+  const earlier = previous.capturedAtMs <= archive.capturedAtMs;
+  const sequential = previous.versionNumber === archive.versionNumber - 1;
+  return {
+    archiveId: archive.previousArchiveId,
+    found: true,
+    sameUrl,
+    earlier,
+    sequential,
+    linksToEarlierVersion: sameUrl && earlier && sequential,
+  };
+}
+
+/** Returns null when `archiveId` isn't an Archive object. */
+export async function verifyArchive(archiveId: string): Promise<VerificationReport | null> {
+  const [archive] = await getOnChainArchives([archiveId]);
+  if (!archive) return null;
+
+  const previous = archive.previousArchiveId
+    ? (await getOnChainArchives([archive.previousArchiveId]))[0]
+    : null;
+
+  const storages = getReadableStorages();
+  let storage = storages[0];
+  const blob: VerificationReport["blob"] = {
+    provider: storage.name,
+    blobId: archive.walrusBlobId,
+    retrievable: false,
+    size: null,
+    mimeType: null,
+    fetchMs: null,
+    expiry: null,
+    error: null,
+  };
+
+  const expected = archive.contentHash.replace(/^0x/, "").toLowerCase();
+  let actual: string | null = null;
+  let attestation: AttestationCheck | null = null;
+  const startedAt = Date.now();
+  const errors: string[] = [];
+  let data: Buffer | null = null;
+  // Whichever provider still has it
+  for (const candidate of storages) {
+    try {
+      data = await candidate.get(archive.walrusBlobId);
+      storage = candidate;
+      break;
+    } catch (err: any) {
+      errors.push(`${candidate.name}: ${err?.message ?? "Blob read failed"}`);
+    }
+  }
+  blob.fetchMs = Date.now() - startedAt;
+
+  if (data) {
+    blob.provider = storage.name;
+    blob.retrievable = true;
+    blob.size = data.length;
+    actual = sha256Hex(data);
+    // Sealed envelopes can't be opened here; pages and documents are packaged as zip files
+    blob.mimeType = sniffMimeType(data);
+    if (blob.mimeType === "application/zip") {
+      attestation = await checkArchiveAttestation(data, archive.capturedBy).catch((err: any) => {
+        blob.error = err?.message ?? "Attestation check failed";
+        return null;
+      });
+    }
+  } else {
+    blob.error = errors.join("; ");
+  }
+
+  if (blob.retrievable) {
+    try {
+      blob.expiry = await storage.expiry(archive.walrusBlobId);
+    } catch (err: any) {
+      console.warn(`[VERIFY] Expiry lookup failed for ${archive.walrusBlobId}:`, err?.message);
+    }
+  }
+
+  const match = actual === null || !expected ? null : actual === expected;
+  const verdict: Verdict =
+    !blob.retrievable ? "blob_unavailable" :
+    !expected ? "no_hash" :
+    match ? "verified" : "hash_mismatch";
+
+  return {
+    archiveId: archive.archiveId,
+    checkedAt: new Date().toISOString(),
+    verdict,
+    archive,
+    blob,
+    hash: { expected: expected ? `0x${expected}` : "", actual: actual ? `0x${actual}` : null, match },
+    attestation,
+    previous: checkPrevious(archive, previous),
+  };
+}
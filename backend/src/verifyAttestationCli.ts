@@ -0,0 +1,51 @@
+// src/verifyAttestationCli.ts
+import fs from "fs";
+import { checkArchiveAttestation } from "./attestation";
+
+/**
+ * Offline check of a downloaded (and, if sealed, decrypted) archive:
+ *
+ *   npm run verify-attestation -- <archive.zip|archive.wacz> [sui-address]
+ *
+ * Pass the Archive object's `captured_by` as the address to confirm the
+ * archive was attested by the backend that anchored it. Exits non-zero
+ * unless everything verifies.
+ */
+
+async function main() {
+  const [file, expectedSigner] = process.argv.slice(2);
+  if (!file) {
+    console.error("Usage: verify-attestation <archive.zip|archive.wacz> [sui-address]");
+    process.exit(2);
+  }
+
+  const check = await checkArchiveAttestation(fs.readFileSync(file), expectedSigner);
+  const { attestation } = check;
+
+  if (attestation) {
+    console.log(`URL:          ${attestation.url}`);
+    console.log(`Final URL:    ${attestation.finalUrl ?? "-"}`);
+    console.log(`Captured at:  ${attestation.capturedAt}`);
+    console.log(`Captured by:  ${attestation.captureMethod === "client" ? "client (submitted from a user's browser)" : "server"}`);
+    if (attestation.mimeType) console.log(`Content type: ${attestation.mimeType}`);
+    console.log(`Browser:      ${attestation.capture.browserVersion ?? "-"}`);
+    console.log(`Signer:       ${attestation.signer}`);
+    console.log(`Files:        ${Object.keys(attestation.files).length}`);
+  }
+  console.log(`Signature:    ${check.signatureValid ? "valid" : "INVALID"}`);
+  if (check.signerMatches !== null) {
+    console.log(`Signer match: ${check.signerMatches ? "yes" : `NO (signed by ${check.recoveredSigner ?? "unknown"})`}`);
+  }
+  for (const path of check.mismatched) console.log(`Modified:     ${path}`);
+  for (const path of check.missing) console.log(`Missing:      ${path}`);
+  for (const path of check.unattested) console.log(`Not attested: ${path}`);
+  if (check.error) console.log(`Error:        ${check.error}`);
+
+  console.log(check.valid ? "✅ Attestation verified" : "❌ Attestation NOT verified");
+  process.exit(check.valid ? 0 : 1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(2);
+});
@@ -0,0 +1,224 @@
+// src/warc.ts
+import crypto from "crypto";
+import JSZip from "jszip";
+import type { HttpExchange, PageCapture } from "./archive";
+
+/**
+ * WARC 1.1 writer and WACZ 1.1.1 packager for captures recorded with
+ * `recordNetwork`. The output replays in pywb and ReplayWeb.page.
+ */
+
+const WARC_FILENAME = "data.warc";
+const SOFTWARE = "ArchiveChain";
+const CRLF = "\r\n";
+
+// Headers that describe the wire encoding. Puppeteer hands us decoded
+// bodies, so these would lie about the payload we actually store.
+const WIRE_HEADERS = new Set(["content-encoding", "transfer-encoding", "content-length"]);
+
+function sha256(data: Uint8Array | string): Buffer {
+  return crypto.createHash("sha256").update(data).digest();
+}
+
+/** RFC 4648 base32, the conventional encoding for WARC digests. */
+function base32(bytes: Uint8Array): string {
+  const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += alphabet[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += alphabet[(value << (5 - bits)) & 31];
+  return out;
+}
+
+function warcDigest(data: Uint8Array | string): string {
+  return `sha256:${base32(sha256(data))}`;
+}
+
+/** 14-digit WARC/CDX timestamp, e.g. 20250101120000. */
+function cdxTimestamp(iso: string): string {
+  return iso.replace(/[-:T]/g, "").slice(0, 14);
+}
+
+/**
+ * Sort-friendly URI Reordering Transform used as the CDXJ key,
+ * e.g. https://www.example.com/a?b → com,example)/a?b
+ */
+export function toSurt(url: string): string {
+  const u = new URL(url);
+  const host = u.hostname.toLowerCase().replace(/^www\./, "").split(".").reverse().join(",");
+  const port = u.port ? `:${u.port}` : "";
+  return `${host}${port})${u.pathname}${u.search}`.toLowerCase();
+}
+
+function warcRecord(headers: Record<string, string>, block: Buffer): Buffer {
+  const head =
+    "WARC/1.1" + CRLF +
+    Object.entries({ ...headers, "Content-Length": String(block.length) })
+      .map(([k, v]) => `${k}: ${v}`)
+      .join(CRLF) +
+    CRLF + CRLF;
+  return Buffer.concat([Buffer.from(head, "utf8"), block, Buffer.from(CRLF + CRLF)]);
+}
+
+function httpRequestBlock(ex: HttpExchange): Buffer {
+  const u = new URL(ex.url);
+  const lines = [`${ex.method} ${u.pathname}${u.search} HTTP/1.1`];
+  if (!Object.keys(ex.requestHeaders).some((k) => k.toLowerCase() === "host")) {
+    lines.push(`Host: ${u.host}`);
+  }
+  for (const [k, v] of Object.entries(ex.requestHeaders)) lines.push(`${k}: ${v}`);
+  return Buffer.concat([
+    Buffer.from(lines.join(CRLF) + CRLF + CRLF, "utf8"),
+    Buffer.from(ex.requestBody ?? "", "utf8"),
+  ]);
+}
+
+function httpResponseBlock(ex: HttpExchange): Buffer {
+  const lines = [`HTTP/1.1 ${ex.status} ${ex.statusText || ""}`.trimEnd()];
+  for (const [k, v] of Object.entries(ex.responseHeaders)) {
+    if (WIRE_HEADERS.has(k.toLowerCase())) continue;
+    // Puppeteer joins repeated headers (e.g. set-cookie) with newlines
+    for (const part of v.split("\n")) lines.push(`${k}: ${part}`);
+  }
+  lines.push(`Content-Length: ${ex.body.length}`);
+  return Buffer.concat([Buffer.from(lines.join(CRLF) + CRLF + CRLF, "utf8"), Buffer.from(ex.body)]);
+}
+
+interface IndexedWarc {
+  warc: Buffer;
+  cdxj: string;
+}
+
+/**
+ * Serializes the exchanges as a warcinfo record followed by a
+ * response/request record pair per exchange, and builds the CDXJ index.
+ */
+export function buildWarc(exchanges: HttpExchange[], capturedAt: string): IndexedWarc {
+  const chunks: Buffer[] = [];
+  const index: string[] = [];
+  let offset = 0;
+
+  const push = (record: Buffer) => {
+    chunks.push(record);
+    offset += record.length;
+  };
+
+  const info = Buffer.from(
+    [`software: ${SOFTWARE}`, "format: WARC File Format 1.1", "conformsTo: https://iipc.github.io/warc-specifications/specifications/warc-format/warc-1.1/"].join(CRLF) + CRLF,
+    "utf8"
+  );
+  push(warcRecord({
+    "WARC-Type": "warcinfo",
+    "WARC-Record-ID": `<urn:uuid:${crypto.randomUUID()}>`,
+    "WARC-Date": capturedAt,
+    "WARC-Filename": WARC_FILENAME,
+    "Content-Type": "application/warc-fields",
+  }, info));
+
+  for (const ex of exchanges) {
+    const responseId = `<urn:uuid:${crypto.randomUUID()}>`;
+    const responseBlock = httpResponseBlock(ex);
+    const payloadDigest = warcDigest(ex.body);
+
+    const responseRecord = warcRecord({
+      "WARC-Type": "response",
+      "WARC-Record-ID": responseId,
+      "WARC-Date": ex.fetchedAt,
+      "WARC-Target-URI": ex.url,
+      ...(ex.remoteAddress ? { "WARC-IP-Address": ex.remoteAddress } : {}),
+      "WARC-Payload-Digest": payloadDigest,
+      "WARC-Block-Digest": warcDigest(responseBlock),
+      "Content-Type": "application/http; msgtype=response",
+    }, responseBlock);
+
+    const mime = (ex.responseHeaders["content-type"] ?? "").split(";")[0].trim();
+    index.push(`${toSurt(ex.url)} ${cdxTimestamp(ex.fetchedAt)} ${JSON.stringify({
+      url: ex.url,
+      mime: mime || "unk",
+      status: String(ex.status),
+      digest: payloadDigest,
+      length: String(responseRecord.length),
+      offset: String(offset),
+      filename: WARC_FILENAME,
+    })}`);
+    push(responseRecord);
+
+    const requestBlock = httpRequestBlock(ex);
+    push(warcRecord({
+      "WARC-Type": "request",
+      "WARC-Record-ID": `<urn:uuid:${crypto.randomUUID()}>`,
+      "WARC-Date": ex.fetchedAt,
+      "WARC-Target-URI": ex.url,
+      "WARC-Concurrent-To": responseId,
+      "WARC-Block-Digest": warcDigest(requestBlock),
+      "Content-Type": "application/http; msgtype=request",
+    }, requestBlock));
+  }
+
+  index.sort();
+  return { warc: Buffer.concat(chunks), cdxj: index.join("\n") + "\n" };
+}
+
+/**
+ * Packages a capture as a WACZ: the WARC, its CDXJ index, a pages list and
+ * a datapackage.json listing every file's SHA-256, plus the digest of the
+ * datapackage itself. `extraFiles` (e.g. manifest.json) go in next to
+ * them. Entries are stored uncompressed, as the spec requires
+ * for random access by replay tools.
+ */
+export async function buildWacz(
+  capture: PageCapture,
+  title: string,
+  extraFiles: Record<string, string | Uint8Array> = {}
+): Promise<Buffer> {
+  const exchanges = capture.exchanges ?? [];
+  const { warc, cdxj } = buildWarc(exchanges, capture.capturedAt);
+
+  const pages =
+    JSON.stringify({ format: "json-pages-1.0", id: "pages", title: "All Pages" }) + "\n" +
+    JSON.stringify({ id: crypto.randomUUID(), url: capture.url, ts: capture.capturedAt, title }) + "\n";
+
+  const files: Record<string, Buffer> = {
+    [`archive/${WARC_FILENAME}`]: warc,
+    "indexes/index.cdxj": Buffer.from(cdxj, "utf8"),
+    "pages/pages.jsonl": Buffer.from(pages, "utf8"),
+  };
+  // Listed in datapackage.json like the WACZ files, so the digest covers them
+  for (const [path, data] of Object.entries(extraFiles)) files[path] = Buffer.from(data);
+
+  const datapackage = Buffer.from(JSON.stringify({
+    profile: "data-package",
+    wacz_version: "1.1.1",
+    title,
+    created: capture.capturedAt,
+    software: SOFTWARE,
+    mainPageURL: capture.url,
+    mainPageDate: capture.capturedAt,
+    resources: Object.entries(files).map(([path, data]) => ({
+      name: path.split("/").pop(),
+      path,
+      hash: `sha256:${sha256(data).toString("hex")}`,
+      bytes: data.length,
+    })),
+  }, null, 2), "utf8");
+
+  const digest = JSON.stringify({
+    path: "datapackage.json",
+    hash: `sha256:${sha256(datapackage).toString("hex")}`,
+  }, null, 2);
+
+  const zip = new JSZip();
+  for (const [path, data] of Object.entries(files)) zip.file(path, data, { createFolders: false });
+  zip.file("datapackage.json", datapackage, { createFolders: false });
+  zip.file("datapackage-digest.json", digest, { createFolders: false });
+
+  return zip.generateAsync({ type: "nodebuffer", compression: "STORE" });
+}
@@ -0,0 +1,211 @@
+// src/watches.ts
+import crypto from "crypto";
+import { readJson, writeJson } from "./dataStore";
+import { ArchiveJob, createArchiveJob, getJob, isFinished, waitForJob } from "./jobs";
+import type { CaptureOptions } from "./captureProfiles";
+
+/**
+ * Watchlist: URLs that are re-captured on an interval and re-archived
+ * only when their visible text actually changed.
+ */
+
+const WATCHES_FILE = "watches.json";
+const TICK_MS = Number(process.env.WATCH_TICK_MS || 30_000);
+// How long a tick waits for a watch's job before moving on to the next watch
+const JOB_WAIT_MS = Number(process.env.WATCH_JOB_WAIT_MS || 10 * 60_000);
+export const MIN_INTERVAL_MINUTES = 5;
+
+export interface WatchRun {
+  at: string;
+  durationMs: number;
+  status: "archived" | "unchanged" | "error";
+  jobId?: string;
+  textHashHex?: string;
+  contentHashHex?: string;
+  walrusBlobId?: string;
+  suiTxDigest?: string | null;
+  suiArchiveId?: string | null;
+  error?: string;
+}
+
+export interface Watch {
+  id: string;
+  url: string;
+  title: string;
+  intervalMinutes: number;
+  /** Used for every capture, so text hashes stay comparable between runs. */
+  captureOptions?: CaptureOptions;
+  createdAt: string;
+  nextRunAt: string;
+  /** Text hash of the last capture that was actually archived. */
+  lastArchivedTextHashHex: string | null;
+  lastArchivedContentHashHex: string | null;
+  lastRun: WatchRun | null;
+  /** Job of the capture in progress; saved before waiting so a restart picks it up again. */
+  pendingJobId: string | null;
+}
+
+let watches: Watch[] = [];
+let loaded = false;
+let ticking = false;
+let timer: NodeJS.Timeout | null = null;
+
+async function persist() {
+  await writeJson(WATCHES_FILE, watches);
+}
+
+export async function loadWatches(): Promise<void> {
+  if (loaded) return;
+  watches = await readJson<Watch[]>(WATCHES_FILE, []);
+  loaded = true;
+}
+
+export function listWatches(): Watch[] {
+  return watches;
+}
+
+export function getWatch(id: string): Watch | undefined {
+  return watches.find((w) => w.id === id);
+}
+
+export async function addWatch(input: {
+  url: string;
+  title: string;
+  intervalMinutes: number;
+  captureOptions?: CaptureOptions;
+}): Promise<Watch> {
+  const now = new Date();
+  const watch: Watch = {
+    id: crypto.randomUUID(),
+    url: input.url,
+    title: input.title,
+    intervalMinutes: input.intervalMinutes,
+    ...(input.captureOptions ? { captureOptions: input.captureOptions } : {}),
+    createdAt: now.toISOString(),
+    nextRunAt: now.toISOString(), // first capture on the next tick
+    lastArchivedTextHashHex: null,
+    lastArchivedContentHashHex: null,
+    lastRun: null,
+    pendingJobId: null,
+  };
+  watches.push(watch);
+  await persist();
+  return watch;
+}
+
+export async function removeWatch(id: string): Promise<boolean> {
+  const before = watches.length;
+  watches = watches.filter((w) => w.id !== id);
+  if (watches.length === before) return false;
+  await persist();
+  return true;
+}
+
+/**
+ * Starts a capture of the watch's URL through the job pipeline. The job
+ * stops right after capture if the text hash equals the last archived
+ * capture.
+ */
+function startWatchJob(watch: Watch): Promise<ArchiveJob> {
+  return createArchiveJob(
+    { url: watch.url, title: watch.title, captureOptions: watch.captureOptions },
+    { skipIfTextHashHex: watch.lastArchivedTextHashHex }
+  );
+}
+
+/**
+ * Waits up to JOB_WAIT_MS for the watch's pending job and turns it into
+ * a run. Null while the job is still going; the next tick checks again.
+ */
+async function finishWatchJob(watch: Watch, jobId: string): Promise<WatchRun | null> {
+  if (!getJob(jobId)) {
+    // Deleted with other finished jobs before its outcome was recorded here
+    return { at: new Date().toISOString(), durationMs: 0, status: "error", jobId, error: "Job not found" };
+  }
+  const job = await waitForJob(jobId, JOB_WAIT_MS);
+  if (!isFinished(job)) {
+    console.warn(`[WATCH] ⚠️ ${watch.url} still capturing (job ${jobId}), checking again next tick`);
+    return null;
+  }
+  return runOf(watch, job);
+}
+
+/** Records a finished job's outcome on the watch. */
+function runOf(watch: Watch, job: ArchiveJob): WatchRun {
+  const base = { at: job.createdAt, durationMs: Date.parse(job.updatedAt) - Date.parse(job.createdAt), jobId: job.id };
+
+  if (job.status === "failed") {
+    console.error(`[WATCH] ❌ ${watch.url}: ${job.error}`);
+    return { ...base, status: "error", error: job.error ?? "Unknown error" };
+  }
+
+  if (job.outcome === "unchanged") {
+    console.log(`[WATCH] ${watch.url} unchanged`);
+    return { ...base, status: "unchanged", textHashHex: job.outputs.textHashHex };
+  }
+
+  console.log(`[WATCH] ${watch.url} changed, archived`);
+  const result = job.result!;
+  watch.lastArchivedTextHashHex = job.outputs.textHashHex ?? null;
+  watch.lastArchivedContentHashHex = result.contentHashHex;
+
+  return {
+    ...base,
+    status: "archived",
+    textHashHex: job.outputs.textHashHex,
+    contentHashHex: result.contentHashHex,
+    walrusBlobId: result.walrusBlobId,
+    suiTxDigest: result.suiTxDigest,
+    suiArchiveId: result.suiArchiveId,
+  };
+}
+
+/**
+ * Runs every due watch, one at a time so the watchlist takes up one job
+ * slot. A job that outlasts JOB_WAIT_MS stays pending on its watch while
+ * the tick moves on, so it can't hold up the rest of the watchlist.
+ */
+async function tick() {
+  if (ticking) return;
+  ticking = true;
+  try {
+    const now = Date.now();
+    const due = watches.filter((w) => w.pendingJobId || Date.parse(w.nextRunAt) <= now);
+
+    for (const watch of due) {
+      // The watch may have been deleted while an earlier one was running
+      if (!getWatch(watch.id)) continue;
+
+      // Saved before waiting, so a restart re-attaches to the job instead of starting another
+      if (!watch.pendingJobId) {
+        watch.nextRunAt = new Date(Date.now() + watch.intervalMinutes * 60_000).toISOString();
+        try {
+          watch.pendingJobId = (await startWatchJob(watch)).id;
+        } catch (err: any) {
+          console.error(`[WATCH] ❌ ${watch.url}:`, err?.message);
+          watch.lastRun = { at: new Date().toISOString(), durationMs: 0, status: "error", error: err?.message ?? "Unknown error" };
+        }
+        await persist();
+        if (!watch.pendingJobId) continue;
+      }
+
+      const run = await finishWatchJob(watch, watch.pendingJobId);
+      if (!run) continue;
+      watch.lastRun = run;
+      watch.pendingJobId = null;
+      await persist();
+    }
+  } catch (err: any) {
+    console.error("[WATCH] Scheduler error:", err?.message);
+  } finally {
+    ticking = false;
+  }
+}
+
+export async function startWatchScheduler(): Promise<void> {
+  await loadWatches();
+  if (timer) return;
+  timer = setInterval(tick, TICK_MS);
+  console.log(`[WATCH] Scheduler started (${watches.length} watches)`);
+  void tick();
+}
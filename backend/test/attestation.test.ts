@@ -0,0 +1,110 @@
+// test/attestation.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import JSZip from "jszip";
+import { Ed25519Keypair } from "@mysten/sui.js/keypairs/ed25519";
+import {
+  ATTESTATION_FILE,
+  AttestationSigner,
+  AttestationStatement,
+  attestArchive,
+  canonicalJson,
+  checkArchiveAttestation,
+} from "../src/attestation";
+
+const keypair = Ed25519Keypair.generate();
+const signer: AttestationSigner = {
+  address: keypair.getPublicKey().toSuiAddress(),
+  sign: async (message) => (await keypair.signPersonalMessage(message)).signature,
+};
+
+const statement: AttestationStatement = {
+  url: "https://example.com/a?ref=1",
+  canonicalUrl: "https://example.com/a",
+  finalUrl: "https://example.com/a",
+  capturedAt: "2026-01-01T00:00:00.000Z",
+  format: "zip",
+  captureMethod: "server",
+  capture: { config: null, browserVersion: null, userAgent: null },
+  textHashHex: "00".repeat(32),
+};
+
+async function attestedArchive(): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file("index.html", "<html><body>Hello</body></html>");
+  zip.file("screenshot.png", Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+  return attestArchive(await zip.generateAsync({ type: "nodebuffer" }), statement, signer, "DEFLATE");
+}
+
+async function modified(archive: Buffer, change: (zip: JSZip) => void): Promise<Buffer> {
+  const zip = await JSZip.loadAsync(archive);
+  change(zip);
+  return zip.generateAsync({ type: "nodebuffer" });
+}
+
+describe("canonicalJson", () => {
+  it("sorts keys at every level and drops undefined members", () => {
+    assert.equal(canonicalJson({ b: 1, a: { d: [3, { f: 1, e: 2 }], c: undefined } }), '{"a":{"d":[3,{"e":2,"f":1}]},"b":1}');
+  });
+});
+
+describe("checkArchiveAttestation", () => {
+  it("verifies an archive as it was attested", async () => {
+    const check = await checkArchiveAttestation(await attestedArchive(), signer.address);
+
+    assert.equal(check.valid, true, check.error ?? undefined);
+    assert.equal(check.signatureValid, true);
+    assert.equal(check.recoveredSigner, signer.address);
+    assert.equal(check.signerMatches, true);
+    assert.deepEqual(Object.keys(check.attestation!.files).sort(), ["index.html", "screenshot.png"]);
+    assert.equal(check.attestation!.url, statement.url);
+  });
+
+  it("reports changed, missing and added files", async () => {
+    const archive = await attestedArchive();
+
+    const changed = await checkArchiveAttestation(await modified(archive, (zip) => zip.file("index.html", "<html>edited</html>")));
+    assert.deepEqual(changed.mismatched, ["index.html"]);
+    assert.equal(changed.valid, false);
+
+    const missing = await checkArchiveAttestation(await modified(archive, (zip) => zip.remove("screenshot.png")));
+    assert.deepEqual(missing.missing, ["screenshot.png"]);
+    assert.equal(missing.valid, false);
+
+    const added = await checkArchiveAttestation(await modified(archive, (zip) => zip.file("extra.js", "alert(1)")));
+    assert.deepEqual(added.unattested, ["extra.js"]);
+    assert.equal(added.valid, false);
+  });
+
+  it("rejects an edited statement", async () => {
+    const archive = await modified(await attestedArchive(), () => {});
+    const zip = await JSZip.loadAsync(archive);
+    const signed = JSON.parse(await zip.file(ATTESTATION_FILE)!.async("string"));
+    signed.attestation.url = "https://example.com/other";
+    zip.file(ATTESTATION_FILE, JSON.stringify(signed));
+
+    const check = await checkArchiveAttestation(await zip.generateAsync({ type: "nodebuffer" }));
+    assert.equal(check.signatureValid, false);
+    assert.equal(check.valid, false);
+  });
+
+  it("rejects a signer other than the expected one", async () => {
+    const other = Ed25519Keypair.generate().getPublicKey().toSuiAddress();
+    const check = await checkArchiveAttestation(await attestedArchive(), other);
+
+    assert.equal(check.signatureValid, true);
+    assert.equal(check.signerMatches, false);
+    assert.equal(check.valid, false);
+  });
+
+  it("explains archives it can't check", async () => {
+    const unattested = new JSZip();
+    unattested.file("index.html", "<html></html>");
+    const check = await checkArchiveAttestation(await unattested.generateAsync({ type: "nodebuffer" }));
+    assert.match(check.error!, /No attestation.json/);
+
+    const notZip = await checkArchiveAttestation(new TextEncoder().encode("sealed bytes"));
+    assert.equal(notZip.valid, false);
+    assert.ok(notZip.error);
+  });
+});
@@ -0,0 +1,108 @@
+// test/envelope.test.ts
+import assert from "node:assert/strict";
+import { constants, createCipheriv, publicEncrypt, randomBytes } from "node:crypto";
+import { describe, it } from "node:test";
+import {
+  ENVELOPE_VERSION,
+  inspectEnvelope,
+  isEnvelope,
+  keyFingerprint,
+  openEnvelope,
+  sealEnvelope,
+} from "../../shared/envelope";
+
+async function recipient() {
+  const { publicKey, privateKey } = await crypto.subtle.generateKey(
+    { name: "RSA-OAEP", modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: "SHA-256" },
+    true,
+    ["encrypt", "decrypt"]
+  );
+  const spki = Buffer.from(await crypto.subtle.exportKey("spki", publicKey)).toString("base64");
+  return { publicKey: spki, privateKey };
+}
+
+const plaintext = new TextEncoder().encode("<html><body>leaked memo</body></html>");
+
+describe("sealEnvelope / openEnvelope", () => {
+  it("opens for every recipient", async () => {
+    const alice = await recipient();
+    const bob = await recipient();
+    const sealed = await sealEnvelope(plaintext, [alice.publicKey, bob.publicKey]);
+
+    assert.deepEqual(await openEnvelope(sealed, alice.privateKey), plaintext);
+    assert.deepEqual(await openEnvelope(sealed, bob.privateKey, bob.publicKey), plaintext);
+  });
+
+  it("lists the recipients' fingerprints in the header", async () => {
+    const alice = await recipient();
+    const bob = await recipient();
+    const sealed = await sealEnvelope(plaintext, [alice.publicKey, bob.publicKey]);
+
+    assert.equal(isEnvelope(sealed), true);
+    assert.deepEqual(inspectEnvelope(sealed), {
+      version: ENVELOPE_VERSION,
+      contentAlg: 1,
+      wrapAlg: 1,
+      recipients: [await keyFingerprint(alice.publicKey), await keyFingerprint(bob.publicKey)],
+    });
+  });
+
+  it("refuses keys it wasn't sealed to", async () => {
+    const alice = await recipient();
+    const eve = await recipient();
+    const sealed = await sealEnvelope(plaintext, [alice.publicKey]);
+
+    await assert.rejects(openEnvelope(sealed, eve.privateKey), /None of the envelope's recipient keys/);
+    await assert.rejects(openEnvelope(sealed, eve.privateKey, eve.publicKey), /not sealed to key/);
+  });
+
+  it("detects a tampered header or ciphertext", async () => {
+    const alice = await recipient();
+    const sealed = await sealEnvelope(plaintext, [alice.publicKey]);
+
+    const header = new Uint8Array(sealed);
+    header[8] ^= 1; // IV
+    await assert.rejects(openEnvelope(header, alice.privateKey));
+
+    const body = new Uint8Array(sealed);
+    body[body.length - 1] ^= 1;
+    await assert.rejects(openEnvelope(body, alice.privateKey));
+  });
+
+  it("needs at least one recipient", async () => {
+    await assert.rejects(sealEnvelope(plaintext, []), /At least one recipient/);
+  });
+
+  it("opens blobs sealed by the backend before the envelope format", async () => {
+    const alice = await recipient();
+    const aesKey = randomBytes(32);
+    const iv = randomBytes(16);
+    const cipher = createCipheriv("aes-256-gcm", aesKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    const wrappedKey = publicEncrypt(
+      {
+        key: `-----BEGIN PUBLIC KEY-----\n${alice.publicKey}\n-----END PUBLIC KEY-----`,
+        padding: constants.RSA_PKCS1_OAEP_PADDING,
+        oaepHash: "sha256",
+      },
+      aesKey
+    );
+    const keyLength = Buffer.alloc(2);
+    keyLength.writeUInt16BE(wrappedKey.length);
+    const legacy = Buffer.concat([iv, cipher.getAuthTag(), keyLength, wrappedKey, ciphertext]);
+
+    assert.equal(isEnvelope(legacy), false);
+    assert.equal(inspectEnvelope(legacy).version, 1);
+    assert.deepEqual(await openEnvelope(legacy, alice.privateKey), plaintext);
+  });
+});
+
+describe("keyFingerprint", () => {
+  it("is the same for a base64 key and its PEM block", async () => {
+    const { publicKey } = await recipient();
+    const pem = `-----BEGIN PUBLIC KEY-----\n${publicKey.match(/.{1,64}/g)!.join("\n")}\n-----END PUBLIC KEY-----`;
+
+    assert.equal(await keyFingerprint(pem), await keyFingerprint(publicKey));
+    assert.match(await keyFingerprint(publicKey), /^[0-9a-f]{64}$/);
+  });
+});
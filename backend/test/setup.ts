@@ -0,0 +1,8 @@
+// test/setup.ts
+import { Ed25519Keypair } from "@mysten/sui.js/keypairs/ed25519";
+
+/**
+ * Loaded before every test file. Modules that import suiClient need a
+ * signing key at load time; tests never send transactions, so any key will do.
+ */
+process.env.SUI_PRIVATE_KEY ||= Ed25519Keypair.generate().getSecretKey();
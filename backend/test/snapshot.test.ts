@@ -0,0 +1,58 @@
+// test/snapshot.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { MAX_SNAPSHOT_RESOURCES, snapshotError } from "../src/snapshot";
+
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(16)]).toString("base64");
+
+const valid = {
+  html: "<!DOCTYPE html><html><body>Hello</body></html>",
+  text: "Hello",
+  baseUrl: "https://example.com/",
+  screenshot: `data:image/png;base64,${PNG}`,
+  capturedAt: new Date().toISOString(),
+  userAgent: "Mozilla/5.0",
+  viewport: { width: 1280, height: 800, deviceScaleFactor: 2 },
+  resources: [{ url: "https://example.com/style.css", mimeType: "text/css; charset=utf-8", data: Buffer.from("body{}").toString("base64") }],
+};
+
+const errorOf = (changes: Record<string, unknown>) => snapshotError({ ...valid, ...changes });
+
+describe("snapshotError", () => {
+  it("accepts a complete snapshot and the minimal one", () => {
+    assert.equal(snapshotError(valid), null);
+    assert.equal(snapshotError({ html: valid.html, screenshot: PNG }), null);
+  });
+
+  it("requires an object with html", () => {
+    assert.equal(snapshotError(null), "Missing snapshot");
+    assert.equal(snapshotError("<html>"), "Missing snapshot");
+    assert.match(errorOf({ html: "   " })!, /^html/);
+  });
+
+  it("requires the screenshot to be a base64 PNG", () => {
+    assert.match(errorOf({ screenshot: undefined })!, /^screenshot/);
+    assert.match(errorOf({ screenshot: "not base64!" })!, /^screenshot/);
+    assert.match(errorOf({ screenshot: Buffer.from("GIF89a").toString("base64") })!, /^screenshot/);
+  });
+
+  it("checks the optional fields", () => {
+    assert.match(errorOf({ text: 42 })!, /^text/);
+    assert.match(errorOf({ baseUrl: "file:///etc/passwd" })!, /^baseUrl/);
+    assert.match(errorOf({ capturedAt: "yesterday" })!, /^capturedAt must be/);
+    assert.match(errorOf({ capturedAt: new Date(Date.now() - 3 * 24 * 60 * 60_000).toISOString() })!, /more than a day/);
+    assert.match(errorOf({ userAgent: "x".repeat(513) })!, /^userAgent/);
+    assert.match(errorOf({ viewport: { width: 0, height: 800 } })!, /^viewport/);
+    assert.match(errorOf({ viewport: null })!, /^viewport/);
+  });
+
+  it("checks every resource", () => {
+    const resource = valid.resources[0];
+    assert.match(errorOf({ resources: {} })!, /^resources must be an array/);
+    assert.match(errorOf({ resources: Array(MAX_SNAPSHOT_RESOURCES + 1).fill(resource) })!, /^resources must be an array/);
+    assert.equal(errorOf({ resources: [resource, null] }), "resources[1] must be an object");
+    assert.match(errorOf({ resources: [{ ...resource, url: "data:text/css,body{}" }] })!, /^resources\[0\]\.url/);
+    assert.match(errorOf({ resources: [{ ...resource, mimeType: "css" }] })!, /^resources\[0\]\.mimeType/);
+    assert.match(errorOf({ resources: [{ ...resource, data: "%%%" }] })!, /^resources\[0\]\.data/);
+  });
+});
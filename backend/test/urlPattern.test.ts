@@ -0,0 +1,49 @@
+// test/urlPattern.test.ts
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { compilePattern, matchesPattern } from "../src/urlPattern";
+
+const matches = (pattern: string, url: string) => matchesPattern(compilePattern(pattern), url);
+
+describe("matchesPattern", () => {
+  it("matches a pattern without wildcards only exactly", () => {
+    assert.equal(matches("https://example.com/blog", "https://example.com/blog"), true);
+    assert.equal(matches("https://example.com/blog", "https://example.com/blog/post"), false);
+  });
+
+  it("matches the whole URL, not a part of it", () => {
+    assert.equal(matches("https://example.com/blog/*", "https://example.com/blog/2024/post"), true);
+    assert.equal(matches("https://example.com/blog/*", "https://example.com/about/blog/x"), false);
+    assert.equal(matches("*/blog/*", "https://example.com/blog/x"), true);
+    assert.equal(matches("*.pdf", "https://example.com/report.pdf?download=1"), false);
+  });
+
+  it("lets * match an empty run", () => {
+    assert.equal(matches("https://example.com/blog/*", "https://example.com/blog/"), true);
+    assert.equal(matches("*", ""), true);
+  });
+
+  it("doesn't let the prefix and suffix overlap", () => {
+    assert.equal(matches("https://example.com/a*a", "https://example.com/a"), false);
+    assert.equal(matches("ab*ba", "aba"), false);
+    assert.equal(matches("ab*ba", "abba"), true);
+  });
+
+  it("places middle parts in order", () => {
+    assert.equal(matches("*/2024/*/draft*", "https://example.com/2024/05/draft-1"), true);
+    assert.equal(matches("*/draft/*/2024*", "https://example.com/2024/draft/x"), false);
+  });
+
+  it("treats regular-expression characters literally", () => {
+    assert.equal(matches("https://example.com/a.b?c=(1)", "https://example.com/a.b?c=(1)"), true);
+    assert.equal(matches("https://example.com/a.b", "https://example.com/aXb"), false);
+  });
+
+  it("stays fast on patterns that would make a regular expression backtrack", () => {
+    const pattern = compilePattern("*a*a*a*a*a*a*a*a*a*a*a*a*b");
+    const url = "a".repeat(5000);
+    const startedAt = Date.now();
+    assert.equal(matchesPattern(pattern, url), false);
+    assert.ok(Date.now() - startedAt < 100);
+  });
+});
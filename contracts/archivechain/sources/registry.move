@@ -8,6 +8,18 @@ module archivechain::registry {
     use sui::transfer;
     use sui::clock::{Self, Clock};
     use sui::event;
+    use sui::dynamic_field;
+
+    //
+    // Constants
+    //
+
+    /// capture_method values: the backend loaded the page itself, or a
+    /// user's browser captured it and submitted the result.
+    const CAPTURE_SERVER: u8 = 0;
+    const CAPTURE_CLIENT: u8 = 1;
+
+    const EInvalidCaptureMethod: u64 = 1;
 
     //
     // Structs
@@ -51,6 +63,44 @@ module archivechain::registry {
         version_number: u64,
     }
 
+    /// Encryption metadata, attached to an Archive as a dynamic field by
+    /// create_archive_v2. Archives created by create_archive have none.
+    public struct EncryptionInfo has copy, drop, store {
+        is_sealed: bool,
+        envelope_version: u8,                    // 0 when not sealed
+        recipient_fingerprints: vector<vector<u8>>, // SHA-256 of each recipient's SPKI key
+    }
+
+    /// Dynamic field name under which EncryptionInfo is stored.
+    public struct EncryptionKey has copy, drop, store {}
+
+    /// Emitted by create_archive_v2 right after ArchiveCreated.
+    public struct ArchiveEncryption has copy, drop {
+        archive_id: object::ID,
+        is_sealed: bool,
+        envelope_version: u8,
+        recipient_fingerprints: vector<vector<u8>>,
+    }
+
+    /// How the archived content was captured, attached to an Archive as a
+    /// dynamic field by create_archive_v2. Archives created by create_archive have none.
+    public struct CaptureInfo has copy, drop, store {
+        capture_method: u8,                      // CAPTURE_SERVER or CAPTURE_CLIENT
+        original_url: String,                    // as submitted; Archive.url is the canonical form
+        mime_type: String,                       // of the archived content, e.g. "application/pdf"
+    }
+
+    /// Dynamic field name under which CaptureInfo is stored.
+    public struct CaptureKey has copy, drop, store {}
+
+    /// Emitted by create_archive_v2 right after ArchiveEncryption.
+    public struct ArchiveCapture has copy, drop {
+        archive_id: object::ID,
+        capture_method: u8,
+        original_url: String,
+        mime_type: String,
+    }
+
     //
     // Entry functions
     //
@@ -68,6 +118,100 @@ module archivechain::registry {
         clock_ref: &Clock,
         ctx: &mut tx_context::TxContext,
     ) {
+        let archive = new_archive(url, walrus_blob_id, tusky_file_id, content_hash, title, registry, clock_ref, ctx);
+        transfer::public_freeze_object(archive);
+    }
+
+    /// Same as create_archive, but also records whether the blob is sealed,
+    /// the envelope format version and the recipients' key fingerprints
+    /// (EncryptionInfo), and how the content was captured (CaptureInfo): by
+    /// the backend (CAPTURE_SERVER) or in a user's browser (CAPTURE_CLIENT),
+    /// the URL as it was submitted, before canonicalization, and the
+    /// content's MIME type: the archive format's for a page, the served
+    /// type for a PDF, image or other document.
+    public entry fun create_archive_v2(
+        url: String,
+        walrus_blob_id: String,
+        tusky_file_id: String,
+        content_hash: vector<u8>,
+        title: String,
+        is_sealed: bool,
+        envelope_version: u8,
+        recipient_fingerprints: vector<vector<u8>>,
+        capture_method: u8,
+        original_url: String,
+        mime_type: String,
+        registry: &mut URLRegistry,
+        clock_ref: &Clock,
+        ctx: &mut tx_context::TxContext,
+    ) {
+        assert!(capture_method == CAPTURE_SERVER || capture_method == CAPTURE_CLIENT, EInvalidCaptureMethod);
+
+        let mut archive = new_archive(url, walrus_blob_id, tusky_file_id, content_hash, title, registry, clock_ref, ctx);
+        add_encryption(&mut archive, is_sealed, envelope_version, recipient_fingerprints);
+
+        event::emit(ArchiveCapture {
+            archive_id: object::id(&archive),
+            capture_method,
+            original_url,
+            mime_type,
+        });
+        dynamic_field::add(&mut archive.id, CaptureKey {}, CaptureInfo { capture_method, original_url, mime_type });
+
+        transfer::public_freeze_object(archive);
+    }
+
+    /// Create a new URLRegistry for a URL we haven't tracked before.
+    /// Ownership of the registry goes to the caller (e.g. your backend’s address).
+    public entry fun create_registry(
+        url: String,
+        ctx: &mut tx_context::TxContext,
+    ) {
+        let registry = URLRegistry {
+            id: object::new(ctx),
+            url,
+            all_archive_ids: vector::empty(),
+            latest_archive_id: option::none(),
+            total_versions: 0,
+        };
+
+        transfer::transfer(registry, tx_context::sender(ctx));
+    }
+
+    //
+    // Internal
+    //
+
+    /// Emits ArchiveEncryption and attaches EncryptionInfo.
+    fun add_encryption(
+        archive: &mut Archive,
+        is_sealed: bool,
+        envelope_version: u8,
+        recipient_fingerprints: vector<vector<u8>>,
+    ) {
+        event::emit(ArchiveEncryption {
+            archive_id: object::id(archive),
+            is_sealed,
+            envelope_version,
+            recipient_fingerprints,
+        });
+
+        let info = EncryptionInfo { is_sealed, envelope_version, recipient_fingerprints };
+        dynamic_field::add(&mut archive.id, EncryptionKey {}, info);
+    }
+
+    /// Builds the next Archive for `registry`, links it in and emits
+    /// ArchiveCreated. The caller freezes it.
+    fun new_archive(
+        url: String,
+        walrus_blob_id: String,
+        tusky_file_id: String,
+        content_hash: vector<u8>,
+        title: String,
+        registry: &mut URLRegistry,
+        clock_ref: &Clock,
+        ctx: &mut tx_context::TxContext,
+    ): Archive {
         // Who submitted this transaction
         let sender = tx_context::sender(ctx);
 
@@ -105,24 +249,6 @@ module archivechain::registry {
             version_number: archive.version_number,
         });
 
-        // 5. Make the Archive immutable & publicly readable forever
-        transfer::public_freeze_object(archive);
-    }
-
-    /// Create a new URLRegistry for a URL we haven't tracked before.
-    /// Ownership of the registry goes to the caller (e.g. your backend’s address).
-    public entry fun create_registry(
-        url: String,
-        ctx: &mut tx_context::TxContext,
-    ) {
-        let registry = URLRegistry {
-            id: object::new(ctx),
-            url,
-            all_archive_ids: vector::empty(),
-            latest_archive_id: option::none(),
-            total_versions: 0,
-        };
-
-        transfer::transfer(registry, tx_context::sender(ctx));
+        archive
     }
 }
@@ -1,23 +1,227 @@
+import { recipientKeys, sealSnapshot } from "./sealedCapture";
+
 const button = document.getElementById("archive-btn");
 const statusEl = document.getElementById("status");
 const publicModeBtn = document.getElementById("public-mode");
 const sealedModeBtn = document.getElementById("sealed-mode");
 const sealPanel = document.getElementById("seal-panel");
 const recipientKeyInput = document.getElementById("recipient-key");
+const recipientSearchInput = document.getElementById("recipient-search");
+const recipientResultsEl = document.getElementById("recipient-results");
+const recipientSelectedEl = document.getElementById("recipient-selected");
+const captureProfileSelect = document.getElementById("capture-profile");
+const autoScrollInput = document.getElementById("auto-scroll");
+const dismissConsentInput = document.getElementById("dismiss-consent");
+const captureFromTabInput = document.getElementById("capture-from-tab");
+const captureOptionsEl = document.getElementById("capture-options");
+
+const API_BASE = "http://localhost:4000";
+const STAGE_LABELS = {
+  capture: "Capturing page",
+  zip: "Packaging",
+  seal: "Sealing",
+  hash: "Hashing",
+  upload: "Uploading to Walrus",
+  sui: "Writing to Sui",
+};
 
 let isWhistleblowerMode = false;
+// Directory entries picked by the source, keyed by fingerprint
+const selectedRecipients = new Map();
 
 function setStatus(message, isError = false) {
   statusEl.textContent = message;
   statusEl.style.color = isError ? "#fca5a5" : "#a5b4fc";
 }
 
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Profile, scrolling and consent only apply when the backend loads the page
+captureFromTabInput.addEventListener("change", () => {
+  for (const input of [captureProfileSelect, autoScrollInput, dismissConsentInput]) {
+    input.disabled = captureFromTabInput.checked;
+  }
+});
+
+/**
+ * Runs in the tab: the DOM as the user sees it, plus the stylesheets and
+ * images it uses, fetched with the tab's cookies and inlined as base64.
+ * Resources the page isn't allowed to read (cross-origin without CORS)
+ * are left out and load from their origin when the archive is opened.
+ */
+async function serializeTab(maxResources, maxTotalBytes) {
+  const toBase64 = (blob) =>
+    new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(String(reader.result).split(",")[1] || "");
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+
+  const urls = new Set();
+  const add = (value) => {
+    try {
+      const url = new URL(value, document.baseURI);
+      if (url.protocol === "http:" || url.protocol === "https:") urls.add(url.href);
+    } catch {
+      // Not a URL
+    }
+  };
+  document.querySelectorAll('link[rel~="stylesheet"][href], link[rel~="icon"][href]').forEach((el) => add(el.getAttribute("href")));
+  document.querySelectorAll("img").forEach((img) => add(img.currentSrc || img.src));
+  document.querySelectorAll("source[srcset], img[srcset]").forEach((el) =>
+    el.getAttribute("srcset").split(",").forEach((candidate) => add(candidate.trim().split(/\s+/)[0]))
+  );
+  for (const entry of performance.getEntriesByType("resource")) {
+    if (["css", "img", "link"].includes(entry.initiatorType)) add(entry.name);
+  }
+
+  const resources = [];
+  let totalBytes = 0;
+  for (const url of Array.from(urls).slice(0, maxResources)) {
+    try {
+      const resp = await fetch(url, { credentials: "include", cache: "force-cache" });
+      if (!resp.ok) continue;
+      const blob = await resp.blob();
+      if (totalBytes + blob.size > maxTotalBytes) continue;
+      totalBytes += blob.size;
+      resources.push({ url, mimeType: blob.type || "application/octet-stream", data: await toBase64(blob) });
+    } catch {
+      // Blocked by CORS or offline
+    }
+  }
+
+  return {
+    html: "<!DOCTYPE html>\n" + document.documentElement.outerHTML,
+    text: document.body ? document.body.innerText : "",
+    baseUrl: document.baseURI,
+    resources,
+    capturedAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    viewport: { width: window.innerWidth, height: window.innerHeight, deviceScaleFactor: window.devicePixelRatio },
+  };
+}
+
+// Snapshot of the tab for POST /api/archive/snapshot, or to seal here in sealed mode
+async function captureTab(tab) {
+  const [{ result }] = await chrome.scripting.executeScript({
+    target: { tabId: tab.id },
+    func: serializeTab,
+    args: [300, 30 * 1024 * 1024],
+  });
+  const screenshot = await chrome.tabs.captureVisibleTab(tab.windowId, { format: "png" });
+  return { ...result, screenshot };
+}
+
+// One key per line (base64 SPKI) or any number of PEM blocks
+function parseRecipientKeys(text) {
+  const pemBlocks = text.match(/-----BEGIN PUBLIC KEY-----[\s\S]*?-----END PUBLIC KEY-----/g);
+  if (pemBlocks) return pemBlocks;
+  return text.split(/\s+/).map((key) => key.trim()).filter(Boolean);
+}
+
+function recipientRow(entry, actionLabel, onClick) {
+  const row = document.createElement("div");
+  row.className = "recipient";
+  const name = document.createElement("span");
+  name.textContent = entry.displayName;
+  const fingerprint = document.createElement("code");
+  fingerprint.textContent = entry.shortFingerprint;
+  const action = document.createElement("span");
+  action.textContent = actionLabel;
+  row.append(name, fingerprint, action);
+  row.addEventListener("click", onClick);
+  return row;
+}
+
+function renderSelectedRecipients() {
+  recipientSelectedEl.replaceChildren(
+    ...Array.from(selectedRecipients.values(), (entry) =>
+      recipientRow(entry, "✕", () => {
+        selectedRecipients.delete(entry.fingerprint);
+        renderSelectedRecipients();
+      })
+    )
+  );
+}
+
+// Look up the recipient directory as the source types
+let searchTimer = null;
+recipientSearchInput.addEventListener("input", () => {
+  clearTimeout(searchTimer);
+  const query = recipientSearchInput.value.trim();
+  if (!query) {
+    recipientResultsEl.replaceChildren();
+    return;
+  }
+  searchTimer = setTimeout(async () => {
+    try {
+      const resp = await fetch(`${API_BASE}/api/recipients?q=${encodeURIComponent(query)}`);
+      const data = await resp.json();
+      if (!resp.ok || !data.ok) throw new Error(data.error || `HTTP ${resp.status}`);
+      recipientResultsEl.replaceChildren(
+        ...data.recipients.slice(0, 5).map((entry) =>
+          recipientRow(entry, "＋", () => {
+            selectedRecipients.set(entry.fingerprint, entry);
+            recipientSearchInput.value = "";
+            recipientResultsEl.replaceChildren();
+            renderSelectedRecipients();
+          })
+        )
+      );
+    } catch (err) {
+      setStatus(`❌ Recipient lookup failed: ${err.message}`, true);
+    }
+  }, 300);
+});
+
+// Poll the archive job until it finishes, reporting the current stage
+async function waitForJob(jobId) {
+  while (true) {
+    const resp = await fetch(`${API_BASE}/api/jobs/${jobId}`);
+    const data = await resp.json();
+    if (!resp.ok || !data.ok) {
+      throw new Error(data.error || `HTTP ${resp.status}`);
+    }
+
+    const job = data.job;
+    if (job.status === "succeeded") return job.result;
+    if (job.status === "failed") throw new Error(job.error || "Archive job failed");
+
+    const label = STAGE_LABELS[job.currentStage] || "Queued";
+    setStatus(`${label}…`);
+    await sleep(1500);
+  }
+}
+
+/**
+ * Sealed mode: the tab is captured, packaged and sealed here, and only the
+ * envelope is uploaded. The backend can't read it, so it archives it as a
+ * client-sealed upload instead of capturing the URL itself.
+ */
+async function uploadSealed(tab, url, title, pastedKeys) {
+  const keys = await recipientKeys(pastedKeys, Array.from(selectedRecipients.values()));
+  setStatus("📱 Capturing this tab…");
+  const snapshot = await captureTab(tab);
+  setStatus(`🔒 Sealing for ${keys.length} recipient(s) on this device…`);
+  const sealed = await sealSnapshot(snapshot, keys);
+
+  setStatus("⬆️ Uploading sealed envelope…");
+  const params = new URLSearchParams({ url, title });
+  return fetch(`${API_BASE}/api/archive/sealed-upload?${params}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: sealed,
+  });
+}
+
 // Mode toggle handlers
 publicModeBtn.addEventListener("click", () => {
   isWhistleblowerMode = false;
   publicModeBtn.classList.add("active");
   sealedModeBtn.classList.remove("active");
   sealPanel.classList.remove("active");
+  captureOptionsEl.hidden = false;
   button.textContent = "Archive this page";
 });
 
@@ -26,6 +230,8 @@ sealedModeBtn.addEventListener("click", () => {
   sealedModeBtn.classList.add("active");
   publicModeBtn.classList.remove("active");
   sealPanel.classList.add("active");
+  // Sealed archives are always captured from this tab, so the server options don't apply
+  captureOptionsEl.hidden = true;
   button.textContent = "🔒 Seal & Archive";
 });
 
@@ -44,43 +250,65 @@ button.addEventListener("click", () => {
     const url = tab.url;
     const title = tab.title || tab.url;
 
-    // Validate recipient key if in whistleblower mode
-    let recipientPublicKey = null;
+    // Validate recipient keys if in whistleblower mode
+    let recipientPublicKeys = [];
     if (isWhistleblowerMode) {
-      recipientPublicKey = recipientKeyInput.value.trim();
-      
-      if (!recipientPublicKey) {
-        setStatus("❌ Please paste recipient's public key", true);
+      recipientPublicKeys = parseRecipientKeys(recipientKeyInput.value);
+      if (recipientPublicKeys.length + selectedRecipients.size === 0) {
+        setStatus("❌ Please pick or paste at least one recipient", true);
         button.disabled = false;
         return;
       }
-      setStatus("🔒 Sealing archive for recipient…");
     } else {
       setStatus("Archiving to backend…");
     }
 
+    const fromTab = captureFromTabInput.checked;
     try {
-      const body = { url, title };
-      if (recipientPublicKey) {
-        body.recipientPublicKey = recipientPublicKey;
-      }
+      let resp;
+      if (isWhistleblowerMode) {
+        resp = await uploadSealed(tab, url, title, recipientPublicKeys);
+      } else {
+        let body;
+        if (fromTab) {
+          setStatus("📱 Capturing this tab…");
+          body = { url, title, ...(await captureTab(tab)) };
+          setStatus(`📱 Uploading snapshot (${body.resources.length} resources)…`);
+        } else {
+          body = {
+            url,
+            title,
+            captureOptions: {
+              profile: captureProfileSelect.value,
+              autoScroll: autoScrollInput.checked,
+              dismissConsent: dismissConsentInput.checked,
+            },
+          };
+        }
 
-      const resp = await fetch("http://localhost:4000/api/archive", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(body)
-      });
+        resp = await fetch(`${API_BASE}${fromTab ? "/api/archive/snapshot" : "/api/archive"}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body)
+        });
+      }
 
-      const data = await resp.json();
+      const created = await resp.json();
 
-      if (!resp.ok || !data.ok) {
-        throw new Error(data.error || `HTTP ${resp.status}`);
+      if (!resp.ok || !created.ok) {
+        throw new Error(created.error || `HTTP ${resp.status}`);
       }
 
+      const data = await waitForJob(created.jobId);
+
       const statusLines = ["✅ Archived!"];
+      if (data.captureMethod === "client") {
+        statusLines.push("", "📱 Client-captured: recorded as captured in your browser");
+      }
       
       if (data.isEncrypted) {
-        statusLines.push("", "🔒 SEALED - Only recipient can decrypt");
+        const count = data.recipientFingerprints?.length || 1;
+        statusLines.push("", `🔒 SEALED - Only the ${count} recipient(s) can decrypt`);
       }
       
       statusLines.push("", `Sui archive ID:`, data.suiArchiveId);
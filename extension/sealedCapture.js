@@ -0,0 +1,112 @@
+// extension/sealedCapture.js
+import JSZip from "jszip";
+import { keyFingerprint, sealEnvelope } from "../shared/envelope";
+
+/**
+ * Sealed mode: the tab snapshot is packaged and sealed here in the popup,
+ * and only the envelope goes to /api/archive/sealed-upload, so the backend
+ * never holds the page. The zip is laid out like a server capture:
+ * index.html, screenshot.png, and the tab's stylesheets and images under
+ * assets/ (listed in assets.json) for the viewer's offline replay.
+ */
+
+const ASSETS_DIR = "assets";
+const EXTENSIONS = {
+  "text/css": ".css",
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/avif": ".avif",
+  "image/svg+xml": ".svg",
+  "image/x-icon": ".ico",
+  "image/vnd.microsoft.icon": ".ico",
+  "font/woff": ".woff",
+  "font/woff2": ".woff2",
+};
+
+const toHex = (bytes) => Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+
+function fromBase64(data) {
+  const binary = atob(data.replace(/^data:[^,]*;base64,/, ""));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function absolute(value, baseUrl) {
+  try {
+    return new URL(value, baseUrl).href;
+  } catch {
+    return null;
+  }
+}
+
+// Points src, stylesheet/icon href and srcset at the bundled copies; everything else is left as the tab had it
+function rewriteHtml(html, baseUrl, pathOf) {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const swap = (value) => pathOf(absolute(value.trim(), baseUrl)) ?? value;
+
+  doc.querySelectorAll("img[src], source[src], input[src]").forEach((el) => el.setAttribute("src", swap(el.getAttribute("src"))));
+  doc.querySelectorAll('link[rel~="stylesheet"][href], link[rel~="icon"][href]').forEach((el) =>
+    el.setAttribute("href", swap(el.getAttribute("href")))
+  );
+  doc.querySelectorAll("img[srcset], source[srcset]").forEach((el) => {
+    const candidates = el.getAttribute("srcset").split(",").map((candidate) => {
+      const [url, ...descriptor] = candidate.trim().split(/\s+/);
+      return [swap(url), ...descriptor].join(" ");
+    });
+    el.setAttribute("srcset", candidates.join(", "));
+  });
+  return "<!DOCTYPE html>\n" + doc.documentElement.outerHTML;
+}
+
+/** Zips a snapshot from serializeTab plus its screenshot (a data: URL). */
+export async function packageSnapshot(snapshot) {
+  const zip = new JSZip();
+  const byUrl = new Map();
+  const assets = [];
+
+  for (const resource of snapshot.resources) {
+    if (byUrl.has(resource.url)) continue;
+    const bytes = fromBase64(resource.data);
+    if (bytes.length === 0) continue;
+    const mimeType = resource.mimeType.split(";")[0].trim().toLowerCase();
+    const sha256 = toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", bytes)));
+    const path = `${ASSETS_DIR}/${sha256.slice(0, 32)}${EXTENSIONS[mimeType] ?? ""}`;
+    zip.file(path, bytes);
+    byUrl.set(resource.url, path);
+    assets.push({ url: resource.url, path, mimeType, size: bytes.length, sha256 });
+  }
+
+  zip.file("index.html", rewriteHtml(snapshot.html, snapshot.baseUrl, (url) => byUrl.get(url) ?? null));
+  zip.file("screenshot.png", fromBase64(snapshot.screenshot));
+  if (assets.length > 0) zip.file("assets.json", JSON.stringify(assets, null, 2));
+  return zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+}
+
+/**
+ * Public keys to seal to: the pasted ones and the picked directory
+ * entries. Each entry's key must hash to the fingerprint the source
+ * checked, so a tampered directory response can't swap a key in.
+ */
+export async function recipientKeys(pastedKeys, entries) {
+  const keys = [...pastedKeys];
+  for (const entry of entries) {
+    if ((await keyFingerprint(entry.publicKey)) !== entry.fingerprint) {
+      throw new Error(`The directory key for ${entry.displayName} doesn't match its fingerprint`);
+    }
+    keys.push(entry.publicKey);
+  }
+  return keys;
+}
+
+/** The packaged snapshot, sealed to `keys` in the shared envelope format. */
+export async function sealSnapshot(snapshot, keys) {
+  const archive = await packageSnapshot(snapshot);
+  try {
+    return await sealEnvelope(archive, keys);
+  } catch (err) {
+    throw new Error(`Sealing failed (check the recipient keys): ${err.message}`);
+  }
+}
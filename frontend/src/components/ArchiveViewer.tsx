@@ -1,13 +1,35 @@
-import { useState, useEffect } from 'react';
-import { SuiClient, getFullnodeUrl } from '@mysten/sui.js/client';
+import { useState } from 'react';
 import JSZip from 'jszip';
 import * as Diff from 'diff';
-import { generateCertificate } from '../utils/generateCertificate';
-import { generateKeyPair, exportKey, exportPrivateKey, importPrivateKey } from '../utils/crypto';
-
-const suiClient = new SuiClient({ url: getFullnodeUrl('testnet') });
-// 🔥 KEEP YOUR REGISTRY ID HERE
-const REGISTRY_ID = "0x57d3018cdb3a8057147f5f79c1c6572f53cf6f7db8adc7b33d2c7271a1067677"; 
+import { generateCertificate, type CertificateArchive } from '../utils/generateCertificate';
+import { extractWaczMainPage } from '../utils/wacz';
+import { buildReplayDocument } from '../utils/replay';
+import { checkContentHash, type IntegrityCheck } from '../utils/integrity';
+import { SealedUploadPanel } from './SealedUploadPanel';
+import { KeyVaultPanel } from './KeyVaultPanel';
+import { CaptureDetailsPanel } from './CaptureDetailsPanel';
+import { ResourceView } from './ResourceView';
+import { readCaptureManifest, type CaptureManifest, type CaptureMethod } from '../utils/captureManifest';
+import { decryptBlobWithKeys } from '../utils/crypto';
+import { activeKey, type VaultSession } from '../utils/keyVault';
+import { readResource, sameBytes, type ArchivedResource } from '../utils/resource';
+import { isJsonMimeType } from '../../../shared/resource';
+
+
+// Blobs are read through the backend's storage provider first; public
+// Walrus aggregators are a fallback when the backend is unreachable.
+const WALRUS_AGGREGATORS = (import.meta.env.VITE_WALRUS_AGGREGATORS as string | undefined)
+  ?.split(',').map((s) => s.trim()).filter(Boolean) ?? [
+  "https://walrus-testnet-aggregator.nodes.guru",
+  "https://walrus-testnet-aggregator.stakely.io",
+  "https://aggregator.walrus-testnet.walrus.space",
+  "https://testnet-walrus-aggregator.staketab.org"
+];
+
+const blobSources = (blobId: string) => [
+  `${import.meta.env.VITE_API_URL}/api/blobs/${blobId}`,
+  ...WALRUS_AGGREGATORS.map((baseUrl) => `${baseUrl}/v1/blobs/${blobId}`),
+];
 
 type ArchiveObject = {
   id: string;
@@ -19,21 +41,155 @@ type ArchiveObject = {
   tuskyFileId: string;
   contentHash: string; // SHA-256 hash from blockchain
   objectId: string; // Sui object ID for explorer links
+  encryption: ArchiveEncryption | null; // null for archives recorded before encryption metadata
+  captureMethod: CaptureMethod | null; // null for archives recorded before capture methods
+  mimeType: string | null; // of the content; null for archives recorded before MIME types
+};
+
+type ArchiveEncryption = {
+  isSealed: boolean;
+  envelopeVersion: number;
+  recipientFingerprints: string[];
+};
+
+// Older archives have no encryption metadata on-chain; they were marked with a 🔒 title prefix
+const isSealedArchive = (v: ArchiveObject) => v.encryption ? v.encryption.isSealed : v.title.includes("🔒");
+
+type ArchivedPage = {
+  html: string;
+  manifest: CaptureManifest | null;
+  // article.txt, the main text extracted at capture time
+  articleText: string | null;
+  pdf: Blob | null;
+  // Set instead of the above for PDFs, images and JSON archived as served
+  resource: ArchivedResource | null;
+};
+
+type IndexedArchive = {
+  id: string;
+  url: string;
+  canonicalUrl: string;
+  // As submitted, with query and fragment; the on-chain url for older archives
+  originalUrl: string;
+  title: string;
+  walrusBlobId: string;
+  tuskyFileId: string;
+  contentHash: string;
+  versionNumber: number;
+  previousArchiveId: string | null;
+  capturedAtMs: number;
+  capturedBy: string;
+  txDigest: string;
+  version: number;
+  encryption: ArchiveEncryption | null;
+  captureMethod: CaptureMethod | null;
+  mimeType: string | null;
+};
+
+// `exact` finds one page (after URL canonicalization), `domain` every page on the host
+type SearchMode = 'exact' | 'domain';
+
+// Archives come from the backend's index of ArchiveCreated events, newest first
+const fetchArchivePage = async (url: string, mode: SearchMode, cursor?: string) => {
+  const params = new URLSearchParams({ url, mode });
+  if (cursor) params.set('cursor', cursor);
+  const response = await fetch(`${import.meta.env.VITE_API_URL}/api/archives?${params}`);
+  const data = await response.json() as { ok: boolean; error?: string; archives: IndexedArchive[]; nextCursor: string | null };
+  if (!data.ok) throw new Error(data.error ?? `Archive search failed (${response.status})`);
+
+  return {
+    archives: data.archives.map((a): ArchiveObject => ({
+      id: a.id,
+      url: a.canonicalUrl,
+      title: a.title,
+      realVersion: a.version,
+      capturedAtMs: String(a.capturedAtMs),
+      walrusBlobId: a.walrusBlobId,
+      tuskyFileId: a.tuskyFileId,
+      contentHash: a.contentHash,
+      objectId: a.id,
+      encryption: a.encryption ?? null,
+      captureMethod: a.captureMethod ?? null,
+      mimeType: a.mimeType ?? null,
+    })),
+    nextCursor: data.nextCursor,
+  };
+};
+
+const toCertificateArchive = (a: IndexedArchive): CertificateArchive => ({
+  archiveId: a.id,
+  url: a.url,
+  originalUrl: a.originalUrl ?? a.url,
+  title: a.title,
+  versionNumber: a.versionNumber,
+  capturedAtMs: a.capturedAtMs,
+  capturedBy: a.capturedBy,
+  contentHash: a.contentHash,
+  walrusBlobId: a.walrusBlobId,
+  txDigest: a.txDigest,
+  previousArchiveId: a.previousArchiveId,
+  encryption: a.encryption ?? null,
+  captureMethod: a.captureMethod ?? null,
+});
+
+// The archive and the earlier versions of its URL, newest first
+const fetchArchiveChain = async (archiveId: string) => {
+  const response = await fetch(`${import.meta.env.VITE_API_URL}/api/archives/${archiveId}/chain`);
+  const data = await response.json() as { ok: boolean; error?: string; archives: IndexedArchive[]; complete: boolean };
+  if (!data.ok) throw new Error(data.error ?? `Version chain lookup failed (${response.status})`);
+  return { chain: data.archives.map(toCertificateArchive), complete: data.complete };
+};
+
+type UrlRegistry = {
+  registryId: string;
+  totalVersions: number | null;
+};
+
+// Each canonical URL has its own on-chain URLRegistry; null until the URL is first archived
+const fetchRegistry = async (url: string): Promise<UrlRegistry | null> => {
+  const response = await fetch(`${import.meta.env.VITE_API_URL}/api/registries?${new URLSearchParams({ url })}`);
+  if (response.status === 404) return null;
+  const data = await response.json() as {
+    ok: boolean;
+    error?: string;
+    registry: { registryId: string };
+    onChain: { totalVersions: number } | null;
+  };
+  if (!data.ok) throw new Error(data.error ?? `Registry lookup failed (${response.status})`);
+  return { registryId: data.registry.registryId, totalVersions: data.onChain?.totalVersions ?? null };
 };
 
 export function ArchiveViewer() {
   const [searchUrl, setSearchUrl] = useState(''); // Start empty
+  const [searchMode, setSearchMode] = useState<SearchMode>('exact');
+  const [resultMode, setResultMode] = useState<SearchMode>('exact'); // mode of the versions shown
+  const [registry, setRegistry] = useState<UrlRegistry | null>(null);
+  // Result of the last hash check per version id; absent until the version is fetched
+  const [integrity, setIntegrity] = useState<Record<string, IntegrityCheck>>({});
   const [versions, setVersions] = useState<ArchiveObject[]>([]);
+  // Cursor for the next page of the last search, and the URL it belongs to
+  const [nextPage, setNextPage] = useState<{ url: string; mode: SearchMode; cursor: string } | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [statusMsg, setStatusMsg] = useState<string | null>(null);
   
   // Viewer States
   const [selectedContent, setSelectedContent] = useState<string | null>(null);
+  // manifest.json of the version on display
+  const [captureManifest, setCaptureManifest] = useState<CaptureManifest | null>(null);
+  // Object URL of its page.pdf, and whether the PDF is shown instead of the page
+  const [pdfUrl, setPdfUrl] = useState<string | null>(null);
+  const [showPdfView, setShowPdfView] = useState(false);
+  // The version on display when it is a PDF, image or JSON document rather than a page
+  const [selectedResource, setSelectedResource] = useState<{ resource: ArchivedResource; url: string } | null>(null);
   
   // Comparison States
   const [isCompareMode, setIsCompareMode] = useState(false);
   const [compareSelection, setCompareSelection] = useState<ArchiveObject[]>([]);
   const [diffResult, setDiffResult] = useState<Diff.Change[] | null>(null);
+  // JSON is diffed line by line (one value per line), everything else word by word
+  const [diffByLine, setDiffByLine] = useState(false);
+  // Images have no text to diff; they are shown side by side instead
+  const [comparedImages, setComparedImages] = useState<{ older: ArchivedResource; newer: ArchivedResource; url: string; identical: boolean } | null>(null);
   
   // [NEW] AI Analysis State
   const [aiAnalysis, setAiAnalysis] = useState<{
@@ -43,47 +199,9 @@ export function ArchiveViewer() {
     impactScore: number;
   } | null>(null);
 
-  // [NEW] Journalist Keypair State
-  const [journalistPublicKey, setJournalistPublicKey] = useState<string | null>(null);
-  const [journalistPrivateKey, setJournalistPrivateKey] = useState<CryptoKey | null>(null);
-
-  // [NEW] Generate Journalist Keypair on Mount
-  useEffect(() => {
-    const initKeypair = async () => {
-      try {
-        // Check if we have saved keys in localStorage
-        const savedPrivateKey = localStorage.getItem('journalist_private_key');
-        const savedPublicKey = localStorage.getItem('journalist_public_key');
-        
-        if (savedPrivateKey && savedPublicKey) {
-          // Import existing keys
-          const privateKey = await importPrivateKey(savedPrivateKey);
-          setJournalistPrivateKey(privateKey);
-          setJournalistPublicKey(savedPublicKey);
-          console.log("🔑 Loaded existing journalist keypair from storage");
-          console.log("🔑 Public Key (first 50 chars):", savedPublicKey.substring(0, 50));
-        } else {
-          // Generate new keypair
-          const keyPair = await generateKeyPair();
-          const publicKey = await exportKey(keyPair.publicKey);
-          const privateKey = await exportPrivateKey(keyPair.privateKey);
-          
-          setJournalistPublicKey(publicKey);
-          setJournalistPrivateKey(keyPair.privateKey);
-          
-          // Save both keys to localStorage
-          localStorage.setItem('journalist_private_key', privateKey);
-          localStorage.setItem('journalist_public_key', publicKey);
-          console.log("🔑 Generated new journalist keypair and saved to storage");
-          console.log("🔑 Public Key (first 50 chars):", publicKey.substring(0, 50));
-        }
-      } catch (err) {
-        console.error("Failed to initialize keypair:", err);
-      }
-    };
-    
-    initKeypair();
-  }, []);
+  // Journalist keys: null until the key vault is unlocked
+  const [vaultSession, setVaultSession] = useState<VaultSession | null>(null);
+  const journalistPublicKey = vaultSession ? activeKey(vaultSession)?.publicKey ?? null : null;
 
   // [NEW] Helper: Clean HTML to get human-readable text
   const cleanText = (htmlString: string) => {
@@ -98,6 +216,12 @@ export function ArchiveViewer() {
     return doc.body.textContent?.replace(/\s+/g, ' ').trim() || "";
   };
 
+  const showPdf = (pdf: Blob | null) => {
+    if (pdfUrl) URL.revokeObjectURL(pdfUrl);
+    setPdfUrl(pdf ? URL.createObjectURL(pdf) : null);
+    if (!pdf) setShowPdfView(false);
+  };
+
   // 1. SEARCH
   const findArchives = async () => {
     if (!searchUrl) {
@@ -109,63 +233,24 @@ export function ArchiveViewer() {
     setStatusMsg("Scanning provenance chain...");
     setVersions([]);
     setSelectedContent(null);
+    setSelectedResource(null);
     setDiffResult(null);
     setCompareSelection([]);
+    setNextPage(null);
+    setRegistry(null);
 
-    try {
-      const registryObj = await suiClient.getObject({ id: REGISTRY_ID, options: { showContent: true } });
-      
-      if (registryObj.data?.content?.dataType !== 'moveObject') throw new Error("Invalid Registry Object");
-      const fields = registryObj.data.content.fields as any;
-      const archiveIds = fields.all_archive_ids;
-
-      if (!archiveIds || archiveIds.length === 0) {
-        setStatusMsg("No archives found on chain.");
-        setIsLoading(false);
-        return;
-      }
-
-      const archiveObjects = await suiClient.multiGetObjects({ ids: archiveIds, options: { showContent: true } });
-      
-      // [FIXED] Filter by URL and Re-number
-      const rawList: ArchiveObject[] = [];
-      
-      archiveObjects.forEach((obj) => {
-        if (obj.data?.content?.dataType === 'moveObject') {
-          const f = obj.data.content.fields as any;
-          // ONLY add if the URL matches the search (normalization helps)
-          if (f.url.includes(searchUrl.replace("https://", "").replace("http://", "").split('/')[0])) {
-            // Convert content_hash vector<u8> back to hex string
-            let contentHashHex = "0x";
-            if (f.content_hash && Array.isArray(f.content_hash)) {
-              contentHashHex += f.content_hash.map((byte: number) => byte.toString(16).padStart(2, '0')).join('');
-            }
-            
-            rawList.push({
-              id: obj.data.objectId,
-              url: f.url,
-              title: f.title,
-              realVersion: 0, // Will assign momentarily
-              capturedAtMs: f.captured_at_ms,
-              walrusBlobId: f.walrus_blob_id,
-              tuskyFileId: f.tusky_file_id,
-              contentHash: contentHashHex,
-              objectId: obj.data.objectId,
-            });
-          }
-        }
-      });
+    if (searchMode === 'exact') {
+      // Informational only: the version list comes from the index either way
+      fetchRegistry(searchUrl).then(setRegistry).catch((err) => console.warn("Registry lookup failed:", err));
+    }
 
-      // Sort Oldest -> Newest to assign version numbers
-      rawList.sort((a, b) => parseInt(a.capturedAtMs) - parseInt(b.capturedAtMs));
-      
-      // Assign version numbers sequentially
-      rawList.forEach((v, index) => v.realVersion = index + 1);
+    try {
+      const page = await fetchArchivePage(searchUrl, searchMode);
+      setVersions(page.archives);
+      setResultMode(searchMode);
+      setNextPage(page.nextCursor ? { url: searchUrl, mode: searchMode, cursor: page.nextCursor } : null);
 
-      // Reverse for display (Newest first)
-      setVersions(rawList.reverse());
-      
-      if (rawList.length === 0) {
+      if (page.archives.length === 0) {
         setStatusMsg("No archives found for this specific URL.");
       } else {
         setStatusMsg(null);
@@ -177,116 +262,141 @@ export function ArchiveViewer() {
     setIsLoading(false);
   };
 
-  // [NEW] Helper: Decrypt Sealed Blob
-  const decryptSealedBlob = async (blob: Blob, privateKey: CryptoKey): Promise<Blob> => {
-    const buffer = await blob.arrayBuffer();
-    const view = new DataView(buffer);
-    
-    // Unpack structure: [IV (16)] + [AuthTag (16)] + [KeyLength (2)] + [EncryptedKey] + [Content]
-    const iv = buffer.slice(0, 16);
-    const authTag = buffer.slice(16, 32);
-    const keyLength = view.getUint16(32, false); // Big Endian
-    const encryptedKey = buffer.slice(34, 34 + keyLength);
-    const content = buffer.slice(34 + keyLength);
-
-    // 1. Decrypt AES Key
-    const aesKeyRaw = await window.crypto.subtle.decrypt(
-      { name: "RSA-OAEP" },
-      privateKey,
-      encryptedKey
-    );
-
-    const aesKey = await window.crypto.subtle.importKey(
-      "raw", 
-      aesKeyRaw, 
-      "AES-GCM", 
-      true, 
-      ["decrypt"]
-    );
-
-    // 2. Decrypt Content
-    // Web Crypto AES-GCM expects tag appended to ciphertext
-    const contentWithTag = new Uint8Array(content.byteLength + 16);
-    contentWithTag.set(new Uint8Array(content));
-    contentWithTag.set(new Uint8Array(authTag), content.byteLength);
-
-    const decryptedBuffer = await window.crypto.subtle.decrypt(
-      { name: "AES-GCM", iv: new Uint8Array(iv) },
-      aesKey,
-      contentWithTag
-    );
-
-    return new Blob([decryptedBuffer]);
+  // Next page of the same search (older captures)
+  const loadMore = async () => {
+    if (!nextPage) return;
+    setIsLoading(true);
+    try {
+      const page = await fetchArchivePage(nextPage.url, nextPage.mode, nextPage.cursor);
+      setVersions((prev) => [...prev, ...page.archives]);
+      setNextPage(page.nextCursor ? { ...nextPage, cursor: page.nextCursor } : null);
+    } catch (err) {
+      setStatusMsg(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    setIsLoading(false);
   };
 
-  // Helper: Fetch HTML content (with automatic decryption for sealed archives)
-  const fetchHtml = async (version: ArchiveObject): Promise<string> => {
+  // Helper: Fetch the archive blob, checked against the on-chain hash and
+  // decrypted if sealed.
+  const fetchArchiveBlob = async (version: ArchiveObject): Promise<Blob> => {
     if (version.walrusBlobId === "unknown") throw new Error(`Version ${version.realVersion} is pending (Blob ID unknown)`);
     
-    const isSealed = version.title.includes("🔒");
+    const isSealed = isSealedArchive(version);
+    let mismatches = 0;
     
-    const AGGREGATORS = [
-      "https://walrus-testnet-aggregator.nodes.guru",
-      "https://walrus-testnet-aggregator.stakely.io",
-      "https://aggregator.walrus-testnet.walrus.space",
-      "https://testnet-walrus-aggregator.staketab.org"
-    ];
-
-    for (const baseUrl of AGGREGATORS) {
+    for (const url of blobSources(version.walrusBlobId)) {
       try {
-        console.log(`Trying aggregator: ${baseUrl}`);
-        const url = `${baseUrl}/v1/blobs/${version.walrusBlobId}`;
+        console.log(`Trying blob source: ${url}`);
         const response = await fetch(url);
         if (!response.ok) {
-          console.warn(`${baseUrl} returned status ${response.status}`);
+          console.warn(`${url} returned status ${response.status}`);
           continue;
         }
         
-        let blob = await response.blob();
-        
-        // [NEW] Decrypt if sealed
-        if (isSealed) {
-          if (!journalistPrivateKey) {
-            throw new Error("🔒 This archive is sealed. Private key not available.");
-          }
-          console.log("🔓 Decrypting sealed archive...");
-          try {
-            blob = await decryptSealedBlob(blob, journalistPrivateKey);
-            console.log("✅ Archive decrypted successfully!");
-          } catch (decryptErr: any) {
-            throw new Error(`🔒 Decryption failed: ${decryptErr.message}. This archive may not be intended for your key.`);
-          }
+        // Check the raw bytes against the on-chain hash before touching them
+        const raw = await response.arrayBuffer();
+        const integrityCheck = await checkContentHash(raw, version.contentHash);
+        if (integrityCheck === 'mismatch') {
+          mismatches++;
+          console.warn(`⚠️ ${url} served bytes that don't match the on-chain hash, trying next source`);
+          continue;
         }
+        setIntegrity((prev) => ({ ...prev, [version.id]: integrityCheck }));
         
+        const blob = new Blob([raw]);
+        console.log(`✅ Successfully fetched from ${url}`);
+        if (!isSealed) return blob;
+
+        if (!vaultSession) {
+          throw new Error("🔒 This archive is sealed. Unlock your key vault to open it.");
+        }
+        console.log("🔓 Decrypting sealed archive...");
         try {
-          const zip = await JSZip.loadAsync(blob);
-          const html = await zip.file("index.html")?.async("string");
-          console.log(`✅ Successfully fetched from ${baseUrl}`);
-          return html || "Error: index.html missing";
-        } catch {
-          return await blob.text();
+          const decrypted = await decryptBlobWithKeys(blob, vaultSession.keys, version.encryption?.recipientFingerprints);
+          console.log("✅ Archive decrypted successfully!");
+          return decrypted;
+        } catch (decryptErr) {
+          const reason = decryptErr instanceof Error ? decryptErr.message : String(decryptErr);
+          throw new Error(`🔒 Decryption failed: ${reason}. This archive may not be intended for your key.`);
         }
       } catch (err) { 
-        console.warn(`${baseUrl} failed:`, err);
+        // The bytes matched the on-chain hash, so another source won't decrypt any better
+        if (err instanceof Error && err.message.startsWith("🔒")) throw err;
+        console.warn(`${url} failed:`, err);
         continue; 
       }
     }
+    if (mismatches > 0) {
+      setIntegrity((prev) => ({ ...prev, [version.id]: 'mismatch' }));
+      throw new Error(`Content hash mismatch: ${mismatches} source(s) served bytes that differ from the on-chain hash, none served the original.`);
+    }
     throw new Error("Could not fetch content from any node.");
   };
 
+  // Helper: Fetch HTML content (with automatic decryption for sealed archives).
+  // With `forReplay`, bundled assets are inlined so the page renders offline.
+  // The capture manifest, extracted text and PDF rendering come along when
+  // the archive has them. PDFs, images and JSON archived as served come
+  // back as a resource of their recorded type, with their text in place
+  // of article.txt.
+  const fetchPage = async (version: ArchiveObject, { forReplay = false } = {}): Promise<ArchivedPage> => {
+    const blob = await fetchArchiveBlob(version);
+    const resource = await readResource(blob, version.mimeType);
+    if (resource) return { html: '', manifest: resource.manifest, articleText: resource.text, pdf: null, resource };
+    try {
+      const zip = await JSZip.loadAsync(blob);
+      const manifest = await readCaptureManifest(zip);
+      const articleText = (await zip.file("article.txt")?.async("string")) ?? null;
+      const pdfBytes = await zip.file("page.pdf")?.async("arraybuffer");
+      const pdf = pdfBytes ? new Blob([pdfBytes], { type: 'application/pdf' }) : null;
+      // Plain zips carry index.html; WACZ archives keep the page inside the WARC
+      const html = (await zip.file("index.html")?.async("string")) ?? (await extractWaczMainPage(zip));
+      if (!html) return { html: "Error: index.html missing", manifest, articleText, pdf, resource: null };
+      return { html: forReplay ? await buildReplayDocument(zip, html) : html, manifest, articleText, pdf, resource: null };
+    } catch {
+      return { html: await blob.text(), manifest: null, articleText: null, pdf: null, resource: null };
+    }
+  };
+
+  // Helper: Legal Proof certificate with the version chain and, when the
+  // archive can be opened here, a screenshot thumbnail
+  const downloadCertificate = async (version: ArchiveObject) => {
+    setStatusMsg(`📜 Preparing certificate for Version ${version.realVersion}...`);
+    try {
+      const { chain, complete } = await fetchArchiveChain(version.id);
+
+      let screenshot: ArrayBuffer | null = null;
+      try {
+        const zip = await JSZip.loadAsync(await fetchArchiveBlob(version));
+        screenshot = (await zip.file("screenshot.png")?.async("arraybuffer")) ?? null;
+      } catch (err) {
+        console.warn("Certificate without screenshot:", err);
+      }
+
+      await generateCertificate({ archive: chain[0], chain, chainComplete: complete, screenshot });
+      setStatusMsg(null);
+    } catch (err) {
+      setStatusMsg(`❌ Certificate failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
   // 2. LOAD SINGLE VERSION
   const loadSingle = async (version: ArchiveObject) => {
     setIsLoading(true);
-    const isSealed = version.title.includes("🔒");
+    const isSealed = isSealedArchive(version);
     setStatusMsg(isSealed ? `🔓 Decrypting Version ${version.realVersion}...` : `Loading Version ${version.realVersion}...`);
     setDiffResult(null);
     try {
-      const html = await fetchHtml(version);
-      setSelectedContent(html);
+      const { html, manifest, pdf, resource } = await fetchPage(version, { forReplay: true });
+      setSelectedContent(resource ? null : html);
+      setSelectedResource(resource ? { resource, url: version.url } : null);
+      setCaptureManifest(manifest);
+      showPdf(pdf);
       setStatusMsg(isSealed ? `✅ Decrypted Version ${version.realVersion}` : `Loaded Version ${version.realVersion}`);
     } catch (err: any) {
       setStatusMsg(`❌ Error: ${err.message}`);
       setSelectedContent(null);
+      setSelectedResource(null);
       console.error("Load error:", err);
     }
     setIsLoading(false);
@@ -298,18 +408,36 @@ export function ArchiveViewer() {
     setIsLoading(true);
     setStatusMsg("Analyzing differences...");
     setSelectedContent(null);
+    setSelectedResource(null);
+    setComparedImages(null);
     setAiAnalysis(null);
 
     try {
       const [vNew, vOld] = compareSelection.sort((a, b) => b.realVersion - a.realVersion);
       
-      const [htmlNew, htmlOld] = await Promise.all([fetchHtml(vNew), fetchHtml(vOld)]);
+      const [pageNew, pageOld] = await Promise.all([fetchPage(vNew), fetchPage(vOld)]);
       
-      // [FIXED] Clean the text before diffing
-      const textOld = cleanText(htmlOld);
-      const textNew = cleanText(htmlNew);
+      // Images (and other resources without text) can only be compared as a whole
+      if ((pageOld.resource && pageOld.resource.text === null) || (pageNew.resource && pageNew.resource.text === null)) {
+        if (!pageOld.resource || !pageNew.resource) throw new Error("One version is an image or binary file and the other isn't; open them one at a time.");
+        const identical = await sameBytes(pageOld.resource.blob, pageNew.resource.blob);
+        setComparedImages({ older: pageOld.resource, newer: pageNew.resource, url: vNew.url, identical });
+        setDiffResult([]);
+        setStatusMsg(`Comparing V${vOld.realVersion} -> V${vNew.realVersion}: ${identical ? 'identical bytes' : 'the files differ'}`);
+        setIsLoading(false);
+        return;
+      }
+
+      // Prefer the text extracted at capture time; mixing it with text
+      // cleaned from HTML would show the extraction differences as edits.
+      // Resources always have theirs (PDF text, normalized JSON).
+      const useStoredText = pageOld.articleText !== null && pageNew.articleText !== null;
+      const textOld = useStoredText ? pageOld.articleText! : cleanText(pageOld.html);
+      const textNew = useStoredText ? pageNew.articleText! : cleanText(pageNew.html);
       
-      const diff = Diff.diffWords(textOld, textNew); // Use diffWords for better readability
+      const byLine = [pageOld, pageNew].every((page) => page.resource && isJsonMimeType(page.resource.mimeType));
+      const diff = byLine ? Diff.diffLines(textOld, textNew) : Diff.diffWords(textOld, textNew); // Use diffWords for better readability
+      setDiffByLine(byLine);
       setDiffResult(diff);
       setStatusMsg(`Comparing V${vOld.realVersion} -> V${vNew.realVersion}`);
       
@@ -318,7 +446,7 @@ export function ArchiveViewer() {
         const aiResponse = await fetch(`${import.meta.env.VITE_API_URL}/api/analyze`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ text1: textOld, text2: textNew })
+          body: JSON.stringify({ text1: textOld, text2: textNew, archiveId1: vOld.id, archiveId2: vNew.id })
         });
         const aiData = await aiResponse.json();
         if (aiData.ok && aiData.analysis) {
@@ -357,7 +485,7 @@ export function ArchiveViewer() {
           <div className="flex items-center gap-3 bg-slate-800/50 px-4 py-2 rounded-lg border border-slate-700/50">
             <span className="text-sm font-semibold text-slate-300">Comparison Mode</span>
             <button 
-              onClick={() => { setIsCompareMode(!isCompareMode); setCompareSelection([]); setDiffResult(null); setSelectedContent(null); }}
+              onClick={() => { setIsCompareMode(!isCompareMode); setCompareSelection([]); setDiffResult(null); setComparedImages(null); setSelectedContent(null); setSelectedResource(null); }}
               className={`relative w-14 h-7 rounded-full p-1 transition-all duration-300 ${isCompareMode ? 'bg-gradient-to-r from-blue-500 to-cyan-500' : 'bg-slate-600'}`}
             >
               <div className={`w-5 h-5 bg-white rounded-full shadow-lg transform transition-transform duration-300 ${isCompareMode ? 'translate-x-7' : 'translate-x-0'}`} />
@@ -365,43 +493,9 @@ export function ArchiveViewer() {
           </div>
         </header>
 
-        {/* [NEW] Journalist Key Panel */}
-        {journalistPublicKey && (
-          <div className="mb-6 bg-gradient-to-r from-purple-950/40 to-blue-950/40 border-2 border-purple-500/50 rounded-xl p-4">
-            <div className="flex items-start gap-4">
-              <div className="text-4xl">🕵️</div>
-              <div className="flex-1">
-                <h3 className="text-lg font-bold text-purple-300 mb-2 flex items-center gap-2">
-                  <span>🔑</span>
-                  Journalist Mode Active
-                </h3>
-                <p className="text-sm text-slate-300 mb-3">
-                  You can decrypt sealed archives. Share your public key with whistleblowers to receive encrypted evidence.
-                </p>
-                <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
-                  <div className="flex justify-between items-center mb-2">
-                    <span className="text-xs font-bold text-slate-400">YOUR PUBLIC KEY (Share This):</span>
-                    <button
-                      onClick={() => {
-                        navigator.clipboard.writeText(journalistPublicKey);
-                        alert("✅ Public key copied to clipboard!");
-                      }}
-                      className="text-xs bg-purple-600 hover:bg-purple-500 text-white px-3 py-1 rounded transition-colors"
-                    >
-                      📋 Copy
-                    </button>
-                  </div>
-                  <code className="text-xs text-green-400 font-mono break-all block">
-                    {journalistPublicKey.substring(0, 120)}...
-                  </code>
-                </div>
-                <p className="text-xs text-slate-500 mt-2">
-                  💡 Your private key is stored securely in browser localStorage. Only you can decrypt sealed archives sent to this key.
-                </p>
-              </div>
-            </div>
-          </div>
-        )}
+        <KeyVaultPanel session={vaultSession} onSessionChange={setVaultSession} />
+
+        <SealedUploadPanel defaultRecipientKey={journalistPublicKey} />
 
         <div className="flex gap-4 mb-6">
           <input 
@@ -409,8 +503,21 @@ export function ArchiveViewer() {
             value={searchUrl} 
             onChange={(e) => setSearchUrl(e.target.value)} 
             className="flex-grow p-4 bg-slate-800/50 border border-slate-700 rounded-xl text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all font-mono text-sm"
-            placeholder="Enter exact URL (e.g. https://daily-chronicle.vercel.app)" 
+            placeholder={searchMode === 'exact' ? "Enter page URL (e.g. https://daily-chronicle.vercel.app/article)" : "Enter domain (e.g. daily-chronicle.vercel.app)"} 
           />
+          <div className="flex bg-slate-800/50 border border-slate-700 rounded-xl p-1">
+            {(['exact', 'domain'] as const).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setSearchMode(mode)}
+                className={`px-4 rounded-lg text-sm font-medium transition-colors ${
+                  searchMode === mode ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {mode === 'exact' ? 'Exact page' : 'Whole domain'}
+              </button>
+            ))}
+          </div>
           <button onClick={findArchives} disabled={isLoading} className="px-8 py-4 bg-gradient-to-r from-blue-600 to-violet-600 hover:from-blue-500 hover:to-violet-500 text-white font-semibold rounded-xl disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-lg shadow-blue-900/30">
             {isLoading ? '🔍 Searching...' : '🔍 Search Registry'}
           </button>
@@ -434,10 +541,10 @@ export function ArchiveViewer() {
                 Total Archives: <span className="text-white font-bold">{versions.length}</span>
               </span>
               <span className="text-slate-400">
-                🔒 Sealed: <span className="text-purple-400 font-bold">{versions.filter(v => v.title.includes("🔒")).length}</span>
+                🔒 Sealed: <span className="text-purple-400 font-bold">{versions.filter(isSealedArchive).length}</span>
               </span>
               <span className="text-slate-400">
-                📢 Public: <span className="text-blue-400 font-bold">{versions.filter(v => !v.title.includes("🔒")).length}</span>
+                📢 Public: <span className="text-blue-400 font-bold">{versions.filter(v => !isSealedArchive(v)).length}</span>
               </span>
             </div>
           </div>
@@ -466,38 +573,54 @@ export function ArchiveViewer() {
                   <div className="flex justify-between items-center mb-1.5">
                     <div className="flex items-center gap-2">
                       <span className="font-bold text-slate-100">Version {v.realVersion}</span>
-                      {v.title.includes("🔒") && (
+                      {isSealedArchive(v) && (
                         <span className="text-lg">🔒</span>
                       )}
                     </div>
                     <div className="flex gap-1">
-                      {v.title.includes("🔒") && (
+                      {isSealedArchive(v) && (
                         <span className="text-[10px] bg-purple-500/20 text-purple-300 px-2 py-0.5 rounded-full border border-purple-500/30 flex items-center gap-1 font-bold">
                           <span className="text-[8px]">🔒</span> SEALED
                         </span>
                       )}
-                      <span className="text-[10px] bg-blue-500/20 text-blue-300 px-2 py-0.5 rounded-full border border-blue-500/30 flex items-center gap-1">
-                        <span className="text-[8px]">⚓️</span> Verified
-                      </span>
+                      {integrity[v.id] === 'verified' && (
+                        <span className="text-[10px] bg-green-500/20 text-green-300 px-2 py-0.5 rounded-full border border-green-500/30 flex items-center gap-1" title="SHA-256 of the fetched blob matches the on-chain content hash">
+                          <span className="text-[8px]">⚓️</span> Verified
+                        </span>
+                      )}
+                      {integrity[v.id] === 'mismatch' && (
+                        <span className="text-[10px] bg-red-500/20 text-red-300 px-2 py-0.5 rounded-full border border-red-500/30 flex items-center gap-1" title="No source served bytes matching the on-chain content hash">
+                          <span className="text-[8px]">⚠️</span> Mismatch
+                        </span>
+                      )}
+                      {integrity[v.id] === 'unverifiable' && (
+                        <span className="text-[10px] bg-yellow-500/20 text-yellow-300 px-2 py-0.5 rounded-full border border-yellow-500/30 flex items-center gap-1" title="This archive has no on-chain content hash">
+                          No hash
+                        </span>
+                      )}
+                      {!integrity[v.id] && (
+                        <span className="text-[10px] bg-slate-500/20 text-slate-400 px-2 py-0.5 rounded-full border border-slate-500/30 flex items-center gap-1" title="Verified against the on-chain hash when opened">
+                          Unchecked
+                        </span>
+                      )}
                     </div>
                   </div>
+                  {resultMode === 'domain' ? (
+                    <div className="text-[10px] text-slate-500 font-mono truncate mb-1" title={v.url}>{v.url}</div>
+                  ) : null}
                   <div className="text-xs text-slate-400 mb-2">
                     {new Date(parseInt(v.capturedAtMs)).toLocaleString()}
-                    {v.title.includes("🔒") && (
+                    {isSealedArchive(v) && (
                       <div className="text-purple-400 font-semibold mt-1">🔐 Encrypted Archive</div>
                     )}
+                    {v.captureMethod === 'client' && (
+                      <div className="text-amber-400 font-semibold mt-1" title="Captured in the submitter's own browser; the archiving server never loaded this page">📱 Client-captured</div>
+                    )}
                   </div>
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
-                      generateCertificate(
-                        v.url,
-                        v.realVersion,
-                        v.capturedAtMs,
-                        v.objectId, // Using object ID as transaction reference
-                        v.contentHash,
-                        v.walrusBlobId
-                      );
+                      downloadCertificate(v);
                     }}
                     className="text-[10px] flex items-center gap-1 bg-gray-100 hover:bg-gray-200 text-gray-700 px-2 py-1 rounded border border-gray-300 transition-colors w-full justify-center"
                   >
@@ -505,12 +628,41 @@ export function ArchiveViewer() {
                   </button>
                 </div>
               ))}
+              {nextPage && (
+                <button onClick={loadMore} disabled={isLoading} className="w-full text-xs text-slate-300 bg-slate-800/50 hover:bg-slate-800 border border-slate-700/50 rounded-lg py-2 disabled:opacity-50 transition-colors">
+                  Load older versions
+                </button>
+              )}
             </div>
           </div>
 
           <div className="col-span-9 bg-slate-900/50 border border-slate-700/50 rounded-xl overflow-hidden relative shadow-xl">
+            {!isCompareMode && selectedResource && (
+              <ResourceView resource={selectedResource.resource} url={selectedResource.url} />
+            )}
+
             {!isCompareMode && selectedContent && (
-              <iframe srcDoc={selectedContent} title="Content" className="w-full h-full bg-white" sandbox="" />
+              <div className="w-full h-full flex flex-col">
+                <CaptureDetailsPanel manifest={captureManifest} />
+                {pdfUrl && (
+                  <div className="flex gap-1 px-4 py-1.5 bg-slate-950 border-b border-slate-700/50 text-xs">
+                    {([['Page', false], ['PDF rendering', true]] as const).map(([label, pdfView]) => (
+                      <button
+                        key={label}
+                        onClick={() => setShowPdfView(pdfView)}
+                        className={`px-2 py-0.5 rounded ${showPdfView === pdfView ? 'bg-cyan-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {pdfUrl && showPdfView ? (
+                  <iframe src={pdfUrl} title="PDF rendering" className="w-full flex-1 bg-white" />
+                ) : (
+                  <iframe srcDoc={selectedContent} title="Content" className="w-full flex-1 bg-white" sandbox="" />
+                )}
+              </div>
             )}
 
             {isCompareMode && diffResult && (
@@ -581,7 +733,17 @@ export function ArchiveViewer() {
                     Removed Content
                   </p>
                 </div>
-                <div className="text-base leading-relaxed font-serif">
+                {comparedImages && (
+                  <div className="grid grid-cols-2 gap-4 h-[70vh]">
+                    {(['older', 'newer'] as const).map((side) => (
+                      <div key={side} className="flex flex-col border border-slate-700/50 rounded-lg overflow-hidden">
+                        <div className="px-3 py-1 text-xs text-slate-400 bg-slate-900">{side === 'older' ? 'Older version' : 'Newer version'}</div>
+                        <ResourceView resource={comparedImages[side]} url={comparedImages.url} />
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className={diffByLine ? "text-sm leading-relaxed font-mono whitespace-pre-wrap" : "text-base leading-relaxed font-serif"}>
                   {diffResult.map((part, index) => {
                     if (!part.added && !part.removed) return <span key={index} className="text-slate-500">{part.value} </span>;
                     return (
@@ -594,7 +756,7 @@ export function ArchiveViewer() {
               </div>
             )}
 
-            {!selectedContent && !diffResult && (
+            {!selectedContent && !selectedResource && !diffResult && (
               <div className="absolute inset-0 flex items-center justify-center">
                 <div className="text-center text-slate-500">
                   {isCompareMode ? (
@@ -624,9 +786,12 @@ export function ArchiveViewer() {
             🌊 Powered by <span className="text-cyan-400 font-semibold">Walrus</span> + 
             <span className="text-blue-400 font-semibold ml-1">Sui Blockchain</span>
           </p>
-          <p className="mt-1 font-mono">
-            Registry: <span className="text-slate-500">{REGISTRY_ID.slice(0, 20)}...</span>
-          </p>
+          {registry && (
+            <p className="mt-1 font-mono">
+              Registry: <span className="text-slate-500">{registry.registryId.slice(0, 20)}...</span>
+              {registry.totalVersions !== null && <span className="text-slate-500"> ({registry.totalVersions} versions on-chain)</span>}
+            </p>
+          )}
         </div>
       </div>
     </div>
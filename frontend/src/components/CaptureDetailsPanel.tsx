@@ -0,0 +1,175 @@
+import type { ReactNode } from 'react';
+import type { CaptureManifest } from '../utils/captureManifest';
+
+/**
+ * What the backend saw when it captured the version on display, read from
+ * the archive's manifest.json: whether the page answered 200 or was an
+ * error page, block or redirect, where it was served from and how. Client
+ * captures are flagged: the backend never loaded those pages.
+ */
+
+const statusClass = (status: number) =>
+  status >= 200 && status < 300 ? 'bg-green-500/20 text-green-300 border-green-500/50' :
+  status >= 300 && status < 400 ? 'bg-yellow-500/20 text-yellow-300 border-yellow-500/50' :
+  'bg-red-500/20 text-red-300 border-red-500/50';
+
+const Row = ({ label, children }: { label: string; children: ReactNode }) => (
+  <div className="grid grid-cols-[9rem_1fr] gap-2 py-0.5">
+    <span className="text-slate-500">{label}</span>
+    <span className="text-slate-200 font-mono break-all">{children}</span>
+  </div>
+);
+
+export function CaptureDetailsPanel({ manifest }: { manifest: CaptureManifest | null }) {
+  if (!manifest) {
+    return (
+      <div className="px-4 py-2 text-xs text-slate-500 bg-slate-950 border-b border-slate-700/50">
+        ℹ️ No capture details: this archive predates manifest.json or was captured in the browser.
+      </div>
+    );
+  }
+
+  const { response, browser, timings } = manifest;
+  const config = browser.config;
+  const interactions = manifest.interactions;
+  const redirected = manifest.finalUrl !== null && manifest.finalUrl !== manifest.url;
+  const client = manifest.captureMethod === 'client' ? manifest.client ?? null : null;
+
+  return (
+    <details className="text-xs bg-slate-950 border-b border-slate-700/50 max-h-[45%] overflow-auto">
+      <summary className="px-4 py-2 cursor-pointer text-slate-300 flex items-center gap-2 select-none">
+        <span>🧾 Capture details</span>
+        {manifest.captureMethod === 'client' ? (
+          <span className="px-2 py-0.5 rounded border bg-amber-500/20 text-amber-300 border-amber-500/50">
+            📱 Client-captured: submitted from a user's browser, not loaded by the server
+          </span>
+        ) : response ? (
+          <span className={`px-2 py-0.5 rounded border font-mono ${statusClass(response.status)}`}>
+            HTTP {response.status} {response.statusText}
+          </span>
+        ) : (
+          <span className="text-slate-500">no HTTP response recorded</span>
+        )}
+        {redirected && <span className="text-yellow-300">↪ redirected</span>}
+        {response && !response.tls && <span className="text-slate-400">⚠️ plain HTTP</span>}
+      </summary>
+
+      <div className="px-4 pb-3 space-y-3">
+        <div>
+          <Row label="Requested URL">{manifest.url}</Row>
+          <Row label="Final URL">{manifest.finalUrl ?? '—'}</Row>
+          <Row label="Captured at">
+            {new Date(manifest.capturedAt).toUTCString()}
+            {manifest.captureMethod === 'client' && ' (received by the server)'}
+          </Row>
+          {manifest.resource && <Row label="Document">{manifest.resource.mimeType}, requested directly without the browser</Row>}
+          {client && (
+            <>
+              <Row label="Client clock">{client.capturedAt ? new Date(client.capturedAt).toUTCString() : '—'}</Row>
+              {client.viewport && (
+                <Row label="Client viewport">
+                  {client.viewport.width}×{client.viewport.height}
+                  {client.viewport.deviceScaleFactor > 1 && ` @${client.viewport.deviceScaleFactor}x`}
+                </Row>
+              )}
+            </>
+          )}
+          {response && (
+            <Row label="Server address">
+              {response.remoteAddress.ip ?? 'unknown'}{response.remoteAddress.port !== null && `:${response.remoteAddress.port}`}
+            </Row>
+          )}
+        </div>
+
+        {response && response.redirectChain.length > 0 && (
+          <div>
+            <div className="text-slate-400 font-bold mb-1">Redirect chain</div>
+            <ol className="list-decimal list-inside space-y-0.5 font-mono text-slate-300">
+              {response.redirectChain.map((hop, i) => (
+                <li key={i} className="break-all">
+                  {hop.status ?? '?'} {hop.url}{hop.location && <span className="text-slate-500"> → {hop.location}</span>}
+                </li>
+              ))}
+              <li className="break-all">{response.status} {manifest.finalUrl}</li>
+            </ol>
+          </div>
+        )}
+
+        {response?.tls && (
+          <div>
+            <div className="text-slate-400 font-bold mb-1">TLS certificate</div>
+            <Row label="Protocol">{response.tls.protocol}</Row>
+            <Row label="Subject">{response.tls.subjectName}</Row>
+            <Row label="Issuer">{response.tls.issuer}</Row>
+            <Row label="Valid">
+              {new Date(response.tls.validFrom).toISOString().slice(0, 10)} → {new Date(response.tls.validTo).toISOString().slice(0, 10)}
+            </Row>
+            {response.tls.subjectAlternativeNames.length > 0 && (
+              <Row label="Alt. names">{response.tls.subjectAlternativeNames.join(', ')}</Row>
+            )}
+          </div>
+        )}
+
+        <div>
+          <div className="text-slate-400 font-bold mb-1">Browser</div>
+          <Row label="Version">{browser.version ?? '—'}</Row>
+          <Row label="User agent">{browser.userAgent ?? '—'}</Row>
+          {config && (
+            <>
+              {config.profile && <Row label="Profile">{config.profile}{config.media === 'print' && ' (print media)'}</Row>}
+              <Row label="Viewport">
+                {config.viewport.width}×{config.viewport.height}
+                {config.viewport.deviceScaleFactor > 1 && ` @${config.viewport.deviceScaleFactor}x`}
+                {config.viewport.isMobile && ', mobile'}
+              </Row>
+              {config.locale && <Row label="Locale">{config.locale}</Row>}
+              <Row label="Wait until">
+                {config.waitUntil}
+                {config.waitForSelector && `, then "${config.waitForSelector}"`}
+                {config.delayMs > 0 && ` + ${config.delayMs} ms`}
+              </Row>
+              {config.headers && Object.entries(config.headers).map(([name, value]) => (
+                <Row key={name} label={`Sent ${name}`}>{value}</Row>
+              ))}
+            </>
+          )}
+          {interactions && (
+            <Row label="Interactions">
+              {interactions.scrollSteps > 0 ? `scrolled ${interactions.scrollSteps} screen(s)` : 'no scrolling'}
+              {'; '}
+              {interactions.consentClicks.length > 0 ? `clicked ${interactions.consentClicks.join(', ')}` : 'no consent banner clicked'}
+            </Row>
+          )}
+          <Row label="Network log">
+            {manifest.captureMethod === 'client'
+              ? `${manifest.network.exchanges} resources submitted by the client`
+              : manifest.network.recorded ? `${manifest.network.exchanges} exchanges recorded` : 'not recorded'}
+          </Row>
+        </div>
+
+        <div>
+          <div className="text-slate-400 font-bold mb-1">Timings</div>
+          {timings.capture && Object.entries(timings.capture).map(([step, ms]) => (
+            <Row key={step} label={step.replace(/Ms$/, '')}>{ms} ms</Row>
+          ))}
+          {timings.stages.map((stage) => (
+            <Row key={stage.name} label={`${stage.name} stage`}>{stage.durationMs ?? '?'} ms</Row>
+          ))}
+        </div>
+
+        {response && (
+          <details>
+            <summary className="cursor-pointer text-slate-400 font-bold">
+              Response headers ({Object.keys(response.headers).length})
+            </summary>
+            <div className="mt-1">
+              {Object.entries(response.headers).map(([name, value]) => (
+                <Row key={name} label={name}>{value}</Row>
+              ))}
+            </div>
+          </details>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,291 @@
+import { useState } from 'react';
+import {
+  activeKey,
+  addIdentity,
+  createVault,
+  exportBackup,
+  hasLegacyKeys,
+  importBackup,
+  loadVault,
+  rotateIdentity,
+  setActiveIdentity,
+  unlockVault,
+  type VaultFile,
+  type VaultSession,
+} from '../utils/keyVault';
+import { fetchDirectoryEntry, publishKey, revokeKey, type DirectoryEntry } from '../utils/recipientDirectory';
+
+/**
+ * Journalist identities: create or unlock the passphrase-protected key
+ * vault, manage identities, rotate keys, move the vault between browsers
+ * with an encrypted backup file and publish keys to the recipient
+ * directory so sources can find them by name.
+ */
+
+const MIN_PASSPHRASE_LENGTH = 10;
+
+// Same form as the directory's shortFingerprint, so the two can be compared by eye
+const shortFingerprint = (fingerprint: string) => fingerprint.slice(0, 16).match(/.{4}/g)!.join(':');
+
+const currentKeys = (session: VaultSession) => session.keys.filter((k) => !k.retired);
+
+const readStoredVault = (): VaultFile | null => {
+  try {
+    return loadVault();
+  } catch (err) {
+    console.error("Stored key vault is unreadable:", err);
+    return null;
+  }
+};
+
+export function KeyVaultPanel({ session, onSessionChange }: {
+  session: VaultSession | null;
+  onSessionChange: (session: VaultSession | null) => void;
+}) {
+  const [storedVault, setStoredVault] = useState<VaultFile | null>(readStoredVault);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [identityName, setIdentityName] = useState('Journalist');
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Directory entry per current key fingerprint; null when not published
+  const [directory, setDirectory] = useState<Record<string, DirectoryEntry | null>>({});
+
+  const refreshDirectory = async (next: VaultSession) => {
+    const entries = await Promise.all(currentKeys(next).map(async (key) => {
+      try {
+        return [key.fingerprint, await fetchDirectoryEntry(key.fingerprint)] as const;
+      } catch (err) {
+        console.warn("Recipient directory lookup failed:", err);
+        return [key.fingerprint, null] as const;
+      }
+    }));
+    setDirectory(Object.fromEntries(entries));
+  };
+
+  const run = async (action: () => Promise<VaultSession | null>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const next = await action();
+      onSessionChange(next);
+      setStoredVault(next?.vault ?? readStoredVault());
+      setPassphrase('');
+      setConfirmPassphrase('');
+      if (next) await refreshDirectory(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+    setIsBusy(false);
+  };
+
+  // Rotating retires the old key; if it was listed, sources should stop using it
+  const rotate = (current: VaultSession, identityId: string, name: string) => run(async () => {
+    const oldKey = currentKeys(current).find((k) => k.identityId === identityId);
+    const listed = oldKey ? directory[oldKey.fingerprint] : null;
+    const next = await rotateIdentity(current, identityId);
+    if (oldKey && listed && !listed.revokedAt && confirm(`Revoke the old key of "${name}" in the recipient directory?`)) {
+      await revokeKey(oldKey, listed);
+    }
+    return next;
+  });
+
+  const publish = (current: VaultSession, identityId: string, name: string) => run(async () => {
+    const key = currentKeys(current).find((k) => k.identityId === identityId);
+    if (key) await publishKey(key, name);
+    return current;
+  });
+
+  const revoke = (current: VaultSession, identityId: string, name: string) => run(async () => {
+    const key = currentKeys(current).find((k) => k.identityId === identityId);
+    const listed = key ? directory[key.fingerprint] : null;
+    if (key && listed && confirm(`Revoke "${name}" in the recipient directory? This can't be undone; rotate the key to publish again.`)) {
+      await revokeKey(key, listed);
+    }
+    return current;
+  });
+
+  const create = () => run(async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) throw new Error(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    if (passphrase !== confirmPassphrase) throw new Error('Passphrases do not match');
+    return createVault(passphrase, identityName.trim() || 'Journalist');
+  });
+
+  const restore = () => run(async () => {
+    if (!backupFile) throw new Error('Choose a backup file');
+    if (storedVault && !confirm('Replace the key vault stored in this browser with the backup?')) return session;
+    return importBackup(await backupFile.text(), passphrase);
+  });
+
+  const downloadBackup = () => {
+    if (!session) return;
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(exportBackup(session.vault));
+    link.download = `archivechain-keys-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const inputClass = "p-2 bg-slate-800/50 border border-slate-700 rounded-lg text-slate-100 placeholder-slate-500 text-sm";
+  const buttonClass = "text-xs bg-purple-600 hover:bg-purple-500 text-white px-3 py-1.5 rounded transition-colors disabled:opacity-50";
+
+  const restoreForm = (
+    <div className="flex items-center gap-3 mt-3">
+      <span className="text-xs text-slate-400">or restore a backup:</span>
+      <input
+        type="file"
+        accept="application/json,.json"
+        onChange={(e) => setBackupFile(e.target.files?.[0] ?? null)}
+        className="text-xs text-slate-400 file:mr-3 file:px-3 file:py-1 file:rounded file:border-0 file:bg-slate-700 file:text-slate-200"
+      />
+      <button onClick={restore} disabled={isBusy || !backupFile || !passphrase} className={buttonClass}>
+        Restore
+      </button>
+    </div>
+  );
+
+  const current = session ? activeKey(session) : null;
+
+  return (
+    <div className="mb-6 bg-gradient-to-r from-purple-950/40 to-blue-950/40 border-2 border-purple-500/50 rounded-xl p-4">
+      <div className="flex items-start gap-4">
+        <div className="text-4xl">🕵️</div>
+        <div className="flex-1">
+          <h3 className="text-lg font-bold text-purple-300 mb-2 flex items-center gap-2">
+            <span>🔑</span>
+            {session ? 'Journalist Mode Active' : 'Journalist Key Vault'}
+          </h3>
+
+          {!session && !storedVault && (
+            <>
+              <p className="text-sm text-slate-300 mb-3">
+                {hasLegacyKeys()
+                  ? 'Your existing key is stored unprotected in this browser. Choose a passphrase to move it into the vault.'
+                  : 'Create a keypair to receive sealed archives. Its private key is encrypted with your passphrase.'}
+              </p>
+              <div className="flex gap-3">
+                <input value={identityName} onChange={(e) => setIdentityName(e.target.value)} placeholder="Identity name" className={`${inputClass} w-40`} />
+                <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="Passphrase" className={`${inputClass} flex-1`} />
+                <input type="password" value={confirmPassphrase} onChange={(e) => setConfirmPassphrase(e.target.value)} placeholder="Repeat passphrase" className={`${inputClass} flex-1`} />
+                <button onClick={create} disabled={isBusy} className={buttonClass}>
+                  {isBusy ? 'Working...' : 'Create vault'}
+                </button>
+              </div>
+              {restoreForm}
+            </>
+          )}
+
+          {!session && storedVault && (
+            <>
+              <p className="text-sm text-slate-300 mb-3">
+                Unlock your vault ({storedVault.identities.length} identit{storedVault.identities.length === 1 ? 'y' : 'ies'}) to open sealed archives.
+              </p>
+              <div className="flex gap-3">
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && run(() => unlockVault(storedVault, passphrase))}
+                  placeholder="Passphrase"
+                  className={`${inputClass} flex-1`}
+                />
+                <button onClick={() => run(() => unlockVault(storedVault, passphrase))} disabled={isBusy} className={buttonClass}>
+                  {isBusy ? 'Unlocking...' : '🔓 Unlock'}
+                </button>
+              </div>
+              {restoreForm}
+            </>
+          )}
+
+          {session && (
+            <>
+              <p className="text-sm text-slate-300 mb-3">
+                You can decrypt sealed archives. Share the active public key with whistleblowers to receive encrypted evidence.
+              </p>
+              <div className="space-y-2">
+                {session.vault.identities.map((identity) => {
+                  const isActive = identity.id === session.vault.activeIdentityId;
+                  const currentKey = identity.keys[identity.keys.length - 1];
+                  const listed = directory[currentKey.fingerprint];
+                  return (
+                    <div key={identity.id} className={`bg-slate-900/50 rounded-lg p-3 border ${isActive ? 'border-purple-500' : 'border-slate-700'}`}>
+                      <div className="flex justify-between items-center gap-2">
+                        <div className="text-sm">
+                          <span className="font-bold text-slate-200">{identity.name}</span>
+                          {isActive && <span className="ml-2 text-[10px] bg-purple-600 text-white px-1.5 py-0.5 rounded">ACTIVE</span>}
+                          <div className="text-xs font-mono text-green-400">{shortFingerprint(currentKey.fingerprint)}</div>
+                          <div className="text-xs text-slate-500">
+                            {!listed && 'Not in the recipient directory'}
+                            {listed && !listed.revokedAt && `📇 Listed as "${listed.displayName}"`}
+                            {listed?.revokedAt && `⛔ Revoked in the directory on ${new Date(listed.revokedAt).toLocaleDateString()}`}
+                          </div>
+                          {identity.keys.length > 1 && (
+                            <div className="text-xs text-slate-500">
+                              {identity.keys.length - 1} retired key(s) kept for older archives
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex gap-2">
+                          {!isActive && (
+                            <button onClick={() => onSessionChange(setActiveIdentity(session, identity.id))} className={buttonClass}>
+                              Use
+                            </button>
+                          )}
+                          <button
+                            onClick={() => {
+                              navigator.clipboard.writeText(currentKey.publicKey);
+                              alert("✅ Public key copied to clipboard!");
+                            }}
+                            className={buttonClass}
+                          >
+                            📋 Copy
+                          </button>
+                          {!listed?.revokedAt && (
+                            <button onClick={() => publish(session, identity.id, identity.name)} disabled={isBusy} className={buttonClass}>
+                              📇 {listed ? 'Update' : 'Publish'}
+                            </button>
+                          )}
+                          {listed && !listed.revokedAt && (
+                            <button onClick={() => revoke(session, identity.id, identity.name)} disabled={isBusy} className={buttonClass}>
+                              ⛔ Revoke
+                            </button>
+                          )}
+                          <button
+                            onClick={() => confirm(`Rotate "${identity.name}"? Sources must be given the new public key.`) && rotate(session, identity.id, identity.name)}
+                            disabled={isBusy}
+                            className={buttonClass}
+                          >
+                            🔄 Rotate
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="flex gap-3 mt-3">
+                <input value={identityName} onChange={(e) => setIdentityName(e.target.value)} placeholder="New identity name" className={`${inputClass} w-48`} />
+                <button onClick={() => run(() => addIdentity(session, identityName.trim() || 'Journalist'))} disabled={isBusy} className={buttonClass}>
+                  ➕ Add identity
+                </button>
+                <button onClick={downloadBackup} className={buttonClass}>💾 Export backup</button>
+                <button onClick={() => onSessionChange(null)} className={buttonClass}>🔒 Lock</button>
+              </div>
+              {current && (
+                <code className="text-xs text-green-400 font-mono break-all block mt-3">
+                  {current.publicKey.substring(0, 120)}...
+                </code>
+              )}
+            </>
+          )}
+
+          {error && <div className="text-sm text-red-400 mt-2">❌ {error}</div>}
+          <p className="text-xs text-slate-500 mt-2">
+            💡 Private keys are stored encrypted with your passphrase. Export a backup: without it, clearing site data loses access to every sealed archive.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { useEffect, useMemo } from 'react';
+import { resourceFileName, type ArchivedResource } from '../utils/resource';
+
+/**
+ * An archived PDF, image or JSON document, shown the way the browser would
+ * show it, with a download of the original bytes. Types the browser can't
+ * display safely are offered as a download only.
+ */
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export function ResourceView({ resource, url }: { resource: ArchivedResource; url: string }) {
+  const objectUrl = useMemo(() => URL.createObjectURL(resource.blob), [resource.blob]);
+  useEffect(() => () => URL.revokeObjectURL(objectUrl), [objectUrl]);
+
+  const { mimeType, text } = resource;
+  let body;
+  if (mimeType.startsWith('image/')) {
+    // SVG scripts don't run in an <img>
+    body = (
+      <div className="flex-1 overflow-auto flex items-start justify-center p-4 bg-[repeating-conic-gradient(#1e293b_0%_25%,#0f172a_0%_50%)] bg-[length:16px_16px]">
+        <img src={objectUrl} alt={url} className="max-w-full" />
+      </div>
+    );
+  } else if (mimeType === 'application/pdf') {
+    body = <iframe src={objectUrl} title="Archived PDF" className="w-full flex-1 bg-white" />;
+  } else if (text !== null) {
+    body = <pre className="flex-1 overflow-auto p-4 text-xs text-slate-200 font-mono whitespace-pre-wrap break-all">{text}</pre>;
+  } else {
+    body = (
+      <div className="flex-1 flex items-center justify-center text-sm text-slate-400">
+        This file type can't be displayed here; download it to open it.
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-full flex flex-col">
+      <div className="flex items-center gap-3 px-4 py-2 text-xs bg-slate-950 border-b border-slate-700/50">
+        <span className="font-mono text-cyan-300">{mimeType}</span>
+        <span className="text-slate-500">{formatBytes(resource.blob.size)}, stored exactly as served</span>
+        <a
+          href={objectUrl}
+          download={resourceFileName(url, mimeType)}
+          className="ml-auto px-2 py-0.5 rounded bg-slate-800 hover:bg-slate-700 text-slate-200 border border-slate-600"
+        >
+          ⬇ Download original
+        </a>
+      </div>
+      {body}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import JSZip from 'jszip';
+import { encryptData } from '../utils/crypto';
+
+/**
+ * Client-side sealing: the page is packaged and encrypted in this browser
+ * and only the sealed envelope is uploaded, so the backend never holds the
+ * plaintext. The backend hashes, stores and anchors it on Sui.
+ */
+
+type UploadResult = {
+  suiArchiveId: string | null;
+  suiTxDigest: string | null;
+  walrusBlobId: string;
+  contentHashHex: string;
+  recipientFingerprints: string[];
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Poll the archive job until it finishes
+const waitForJob = async (jobId: string, onStage: (stage: string) => void): Promise<UploadResult> => {
+  for (;;) {
+    const response = await fetch(`${import.meta.env.VITE_API_URL}/api/jobs/${jobId}`);
+    const data = await response.json() as {
+      ok: boolean;
+      error?: string;
+      job: { status: string; currentStage: string | null; error: string | null; result: UploadResult | null };
+    };
+    if (!data.ok) throw new Error(data.error ?? `Job lookup failed (${response.status})`);
+
+    const { job } = data;
+    if (job.status === 'succeeded' && job.result) return job.result;
+    if (job.status === 'failed') throw new Error(job.error ?? 'Archive job failed');
+    onStage(job.currentStage ?? 'queued');
+    await sleep(1500);
+  }
+};
+
+/**
+ * The saved page (Ctrl+S / "Save page as") becomes index.html, like a
+ * server capture; every other file is kept under attachments/.
+ */
+const packageFiles = async (files: File[]): Promise<ArrayBuffer> => {
+  const zip = new JSZip();
+  const page = files.find((f) => /\.html?$/i.test(f.name));
+  if (page) zip.file('index.html', await page.arrayBuffer());
+  for (const file of files) {
+    if (file === page) continue;
+    zip.file(/\.png$/i.test(file.name) && !zip.file('screenshot.png') ? 'screenshot.png' : `attachments/${file.name}`, await file.arrayBuffer());
+  }
+  return zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+};
+
+export function SealedUploadPanel({ defaultRecipientKey }: { defaultRecipientKey: string | null }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [url, setUrl] = useState('');
+  const [title, setTitle] = useState('');
+  const [recipientKeys, setRecipientKeys] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [result, setResult] = useState<UploadResult | null>(null);
+
+  const sealAndUpload = async () => {
+    const keys = recipientKeys.split(/\s+/).map((k) => k.trim()).filter(Boolean);
+    if (!url || !title || files.length === 0 || keys.length === 0) {
+      setStatus('❌ URL, title, at least one file and one recipient key are required.');
+      return;
+    }
+
+    setIsBusy(true);
+    setResult(null);
+    try {
+      setStatus('📦 Packaging in your browser...');
+      const archive = await packageFiles(files);
+
+      setStatus(`🔒 Sealing for ${keys.length} recipient(s)...`);
+      const sealed = await encryptData(archive, keys);
+
+      setStatus('⬆️ Uploading sealed envelope...');
+      const params = new URLSearchParams({ url, title });
+      const response = await fetch(`${import.meta.env.VITE_API_URL}/api/archive/sealed-upload?${params}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: sealed,
+      });
+      const created = await response.json() as { ok: boolean; error?: string; jobId: string };
+      if (!created.ok) throw new Error(created.error ?? `Upload failed (${response.status})`);
+
+      const uploaded = await waitForJob(created.jobId, (stage) => setStatus(`⏳ ${stage}...`));
+      setResult(uploaded);
+      setStatus('✅ Sealed archive anchored. The server never saw the content.');
+    } catch (err) {
+      setStatus(`❌ Error: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    setIsBusy(false);
+  };
+
+  return (
+    <div className="mb-6 bg-slate-900/50 border border-purple-500/30 rounded-xl">
+      <button
+        onClick={() => {
+          setIsOpen(!isOpen);
+          if (!recipientKeys && defaultRecipientKey) setRecipientKeys(defaultRecipientKey);
+        }}
+        className="w-full flex justify-between items-center p-4 text-left"
+      >
+        <span className="font-bold text-purple-300">🔐 Seal in Browser & Upload</span>
+        <span className="text-xs text-slate-400">{isOpen ? 'Hide' : 'Plaintext never leaves this device'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3">
+          <div className="flex gap-3">
+            <input
+              type="text"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="Original page URL"
+              className="flex-1 p-2 bg-slate-800/50 border border-slate-700 rounded-lg text-slate-100 placeholder-slate-500 font-mono text-sm"
+            />
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Title"
+              className="flex-1 p-2 bg-slate-800/50 border border-slate-700 rounded-lg text-slate-100 placeholder-slate-500 text-sm"
+            />
+          </div>
+          <textarea
+            value={recipientKeys}
+            onChange={(e) => setRecipientKeys(e.target.value)}
+            placeholder="Recipient public keys, one per line"
+            className="w-full h-20 p-2 bg-slate-800/50 border border-slate-700 rounded-lg text-green-400 placeholder-slate-500 font-mono text-xs"
+          />
+          <div className="flex items-center gap-3">
+            <input
+              type="file"
+              multiple
+              onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+              className="flex-1 text-xs text-slate-400 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-slate-700 file:text-slate-200"
+            />
+            <button
+              onClick={sealAndUpload}
+              disabled={isBusy}
+              className="px-5 py-2 bg-gradient-to-r from-purple-600 to-violet-600 hover:from-purple-500 hover:to-violet-500 text-white text-sm font-semibold rounded-lg disabled:opacity-50 transition-all"
+            >
+              {isBusy ? 'Working...' : '🔒 Seal & Upload'}
+            </button>
+          </div>
+          <p className="text-xs text-slate-500">
+            💡 Save the page from your browser (.html) and add screenshots or documents. They are zipped and encrypted here before upload. To seal the page you're viewing in one step, use the extension's 🔒 Sealed mode.
+          </p>
+          {status && <div className="text-sm text-purple-200">{status}</div>}
+          {result && (
+            <div className="text-xs font-mono text-slate-400 space-y-1">
+              <div>Archive: {result.suiArchiveId ?? 'not anchored on-chain'}</div>
+              <div>Blob: {result.walrusBlobId}</div>
+              <div>SHA-256: {result.contentHashHex}</div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
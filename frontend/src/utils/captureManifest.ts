@@ -0,0 +1,93 @@
+// frontend/src/utils/captureManifest.ts
+/**
+ * Reader for the manifest.json the backend writes into each archive
+ * (backend/src/manifest.ts): HTTP status, headers, redirects, server
+ * address, TLS certificate, browser setup and stage timings.
+ */
+import type JSZip from 'jszip';
+
+export type RedirectHop = {
+  url: string;
+  status: number | null;
+  location: string | null;
+};
+
+export type TlsDetails = {
+  protocol: string;
+  subjectName: string;
+  issuer: string;
+  validFrom: string;
+  validTo: string;
+  subjectAlternativeNames: string[];
+};
+
+export type CaptureMethod = 'server' | 'client';
+
+export type CaptureManifest = {
+  type: 'archivechain-capture-manifest';
+  version: number;
+  url: string;
+  canonicalUrl: string | null;
+  finalUrl: string | null;
+  baseUrl: string | null;
+  capturedAt: string;
+  captureMethod: CaptureMethod;
+  // What the submitting browser reported about itself, for client captures
+  client?: {
+    capturedAt: string | null;
+    userAgent: string | null;
+    viewport: { width: number; height: number; deviceScaleFactor: number } | null;
+  } | null;
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    remoteAddress: { ip: string | null; port: number | null };
+    redirectChain: RedirectHop[];
+    tls: TlsDetails | null;
+  } | null;
+  browser: {
+    version: string | null;
+    userAgent: string | null;
+    config: {
+      profile: string;
+      viewport: { width: number; height: number; deviceScaleFactor: number; isMobile: boolean; hasTouch: boolean };
+      userAgent: string | null;
+      locale: string | null;
+      headers: Record<string, string>;
+      media: 'screen' | 'print';
+      waitUntil: string;
+      waitForSelector: string | null;
+      delayMs: number;
+      autoScroll: boolean;
+      dismissConsent: boolean;
+      consentSelectors: string[];
+      fullPageScreenshot: boolean;
+      recordNetwork: boolean;
+    } | null;
+  };
+  timings: {
+    capture: Record<string, number> | null;
+    stages: { name: string; startedAt: string | null; finishedAt: string | null; durationMs: number | null }[];
+  };
+  network: { recorded: boolean; exchanges: number };
+  // Clicks and scrolling done before the snapshot
+  interactions: { consentClicks: string[]; scrollSteps: number } | null;
+  // Set for a PDF, image or other document archived as served: the file holding its bytes
+  resource: { file: string; mimeType: string; bytes: number; fetchMs: number } | null;
+};
+
+export const MANIFEST_FILE = 'manifest.json';
+
+/** The archive's manifest, or null for archives captured before manifests existed. */
+export const readCaptureManifest = async (zip: JSZip): Promise<CaptureManifest | null> => {
+  const text = await zip.file(MANIFEST_FILE)?.async('string');
+  if (!text) return null;
+  try {
+    const manifest = JSON.parse(text) as CaptureManifest;
+    return manifest.type === 'archivechain-capture-manifest' ? manifest : null;
+  } catch (err) {
+    console.warn("Unreadable capture manifest:", err);
+    return null;
+  }
+};
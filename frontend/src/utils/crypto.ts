@@ -3,6 +3,7 @@
  * Cryptographic utilities for end-to-end encryption in Whistleblower Mode.
  * Implements hybrid encryption: RSA-OAEP for key exchange, AES-GCM for content.
  */
+import { openEnvelope, sealEnvelope } from '../../../shared/envelope';
 
 /**
  * Generates an RSA-OAEP 2048-bit keypair for journalist identity.
@@ -50,87 +51,64 @@ export const importPublicKey = async (pem: string): Promise<CryptoKey> => {
 };
 
 // 4. Encrypt Data (Hybrid: AES for data, RSA for AES key)
-export const encryptData = async (data: ArrayBuffer, publicKey: CryptoKey) => {
-  // A. Generate a one-time AES key
-  const aesKey = await window.crypto.subtle.generateKey(
-    { name: "AES-GCM", length: 256 },
-    true,
-    ["encrypt"]
-  );
-
-  // B. Encrypt the actual file data with AES
-  const iv = window.crypto.getRandomValues(new Uint8Array(12));
-  const encryptedContent = await window.crypto.subtle.encrypt(
-    { name: "AES-GCM", iv },
-    aesKey,
-    data
-  );
-
-  // C. Export the AES key
-  const rawAesKey = await window.crypto.subtle.exportKey("raw", aesKey);
-
-  // D. Encrypt the AES key with the Recipient's RSA Public Key
-  const encryptedAesKey = await window.crypto.subtle.encrypt(
-    { name: "RSA-OAEP" },
-    publicKey,
-    rawAesKey
-  );
-
-  // E. Combine everything: IV + Encrypted Key Length + Encrypted Key + Encrypted Content
-  // This is our "Sealed Blob"
-  const keyLength = new Uint8Array(new Uint16Array([encryptedAesKey.byteLength]).buffer);
-  
-  return new Blob([iv, keyLength, encryptedAesKey, encryptedContent]);
+/**
+ * Seals data for the recipients in the shared envelope format
+ * (shared/envelope.ts), the same format the backend writes.
+ * @param data - Plain archive bytes
+ * @param publicKeys - Recipients' RSA public keys (base64 SPKI)
+ * @returns Sealed blob
+ * @throws Error naming the first key that isn't a valid RSA-OAEP public key
+ */
+export const encryptData = async (data: ArrayBuffer, publicKeys: string[]) => {
+  for (const [i, key] of publicKeys.entries()) {
+    try {
+      await importPublicKey(key);
+    } catch {
+      throw new Error(`Recipient key ${i + 1} is not a valid public key`);
+    }
+  }
+  return new Blob([await sealEnvelope(new Uint8Array(data), publicKeys)]);
 };
 
 /**
  * Decrypts a sealed archive blob using the journalist's private key.
- * Reverses the hybrid encryption: RSA decrypts AES key, then AES decrypts content.
+ * Handles the current envelope format and both legacy layouts.
  * @param blob - Encrypted blob from Walrus storage
  * @param privateKey - Journalist's RSA private key
+ * @param publicKey - Matching public key (base64 SPKI), used to pick the envelope entry by fingerprint
  * @returns Decrypted blob (original ZIP archive)
  * @throws Error if decryption fails (wrong key or corrupted data)
  */
-export const decryptBlob = async (blob: Blob, privateKey: CryptoKey) => {
-  const buffer = await blob.arrayBuffer();
-  const view = new DataView(buffer);
-  
-  // Unpack structure: [IV (16)] + [AuthTag (16)] + [KeyLength (2)] + [EncryptedKey] + [Content]
-  const iv = buffer.slice(0, 16);
-  const authTag = buffer.slice(16, 32);
-  const keyLength = view.getUint16(32, false); // Big Endian
-  const encryptedKey = buffer.slice(34, 34 + keyLength);
-  const content = buffer.slice(34 + keyLength);
-
-  // 1. Decrypt AES Key
-  const aesKeyRaw = await window.crypto.subtle.decrypt(
-    { name: "RSA-OAEP" },
-    privateKey,
-    encryptedKey
-  );
-
-  const aesKey = await window.crypto.subtle.importKey(
-    "raw", 
-    aesKeyRaw, 
-    "AES-GCM", 
-    true, 
-    ["decrypt"]
-  );
-
-  // 2. Decrypt Content
-  // Note: Web Crypto AES-GCM expects tag appended to ciphertext. 
-  // We need to reconstruct: [Content] + [AuthTag]
-  const contentWithTag = new Uint8Array(content.byteLength + 16);
-  contentWithTag.set(new Uint8Array(content));
-  contentWithTag.set(new Uint8Array(authTag), content.byteLength);
-
-  const decryptedBuffer = await window.crypto.subtle.decrypt(
-    { name: "AES-GCM", iv: new Uint8Array(iv) },
-    aesKey,
-    contentWithTag
-  );
+export const decryptBlob = async (blob: Blob, privateKey: CryptoKey, publicKey?: string) => {
+  const sealed = new Uint8Array(await blob.arrayBuffer());
+  return new Blob([await openEnvelope(sealed, privateKey, publicKey)]);
+};
 
-  return new Blob([decryptedBuffer]);
+/**
+ * Decrypts with whichever of the journalist's keys (current or retired)
+ * the archive was sealed to.
+ * @param recipientFingerprints - From the archive's on-chain encryption metadata, when known
+ * @throws Error if none of the keys opens the blob
+ */
+export const decryptBlobWithKeys = async (
+  blob: Blob,
+  keys: { privateKey: CryptoKey; publicKey: string; fingerprint: string }[],
+  recipientFingerprints?: string[]
+) => {
+  const candidates = recipientFingerprints?.length
+    ? keys.filter((k) => recipientFingerprints.includes(k.fingerprint))
+    : keys;
+  if (candidates.length === 0) throw new Error("This archive is not sealed to any of your keys");
+
+  let lastError: unknown;
+  for (const key of candidates) {
+    try {
+      return await decryptBlob(blob, key.privateKey, key.publicKey);
+    } catch (err) {
+      lastError = err;
+    }
+  }
+  throw lastError;
 };
 
 // 6. Export Private Key (for storage/display)
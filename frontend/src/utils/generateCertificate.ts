@@ -1,22 +1,140 @@
 import jsPDF from 'jspdf';
 import QRCode from 'qrcode';
+import { sha256Hex } from './integrity';
+import type { CaptureMethod } from './captureManifest';
 
-export const generateCertificate = async (
-  url: string,
-  version: number,
-  timestamp: string,
-  suiTxDigest: string,
-  contentHash: string,
-  walrusBlobId: string
-) => {
+/**
+ * Legal Proof certificate. Everything printed on it is also embedded as a
+ * JSON file attachment (certificate.json), so a verifier can re-check the
+ * archive against the chain without reading the PDF by eye.
+ */
+
+export const SUI_NETWORK = (import.meta.env.VITE_SUI_NETWORK as string | undefined) || 'testnet';
+
+export const CERTIFICATE_ATTACHMENT = 'certificate.json';
+
+export type CertificateArchive = {
+  archiveId: string;
+  url: string;
+  // The URL as submitted, before canonicalization
+  originalUrl: string;
+  title: string;
+  versionNumber: number;
+  capturedAtMs: number;
+  capturedBy: string;
+  contentHash: string;
+  walrusBlobId: string;
+  txDigest: string | null;
+  previousArchiveId: string | null;
+  encryption: { isSealed: boolean; envelopeVersion: number; recipientFingerprints: string[] } | null;
+  captureMethod: CaptureMethod | null;
+};
+
+export type CertificateInput = {
+  archive: CertificateArchive;
+  // Newest first, starting with `archive` itself
+  chain: CertificateArchive[];
+  chainComplete: boolean;
+  // PNG bytes of the capture's screenshot.png, when it could be read
+  screenshot: ArrayBuffer | null;
+};
+
+const explorerTxUrl = (txDigest: string) => `https://suiscan.xyz/${SUI_NETWORK}/tx/${txDigest}`;
+const explorerObjectUrl = (objectId: string) => `https://suiscan.xyz/${SUI_NETWORK}/object/${objectId}`;
+
+/** The machine-readable half of the certificate. */
+const certificateJson = async (input: CertificateInput) => ({
+  type: 'archivechain-certificate',
+  version: 1,
+  generatedAt: new Date().toISOString(),
+  network: SUI_NETWORK,
+  archive: input.archive,
+  versionChain: {
+    complete: input.chainComplete,
+    archives: input.chain.map((a) => ({
+      archiveId: a.archiveId,
+      versionNumber: a.versionNumber,
+      capturedAtMs: a.capturedAtMs,
+      contentHash: a.contentHash,
+      txDigest: a.txDigest,
+      previousArchiveId: a.previousArchiveId,
+    })),
+  },
+  screenshot: input.screenshot ? { file: 'screenshot.png', sha256: await sha256Hex(input.screenshot) } : null,
+  explorer: {
+    transaction: input.archive.txDigest ? explorerTxUrl(input.archive.txDigest) : null,
+    object: explorerObjectUrl(input.archive.archiveId),
+  },
+});
+
+// Writer methods jsPDF uses internally but doesn't declare in its typings
+type PdfWriter = {
+  events: { subscribe(topic: string, callback: () => void): string };
+  newObject(): number;
+  write(...lines: string[]): void;
+};
+
+/**
+ * Adds `content` as an embedded file (PDF 1.7 §7.11.4), listed in the
+ * viewer's attachments panel.
+ */
+const attachFile = (doc: jsPDF, name: string, mimeType: string, content: string) => {
+  const writer = doc.internal as unknown as PdfWriter;
+  const bytes = new TextEncoder().encode(content);
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+
+  let fileSpec = 0;
+  writer.events.subscribe('postPutResources', () => {
+    const stream = writer.newObject();
+    writer.write(`<< /Type /EmbeddedFile /Subtype /${mimeType.replace('/', '#2F')} /Length ${bytes.length} /Params << /Size ${bytes.length} >> >>`);
+    writer.write('stream');
+    writer.write(binary);
+    writer.write('endstream');
+    writer.write('endobj');
+
+    fileSpec = writer.newObject();
+    writer.write(`<< /Type /Filespec /F (${name}) /UF (${name}) /AFRelationship /Data /EF << /F ${stream} 0 R >> >>`);
+    writer.write('endobj');
+  });
+  writer.events.subscribe('putCatalog', () => {
+    writer.write(`/Names << /EmbeddedFiles << /Names [(${name}) ${fileSpec} 0 R] >> >>`);
+    writer.write(`/AF [${fileSpec} 0 R]`);
+  });
+};
+
+// Scaled-down JPEG so a full-page screenshot doesn't bloat the PDF
+const thumbnail = async (png: ArrayBuffer, maxWidth = 480) => {
+  const bitmap = await createImageBitmap(new Blob([png], { type: 'image/png' }));
+  const scale = Math.min(1, maxWidth / bitmap.width);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  // Only the top of long pages; the full screenshot stays in the archive
+  canvas.height = Math.min(Math.round(bitmap.height * scale), Math.round(canvas.width * 0.75));
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, Math.round(bitmap.height * scale));
+  return { dataUrl: canvas.toDataURL('image/jpeg', 0.8), aspect: canvas.height / canvas.width };
+};
+
+export const generateCertificate = async (input: CertificateInput) => {
+  const { archive } = input;
   const doc = new jsPDF();
   const pageWidth = doc.internal.pageSize.width;
-  
+  const pageHeight = doc.internal.pageSize.height;
+
+  const json = await certificateJson(input);
+  attachFile(doc, CERTIFICATE_ATTACHMENT, 'application/json', JSON.stringify(json, null, 2));
+  doc.setProperties({
+    title: `ArchiveChain certificate: ${archive.url}`,
+    subject: `Archive ${archive.archiveId}`,
+    keywords: `archivechain sui ${SUI_NETWORK} ${archive.archiveId} ${archive.contentHash}`,
+    creator: 'ArchiveChain',
+  });
+
   // --- HEADER ---
   doc.setFont("times", "bold");
   doc.setFontSize(22);
   doc.text("CERTIFICATE OF DIGITAL AUTHENTICITY", pageWidth / 2, 20, { align: "center" });
-  
+
   doc.setLineWidth(0.5);
   doc.line(20, 25, pageWidth - 20, 25);
 
@@ -24,74 +142,115 @@ export const generateCertificate = async (
   doc.setFont("helvetica", "normal");
   doc.setFontSize(10);
   doc.setTextColor(100);
-  doc.text("Generated by ArchiveChain • Secured by Sui & Walrus", pageWidth / 2, 32, { align: "center" });
+  doc.text(`Generated by ArchiveChain • Secured by Sui (${SUI_NETWORK}) & Walrus`, pageWidth / 2, 32, { align: "center" });
 
-  // --- DETAILS BOX ---
-  doc.setDrawColor(0);
-  doc.setFillColor(248, 250, 252); // Light gray bg
-  doc.rect(20, 40, pageWidth - 40, 90, 'F');
-  doc.rect(20, 40, pageWidth - 40, 90, 'S');
+  // --- DETAILS ---
+  // Label above value, values at full width so hashes and ids are never cut
+  const col1 = 25;
+  const valueWidth = pageWidth - 50;
+  let y = 44;
 
-  const startY = 50;
-  const lineHeight = 12;
-  const col1 = 30;
-  const col2 = 80;
+  const row = (label: string, value: string, mono = false) => {
+    doc.setTextColor(0);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(9);
+    doc.text(label, col1, y);
+    doc.setFont(mono ? "courier" : "helvetica", "normal");
+    doc.setFontSize(mono ? 8.5 : 10);
+    const lines = doc.splitTextToSize(value, valueWidth) as string[];
+    doc.text(lines, col1, y + 4.5);
+    y += 4.5 + lines.length * 4.2 + 3;
+  };
 
-  doc.setTextColor(0);
-  doc.setFontSize(12);
-
-  // Row 1: URL
-  doc.setFont("helvetica", "bold");
-  doc.text("Archived URL:", col1, startY);
-  doc.setFont("helvetica", "normal");
-  doc.text(url, col2, startY);
-
-  // Row 2: Timestamp
-  doc.setFont("helvetica", "bold");
-  doc.text("Timestamp (UTC):", col1, startY + lineHeight);
-  doc.setFont("helvetica", "normal");
-  doc.text(new Date(parseInt(timestamp)).toUTCString(), col2, startY + lineHeight);
+  const encryption = archive.encryption;
+  row("Archived URL:", archive.url);
+  if (archive.originalUrl !== archive.url) row("Submitted URL:", archive.originalUrl);
+  row("Title:", archive.title);
+  row("Timestamp (UTC):", `${new Date(archive.capturedAtMs).toUTCString()}  (${archive.capturedAtMs} ms)`);
+  row("SHA-256 Hash:", archive.contentHash, true);
+  row("Sui Transaction:", archive.txDigest ?? "Unknown (not indexed)", true);
+  row("Archive Object:", archive.archiveId, true);
+  row("Captured By:", archive.capturedBy, true);
+  row("Capture Method:", archive.captureMethod === "client"
+    ? "Client: captured in the submitter's own browser; the archiving server never loaded the page"
+    : archive.captureMethod === "server" ? "Server: loaded and captured by the archiving server"
+    : "Not recorded (archive predates on-chain capture methods)");
+  row("Walrus Blob ID:", archive.walrusBlobId, true);
+  row("Content:", encryption?.isSealed
+    ? `Sealed (envelope v${encryption.envelopeVersion}) for ${encryption.recipientFingerprints.length} recipient(s)`
+    : encryption ? "Public" : "Not recorded (archive predates on-chain encryption metadata)");
 
-  // Row 3: Content Hash
+  // --- VERSION CHAIN ---
+  y += 2;
   doc.setFont("helvetica", "bold");
-  doc.text("SHA-256 Hash:", col1, startY + lineHeight * 2);
+  doc.setFontSize(11);
+  doc.text(`Version Chain (version ${archive.versionNumber} of this URL)`, col1, y);
+  y += 6;
   doc.setFont("courier", "normal");
-  doc.setFontSize(10);
-  doc.text(contentHash.substring(0, 32) + "...", col2, startY + lineHeight * 2);
-
-  // Row 4: Sui Transaction
-  doc.setFont("helvetica", "bold");
-  doc.setFontSize(12);
-  doc.text("Sui Transaction:", col1, startY + lineHeight * 3);
-  doc.setFont("courier", "normal");
-  doc.setFontSize(10);
-  doc.text(suiTxDigest, col2, startY + lineHeight * 3);
+  doc.setFontSize(7.5);
+  const shownChain = input.chain.slice(0, 8);
+  for (const link of shownChain) {
+    const marker = link.archiveId === archive.archiveId ? ">" : " ";
+    doc.text(
+      `${marker} v${link.versionNumber}  ${new Date(link.capturedAtMs).toISOString()}  ${link.contentHash.slice(0, 18)}…  ${link.archiveId.slice(0, 18)}…`,
+      col1,
+      y
+    );
+    y += 4;
+  }
+  if (input.chain.length > shownChain.length || !input.chainComplete) {
+    doc.setFont("helvetica", "italic");
+    doc.text(
+      input.chainComplete
+        ? `… ${input.chain.length - shownChain.length} earlier version(s) listed in ${CERTIFICATE_ATTACHMENT}`
+        : "… earlier versions could not be resolved from the index",
+      col1,
+      y
+    );
+    y += 4;
+  }
 
-  // Row 5: Walrus Blob
-  doc.setFont("helvetica", "bold");
-  doc.setFontSize(12);
-  doc.text("Walrus Blob ID:", col1, startY + lineHeight * 4);
-  doc.setFont("courier", "normal");
-  doc.setFontSize(10);
-  doc.text(walrusBlobId, col2, startY + lineHeight * 4);
+  // --- SCREENSHOT & QR CODE ---
+  y += 4;
+  const blockTop = y;
+  if (input.screenshot) {
+    try {
+      const thumb = await thumbnail(input.screenshot);
+      const width = 95;
+      doc.addImage(thumb.dataUrl, 'JPEG', col1, blockTop, width, width * thumb.aspect);
+      doc.setDrawColor(180);
+      doc.rect(col1, blockTop, width, width * thumb.aspect, 'S');
+      y = Math.max(y, blockTop + width * thumb.aspect + 4);
+    } catch (err) {
+      console.warn("Screenshot thumbnail failed:", err);
+    }
+  } else {
+    doc.setFont("helvetica", "italic");
+    doc.setFontSize(9);
+    doc.setTextColor(120);
+    doc.text("Screenshot not available (sealed or not included in this archive).", col1, blockTop + 4);
+  }
 
-  // --- QR CODE ---
   // Points to the Sui Explorer for verification
-  const explorerUrl = `https://suiscan.xyz/testnet/tx/${suiTxDigest}`;
-  const qrDataUrl = await QRCode.toDataURL(explorerUrl);
-  doc.addImage(qrDataUrl, 'PNG', pageWidth - 70, 90, 30, 30);
-  
+  const qrTarget = archive.txDigest ? explorerTxUrl(archive.txDigest) : explorerObjectUrl(archive.archiveId);
+  const qrDataUrl = await QRCode.toDataURL(qrTarget);
+  doc.addImage(qrDataUrl, 'PNG', pageWidth - 65, blockTop, 35, 35);
   doc.setFontSize(8);
   doc.setTextColor(150);
-  doc.text("Scan to Verify on Blockchain", pageWidth - 55, 125, { align: "center" });
+  doc.text(archive.txDigest ? "Scan to view the transaction" : "Scan to view the archive object", pageWidth - 47.5, blockTop + 39, { align: "center" });
+  y = Math.max(y, blockTop + 44);
 
   // --- LEGAL DISCLAIMER ---
   doc.setFont("times", "italic");
   doc.setFontSize(10);
   doc.setTextColor(80);
-  const disclaimer = "This document certifies that the content associated with the URL above was cryptographically captured and stored on the decentralized Walrus network. Its integrity is mathematically proven by the Sui blockchain. Any alteration to the source content would result in a mismatched SHA-256 hash.";
+  const disclaimer = `This document certifies that the content associated with the URL above was cryptographically captured and stored on the decentralized Walrus network. Its integrity is mathematically proven by the Sui blockchain. Any alteration to the source content would result in a mismatched SHA-256 hash. The facts above are embedded in this PDF as ${CERTIFICATE_ATTACHMENT} for automated verification.`;
   const splitDisclaimer = doc.splitTextToSize(disclaimer, pageWidth - 40);
-  doc.text(splitDisclaimer, 20, 150);
+  if (y + splitDisclaimer.length * 5 > pageHeight - 25) {
+    doc.addPage();
+    y = 20;
+  }
+  doc.text(splitDisclaimer, 20, y);
 
   // --- FOOTER ---
   doc.setFont("helvetica", "bold");
@@ -100,5 +259,5 @@ export const generateCertificate = async (
   doc.text("ARCHIVECHAIN", pageWidth / 2, 280, { align: "center" });
 
   // Save
-  doc.save(`Proof-V${version}-${new Date().toISOString().split('T')[0]}.pdf`);
+  doc.save(`Proof-V${archive.versionNumber}-${new Date().toISOString().split('T')[0]}.pdf`);
 };
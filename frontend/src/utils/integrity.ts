@@ -0,0 +1,25 @@
+// frontend/src/utils/integrity.ts
+/**
+ * Tamper detection for fetched archive blobs: the raw bytes must hash to the
+ * content_hash anchored in the Archive object before anything else is done
+ * with them (decrypting, unzipping, rendering).
+ */
+
+export type IntegrityCheck = 'verified' | 'mismatch' | 'unverifiable';
+
+export const sha256Hex = async (data: ArrayBuffer): Promise<string> => {
+  const digest = await window.crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Compares `data` with the on-chain hash (0x-prefixed hex). Archives
+ * written without a hash are `unverifiable` rather than a mismatch.
+ */
+export const checkContentHash = async (data: ArrayBuffer, contentHash: string): Promise<IntegrityCheck> => {
+  const expected = contentHash.replace(/^0x/, '').toLowerCase();
+  if (!expected) return 'unverifiable';
+  return (await sha256Hex(data)) === expected ? 'verified' : 'mismatch';
+};
@@ -0,0 +1,265 @@
+// frontend/src/utils/keyVault.ts
+/**
+ * Passphrase-protected store for the journalist's keypairs.
+ *
+ * Private keys only reach localStorage wrapped: the PKCS#8 bytes are
+ * encrypted with AES-256-GCM under a key derived from the passphrase with
+ * PBKDF2-SHA256. The vault holds several named identities. Rotating one
+ * generates a new keypair and keeps the old keys (marked retired) so
+ * archives sealed to them still open. The backup file is the vault JSON
+ * itself, so it is only as safe as the passphrase.
+ */
+import { keyFingerprint } from '../../../shared/envelope';
+import { exportKey, exportPrivateKey, generateKeyPair, importPrivateKey } from './crypto';
+
+const VAULT_STORAGE_KEY = 'journalist_key_vault';
+// Written unprotected by earlier versions of the viewer; migrated into the vault
+const LEGACY_PRIVATE_KEY = 'journalist_private_key';
+const LEGACY_PUBLIC_KEY = 'journalist_public_key';
+
+const VAULT_FORMAT = 'archivechain-key-vault';
+const VAULT_VERSION = 1;
+const PBKDF2_ITERATIONS = 600_000;
+
+export type VaultKey = {
+  fingerprint: string; // hex SHA-256 of the SPKI key, as used in sealed envelopes
+  publicKey: string; // base64 SPKI
+  createdAt: string;
+  retiredAt: string | null; // set when the identity rotated to a newer key
+  iv: string;
+  wrappedPrivateKey: string; // base64 AES-GCM ciphertext of the PKCS#8 key
+};
+
+export type VaultIdentity = {
+  id: string;
+  name: string;
+  createdAt: string;
+  keys: VaultKey[]; // oldest first; the last one is current
+};
+
+export type VaultFile = {
+  format: typeof VAULT_FORMAT;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  identities: VaultIdentity[];
+  activeIdentityId: string | null;
+};
+
+export type UnlockedKey = {
+  identityId: string;
+  fingerprint: string;
+  publicKey: string;
+  privateKey: CryptoKey;
+  retired: boolean;
+};
+
+/** An unlocked vault. Kept in memory only; lost on reload. */
+export type VaultSession = {
+  vault: VaultFile;
+  wrappingKey: CryptoKey;
+  keys: UnlockedKey[];
+};
+
+const toBase64 = (bytes: Uint8Array) => window.btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (base64: string) => {
+  const binary = window.atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const deriveWrappingKey = async (passphrase: string, kdf: VaultFile['kdf']) => {
+  const material = await window.crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return window.crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: kdf.hash, iterations: kdf.iterations, salt: fromBase64(kdf.salt) },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// The fingerprint is bound as additional data, so entries can't be swapped between keys
+const wrapKey = async (wrappingKey: CryptoKey, keyPair: CryptoKeyPair): Promise<VaultKey> => {
+  const publicKey = await exportKey(keyPair.publicKey);
+  const fingerprint = await keyFingerprint(publicKey);
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const pkcs8 = fromBase64(await exportPrivateKey(keyPair.privateKey));
+  const wrapped = await window.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(fingerprint) },
+    wrappingKey,
+    pkcs8
+  );
+  return {
+    fingerprint,
+    publicKey,
+    createdAt: new Date().toISOString(),
+    retiredAt: null,
+    iv: toBase64(iv),
+    wrappedPrivateKey: toBase64(new Uint8Array(wrapped)),
+  };
+};
+
+const unwrapKey = async (wrappingKey: CryptoKey, key: VaultKey): Promise<CryptoKey> => {
+  const pkcs8 = await window.crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(key.iv), additionalData: new TextEncoder().encode(key.fingerprint) },
+    wrappingKey,
+    fromBase64(key.wrappedPrivateKey)
+  );
+  return importPrivateKey(toBase64(new Uint8Array(pkcs8)));
+};
+
+const unlockedKey = (identityId: string, key: VaultKey, privateKey: CryptoKey): UnlockedKey => ({
+  identityId,
+  fingerprint: key.fingerprint,
+  publicKey: key.publicKey,
+  privateKey,
+  retired: key.retiredAt !== null,
+});
+
+/** Throws if `text` isn't a vault this version understands. */
+const parseVault = (text: string): VaultFile => {
+  let vault: VaultFile;
+  try {
+    vault = JSON.parse(text);
+  } catch {
+    throw new Error('Not a key vault file (invalid JSON)');
+  }
+  if (vault?.format !== VAULT_FORMAT || !Array.isArray(vault.identities) || !vault.kdf?.salt) {
+    throw new Error('Not a key vault file');
+  }
+  if (vault.version > VAULT_VERSION) throw new Error(`Unsupported key vault version ${vault.version}`);
+  return vault;
+};
+
+const saveVault = (vault: VaultFile) => localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(vault));
+
+/** The stored vault, or null if none was created yet. */
+export const loadVault = (): VaultFile | null => {
+  const stored = localStorage.getItem(VAULT_STORAGE_KEY);
+  return stored ? parseVault(stored) : null;
+};
+
+/** True when an unprotected keypair from an earlier version is still in localStorage. */
+export const hasLegacyKeys = () =>
+  !!localStorage.getItem(LEGACY_PRIVATE_KEY) && !!localStorage.getItem(LEGACY_PUBLIC_KEY);
+
+/**
+ * Creates the vault with one identity. An unprotected keypair left by an
+ * earlier version becomes that identity's key and is then removed from
+ * localStorage; otherwise a new keypair is generated.
+ */
+export const createVault = async (passphrase: string, identityName: string): Promise<VaultSession> => {
+  const kdf: VaultFile['kdf'] = {
+    name: 'PBKDF2',
+    hash: 'SHA-256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: toBase64(window.crypto.getRandomValues(new Uint8Array(16))),
+  };
+  const wrappingKey = await deriveWrappingKey(passphrase, kdf);
+
+  const legacyPrivateKey = localStorage.getItem(LEGACY_PRIVATE_KEY);
+  const legacyPublicKey = localStorage.getItem(LEGACY_PUBLIC_KEY);
+  let keyPair: CryptoKeyPair;
+  if (legacyPrivateKey && legacyPublicKey) {
+    const publicKey = await window.crypto.subtle.importKey(
+      'spki',
+      fromBase64(legacyPublicKey),
+      { name: 'RSA-OAEP', hash: 'SHA-256' },
+      true,
+      ['encrypt']
+    );
+    keyPair = { publicKey, privateKey: await importPrivateKey(legacyPrivateKey) };
+  } else {
+    keyPair = await generateKeyPair();
+  }
+
+  const key = await wrapKey(wrappingKey, keyPair);
+  const identity: VaultIdentity = { id: window.crypto.randomUUID(), name: identityName, createdAt: key.createdAt, keys: [key] };
+  const vault: VaultFile = { format: VAULT_FORMAT, version: VAULT_VERSION, kdf, identities: [identity], activeIdentityId: identity.id };
+
+  saveVault(vault);
+  localStorage.removeItem(LEGACY_PRIVATE_KEY);
+  localStorage.removeItem(LEGACY_PUBLIC_KEY);
+  return { vault, wrappingKey, keys: [unlockedKey(identity.id, key, keyPair.privateKey)] };
+};
+
+/**
+ * Derives the wrapping key and unwraps every private key.
+ * @throws Error('Wrong passphrase') if the passphrase doesn't open the vault
+ */
+export const unlockVault = async (vault: VaultFile, passphrase: string): Promise<VaultSession> => {
+  const wrappingKey = await deriveWrappingKey(passphrase, vault.kdf);
+  const keys: UnlockedKey[] = [];
+  for (const identity of vault.identities) {
+    for (const key of identity.keys) {
+      let privateKey: CryptoKey;
+      try {
+        privateKey = await unwrapKey(wrappingKey, key);
+      } catch {
+        throw new Error('Wrong passphrase');
+      }
+      keys.push(unlockedKey(identity.id, key, privateKey));
+    }
+  }
+  return { vault, wrappingKey, keys };
+};
+
+/** Adds an identity with a fresh keypair and makes it the active one. */
+export const addIdentity = async (session: VaultSession, name: string): Promise<VaultSession> => {
+  const keyPair = await generateKeyPair();
+  const key = await wrapKey(session.wrappingKey, keyPair);
+  const identity: VaultIdentity = { id: window.crypto.randomUUID(), name, createdAt: key.createdAt, keys: [key] };
+
+  const vault = { ...session.vault, identities: [...session.vault.identities, identity], activeIdentityId: identity.id };
+  saveVault(vault);
+  return { ...session, vault, keys: [...session.keys, unlockedKey(identity.id, key, keyPair.privateKey)] };
+};
+
+/**
+ * Gives an identity a new keypair. Its previous keys are retired, not
+ * deleted: they stay in the vault to open archives sealed to them.
+ */
+export const rotateIdentity = async (session: VaultSession, identityId: string): Promise<VaultSession> => {
+  const keyPair = await generateKeyPair();
+  const key = await wrapKey(session.wrappingKey, keyPair);
+
+  const identities = session.vault.identities.map((identity) =>
+    identity.id !== identityId
+      ? identity
+      : {
+          ...identity,
+          keys: [...identity.keys.map((k) => ({ ...k, retiredAt: k.retiredAt ?? key.createdAt })), key],
+        }
+  );
+  const vault = { ...session.vault, identities };
+  saveVault(vault);
+
+  const keys = session.keys.map((k) => (k.identityId === identityId ? { ...k, retired: true } : k));
+  return { ...session, vault, keys: [...keys, unlockedKey(identityId, key, keyPair.privateKey)] };
+};
+
+export const setActiveIdentity = (session: VaultSession, identityId: string): VaultSession => {
+  const vault = { ...session.vault, activeIdentityId: identityId };
+  saveVault(vault);
+  return { ...session, vault };
+};
+
+/** Current key of the active identity: the one to share with sources. */
+export const activeKey = (session: VaultSession): UnlockedKey | null =>
+  session.keys.find((k) => k.identityId === session.vault.activeIdentityId && !k.retired) ?? null;
+
+/** The backup is the vault as stored: every private key stays wrapped. */
+export const exportBackup = (vault: VaultFile) =>
+  new Blob([JSON.stringify(vault, null, 2)], { type: 'application/json' });
+
+/**
+ * Restores a backup file, replacing the stored vault. The backup is
+ * unlocked first, so a wrong passphrase or damaged file changes nothing.
+ */
+export const importBackup = async (text: string, passphrase: string): Promise<VaultSession> => {
+  const session = await unlockVault(parseVault(text), passphrase);
+  saveVault(session.vault);
+  return session;
+};
@@ -0,0 +1,13 @@
+// frontend/src/utils/pdfText.ts
+/**
+ * pdf.js for extracting the text of archived PDFs (shared/resource.ts),
+ * loaded on first use so page captures don't pay for it.
+ */
+import type { PdfDocument } from '../../../shared/resource';
+import workerSrc from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+export const loadPdf = async (data: Uint8Array): Promise<PdfDocument> => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+  return pdfjs.getDocument({ data, isEvalSupported: false, verbosity: pdfjs.VerbosityLevel.ERRORS }).promise;
+};
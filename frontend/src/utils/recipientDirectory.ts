@@ -0,0 +1,57 @@
+// frontend/src/utils/recipientDirectory.ts
+/**
+ * Client for the backend's recipient directory. Publishing and revoking
+ * are signed with the key itself (shared/recipientProof.ts), so only the
+ * holder of a private key can list or revoke it.
+ */
+import { proofStatement, signStatement, type ProofAction } from '../../../shared/recipientProof';
+import type { UnlockedKey } from './keyVault';
+
+export type DirectoryEntry = {
+  fingerprint: string;
+  shortFingerprint: string;
+  displayName: string;
+  publicKey: string;
+  createdAt: string;
+  updatedAt: string;
+  revokedAt: string | null;
+};
+
+const signProof = async (action: ProofAction, key: UnlockedKey, displayName: string) => {
+  const timestamp = new Date().toISOString();
+  const signature = await signStatement(key.privateKey, proofStatement(action, key.fingerprint, displayName, timestamp));
+  return { timestamp, signature };
+};
+
+const readEntry = async (response: Response): Promise<DirectoryEntry> => {
+  const data = await response.json() as { ok: boolean; error?: string; recipient: DirectoryEntry };
+  if (!data.ok) throw new Error(data.error ?? `Recipient directory request failed (${response.status})`);
+  return data.recipient;
+};
+
+/** The directory entry for this key, or null if it was never published. */
+export const fetchDirectoryEntry = async (fingerprint: string): Promise<DirectoryEntry | null> => {
+  const response = await fetch(`${import.meta.env.VITE_API_URL}/api/recipients/${fingerprint}`);
+  if (response.status === 404) return null;
+  return readEntry(response);
+};
+
+/** Lists the key under `displayName`, or renames it if it is already listed. */
+export const publishKey = async (key: UnlockedKey, displayName: string): Promise<DirectoryEntry> => {
+  const response = await fetch(`${import.meta.env.VITE_API_URL}/api/recipients`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ publicKey: key.publicKey, displayName, proof: await signProof('register', key, displayName) }),
+  });
+  return readEntry(response);
+};
+
+/** Revocation is permanent: the key can't be published again. */
+export const revokeKey = async (key: UnlockedKey, entry: DirectoryEntry): Promise<DirectoryEntry> => {
+  const response = await fetch(`${import.meta.env.VITE_API_URL}/api/recipients/${key.fingerprint}/revoke`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ proof: await signProof('revoke', key, entry.displayName) }),
+  });
+  return readEntry(response);
+};
@@ -0,0 +1,77 @@
+// frontend/src/utils/replay.ts
+/**
+ * Offline replay of archive bundles. The backend stores every subresource
+ * under assets/ (listed in assets.json) and rewrites index.html to point
+ * at them; here those paths are swapped for data: URLs and a CSP is
+ * injected so the sandboxed iframe never contacts the original site.
+ */
+import type JSZip from 'jszip';
+
+type ReplayAsset = {
+  url: string;
+  path: string;
+  mimeType: string;
+};
+
+const REPLAY_CSP = "default-src 'none'; img-src data:; style-src 'unsafe-inline' data:; font-src data:; media-src data:";
+
+// Asset paths are content-addressed: assets/<32 hex chars><optional extension>
+const ASSET_PATH = /assets\/[0-9a-f]{32}(?:\.[a-z0-9]+)?/g;
+const SIBLING_REF = /(url\(\s*["']?|@import\s+["'])([0-9a-f]{32}(?:\.[a-z0-9]+)?)/g;
+
+const textToBase64 = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Returns `html` ready for `<iframe srcDoc>`, or unchanged for archives
+ * captured before assets were bundled.
+ */
+export const buildReplayDocument = async (zip: JSZip, html: string): Promise<string> => {
+  const manifest = zip.file('assets.json');
+  if (!manifest) return html;
+
+  const assets = JSON.parse(await manifest.async('string')) as ReplayAsset[];
+  const byPath = new Map(assets.map((a) => [a.path, a]));
+  const dataUrls = new Map<string, string>();
+
+  const toDataUrl = async (path: string, depth = 0): Promise<string | null> => {
+    const cached = dataUrls.get(path);
+    if (cached) return cached;
+
+    const asset = byPath.get(path);
+    const file = zip.file(path);
+    if (!asset || !file) return null;
+
+    let dataUrl: string;
+    if (asset.mimeType === 'text/css' && depth < 5) {
+      // Stylesheets reference sibling assets (fonts, images, @imports) by file name
+      let css = await file.async('string');
+      for (const [, , name] of css.matchAll(SIBLING_REF)) {
+        const nested = await toDataUrl(`assets/${name}`, depth + 1);
+        if (nested) css = css.split(name).join(nested);
+      }
+      dataUrl = `data:text/css;base64,${textToBase64(css)}`;
+    } else {
+      dataUrl = `data:${asset.mimeType};base64,${await file.async('base64')}`;
+    }
+
+    dataUrls.set(path, dataUrl);
+    return dataUrl;
+  };
+
+  for (const path of new Set(html.match(ASSET_PATH) ?? [])) {
+    await toDataUrl(path);
+  }
+  const inlined = html.replace(ASSET_PATH, (path) => dataUrls.get(path) ?? path);
+
+  const cspMeta = `<meta http-equiv="Content-Security-Policy" content="${REPLAY_CSP}">`;
+  return /<head[^>]*>/i.test(inlined)
+    ? inlined.replace(/<head[^>]*>/i, (head) => `${head}${cspMeta}`)
+    : `${cspMeta}${inlined}`;
+};
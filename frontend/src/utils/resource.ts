@@ -0,0 +1,64 @@
+// frontend/src/utils/resource.ts
+/**
+ * Archives of PDFs, images and JSON hold the document exactly as it was
+ * served (shared/resource.ts), zipped with its manifest and attestation.
+ * Its MIME type is recorded on-chain; only for archives made before that,
+ * which are the bare bytes, is it sniffed.
+ */
+import JSZip from 'jszip';
+import { extensionOf, resourceText, sniffMimeType } from '../../../shared/resource';
+import { readCaptureManifest, type CaptureManifest } from './captureManifest';
+import { loadPdf } from './pdfText';
+
+export type ArchivedResource = {
+  mimeType: string;
+  blob: Blob;
+  // Extracted PDF text, normalized JSON or plain text; null for images
+  text: string | null;
+  // The response that delivered it; null for documents archived as bare bytes
+  manifest: CaptureManifest | null;
+};
+
+/**
+ * The resource in `blob`, or null for page captures and legacy HTML blobs.
+ * `recordedMimeType` is the archive's on-chain MIME type, null for archives
+ * that predate it.
+ */
+export const readResource = async (blob: Blob, recordedMimeType: string | null): Promise<ArchivedResource | null> => {
+  let bytes = new Uint8Array(await blob.arrayBuffer());
+  let mimeType = sniffMimeType(bytes);
+  let manifest: CaptureManifest | null = null;
+  if (mimeType === 'application/zip') {
+    const zip = await JSZip.loadAsync(bytes).catch(() => null);
+    manifest = zip && (await readCaptureManifest(zip));
+    const file = manifest?.resource && zip?.file(manifest.resource.file);
+    if (!manifest?.resource || !file) return null;
+    bytes = new Uint8Array(await file.async('arraybuffer'));
+    mimeType = recordedMimeType ?? manifest.resource.mimeType;
+  }
+  if (!mimeType) return null;
+  return {
+    mimeType,
+    blob: new Blob([bytes], { type: mimeType }),
+    text: await resourceText(bytes, mimeType, loadPdf),
+    manifest,
+  };
+};
+
+/** Download name: the URL's last path segment, with an extension matching the type. */
+export const resourceFileName = (url: string, mimeType: string): string => {
+  let name = 'resource';
+  try {
+    name = decodeURIComponent(new URL(url).pathname.split('/').filter(Boolean).pop() ?? '') || name;
+  } catch {
+    // Not a URL; keep the default
+  }
+  const extension = extensionOf(mimeType);
+  return extension && !name.toLowerCase().endsWith(extension) ? `${name}${extension}` : name;
+};
+
+export const sameBytes = async (a: Blob, b: Blob): Promise<boolean> => {
+  if (a.size !== b.size) return false;
+  const [x, y] = await Promise.all([a.arrayBuffer(), b.arrayBuffer()]).then((buffers) => buffers.map((buf) => new Uint8Array(buf)));
+  return x.every((byte, i) => byte === y[i]);
+};
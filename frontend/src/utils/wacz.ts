@@ -0,0 +1,106 @@
+// frontend/src/utils/wacz.ts
+/**
+ * Minimal WACZ/WARC reader so WACZ archives can be shown in the viewer.
+ * Full replay of WACZ files is left to pywb / ReplayWeb.page.
+ */
+import type JSZip from 'jszip';
+
+export type WarcResponse = {
+  targetUri: string;
+  status: number;
+  headers: Record<string, string>;
+  body: Uint8Array;
+};
+
+const decoder = new TextDecoder();
+
+const indexOfCrlfCrlf = (bytes: Uint8Array, from: number): number => {
+  for (let i = from; i < bytes.length - 3; i++) {
+    if (bytes[i] === 13 && bytes[i + 1] === 10 && bytes[i + 2] === 13 && bytes[i + 3] === 10) return i;
+  }
+  return -1;
+};
+
+const normalizeUrl = (url: string): string => {
+  try {
+    return new URL(url).href;
+  } catch {
+    return url;
+  }
+};
+
+const parseHeaderLines = (text: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\r\n')) {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+  }
+  return headers;
+};
+
+/**
+ * Parses every `response` record of an uncompressed WARC file.
+ */
+export const parseWarcResponses = (warc: Uint8Array): WarcResponse[] => {
+  const responses: WarcResponse[] = [];
+  let pos = 0;
+
+  while (pos < warc.length) {
+    const headerEnd = indexOfCrlfCrlf(warc, pos);
+    if (headerEnd < 0) break;
+
+    const warcHeaders = parseHeaderLines(decoder.decode(warc.subarray(pos, headerEnd)));
+    const length = parseInt(warcHeaders['content-length'] ?? '0', 10);
+    const blockStart = headerEnd + 4;
+    const block = warc.subarray(blockStart, blockStart + length);
+    pos = blockStart + length + 4; // trailing CRLF CRLF
+
+    if (warcHeaders['warc-type'] !== 'response') continue;
+
+    const httpEnd = indexOfCrlfCrlf(block, 0);
+    if (httpEnd < 0) continue;
+    const [statusLine, ...rest] = decoder.decode(block.subarray(0, httpEnd)).split('\r\n');
+
+    responses.push({
+      targetUri: warcHeaders['warc-target-uri'] ?? '',
+      status: parseInt(statusLine.split(' ')[1] ?? '0', 10),
+      headers: parseHeaderLines(rest.join('\r\n')),
+      body: block.subarray(httpEnd + 4),
+    });
+  }
+
+  return responses;
+};
+
+/**
+ * Returns the HTML of the WACZ's main page, following recorded redirects,
+ * or null if the zip isn't a WACZ.
+ */
+export const extractWaczMainPage = async (zip: JSZip): Promise<string | null> => {
+  const datapackage = zip.file('datapackage.json');
+  if (!datapackage) return null;
+
+  const { mainPageURL, resources } = JSON.parse(await datapackage.async('string')) as {
+    mainPageURL: string;
+    resources: { path: string }[];
+  };
+
+  const responses: WarcResponse[] = [];
+  for (const { path } of resources.filter((r) => r.path.startsWith('archive/'))) {
+    const warc = await zip.file(path)?.async('uint8array');
+    if (warc) responses.push(...parseWarcResponses(warc));
+  }
+
+  let target = normalizeUrl(mainPageURL);
+  for (let hops = 0; hops < 10; hops++) {
+    const response = responses.find((r) => normalizeUrl(r.targetUri) === target);
+    if (!response) break;
+    if (response.status >= 300 && response.status < 400 && response.headers['location']) {
+      target = new URL(response.headers['location'], target).href;
+      continue;
+    }
+    return decoder.decode(response.body);
+  }
+
+  return 'Error: main page not found in WACZ';
+};
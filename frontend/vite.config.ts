@@ -4,4 +4,10 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    fs: {
+      // shared/ (envelope format used by backend and frontend) lives outside this package
+      allow: ['.', '../shared'],
+    },
+  },
 })
@@ -0,0 +1,286 @@
+// shared/envelope.ts
+/**
+ * Sealed-envelope format for encrypted archives, shared by the backend
+ * (Node's global Web Crypto) and the viewer (browser Web Crypto).
+ *
+ * Layout (all integers big-endian):
+ *
+ *   magic        4 bytes  "ACSE"
+ *   version      u8       2
+ *   contentAlg   u8       1 = AES-256-GCM
+ *   wrapAlg      u8       1 = RSA-OAEP with SHA-256
+ *   ivLength     u8
+ *   iv           ivLength bytes
+ *   recipients   u16
+ *   per recipient:
+ *     fingerprint  32 bytes  SHA-256 of the recipient's SPKI public key
+ *     keyLength    u16
+ *     wrappedKey   keyLength bytes (the AES key, encrypted to the recipient)
+ *   ciphertext   rest, with the 16-byte GCM tag appended
+ *
+ * Everything before the ciphertext is authenticated as GCM additional data.
+ *
+ * Blobs sealed before this format existed have no magic and are version 1:
+ * the backend wrote IV(16) + tag(16) + u16BE key length + key + ciphertext,
+ * the browser wrote IV(12) + u16 little-endian key length + key +
+ * ciphertext with the tag appended. openEnvelope reads both.
+ */
+
+export const ENVELOPE_MAGIC = "ACSE";
+export const ENVELOPE_VERSION = 2;
+export const CONTENT_ALG_AES_256_GCM = 1;
+export const WRAP_ALG_RSA_OAEP_SHA256 = 1;
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const FINGERPRINT_LENGTH = 32;
+
+// Web Crypto key types differ between the DOM and Node typings; derive them instead
+type SubtleKey = Awaited<ReturnType<typeof crypto.subtle.importKey>>;
+type Bytes = Uint8Array<ArrayBuffer>;
+
+export interface EnvelopeInfo {
+  /** 1 for legacy blobs without a header. */
+  version: number;
+  contentAlg: number | null;
+  wrapAlg: number | null;
+  /** Hex SHA-256 fingerprints of the recipients' SPKI keys (empty for legacy blobs). */
+  recipients: string[];
+}
+
+interface ParsedEnvelope extends EnvelopeInfo {
+  iv: Bytes;
+  wrappedKeys: { fingerprint: string; wrappedKey: Bytes }[];
+  header: Bytes;
+  ciphertext: Bytes;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function copy(bytes: Uint8Array, start = 0, end = bytes.length): Bytes {
+  return new Uint8Array(bytes.subarray(start, end));
+}
+
+/** Accepts bare base64 SPKI (what the viewer exports) or a PEM block. */
+export function spkiFromBase64(publicKey: string): Bytes {
+  const base64 = publicKey.replace(/-----(BEGIN|END) PUBLIC KEY-----/g, "").replace(/\s+/g, "");
+  const binary = atob(base64);
+  const der = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) der[i] = binary.charCodeAt(i);
+  return der;
+}
+
+/** Hex SHA-256 of the SPKI encoding; identifies a recipient key in envelopes. */
+export async function keyFingerprint(publicKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", spkiFromBase64(publicKey));
+  return toHex(new Uint8Array(digest));
+}
+
+export function isEnvelope(data: Uint8Array): boolean {
+  return data.length >= 4 && String.fromCharCode(...data.subarray(0, 4)) === ENVELOPE_MAGIC;
+}
+
+function parseEnvelope(data: Uint8Array): ParsedEnvelope {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const fail = (reason: string): never => {
+    throw new Error(`Malformed envelope: ${reason}`);
+  };
+
+  let pos = 4;
+  const need = (n: number) => {
+    if (pos + n > data.length) fail("truncated header");
+  };
+
+  need(4);
+  const version = data[pos++];
+  const contentAlg = data[pos++];
+  const wrapAlg = data[pos++];
+  const ivLength = data[pos++];
+  if (version !== ENVELOPE_VERSION) fail(`unsupported version ${version}`);
+  if (contentAlg !== CONTENT_ALG_AES_256_GCM) fail(`unsupported content algorithm ${contentAlg}`);
+  if (wrapAlg !== WRAP_ALG_RSA_OAEP_SHA256) fail(`unsupported key wrap algorithm ${wrapAlg}`);
+
+  need(ivLength);
+  const iv = copy(data, pos, pos + ivLength);
+  pos += ivLength;
+
+  need(2);
+  const count = view.getUint16(pos);
+  pos += 2;
+
+  const wrappedKeys: ParsedEnvelope["wrappedKeys"] = [];
+  for (let i = 0; i < count; i++) {
+    need(FINGERPRINT_LENGTH + 2);
+    const fingerprint = toHex(data.subarray(pos, pos + FINGERPRINT_LENGTH));
+    pos += FINGERPRINT_LENGTH;
+    const keyLength = view.getUint16(pos);
+    pos += 2;
+    need(keyLength);
+    wrappedKeys.push({ fingerprint, wrappedKey: copy(data, pos, pos + keyLength) });
+    pos += keyLength;
+  }
+
+  if (data.length - pos < TAG_LENGTH) fail("missing ciphertext");
+
+  return {
+    version,
+    contentAlg,
+    wrapAlg,
+    recipients: wrappedKeys.map((k) => k.fingerprint),
+    iv,
+    wrappedKeys,
+    header: copy(data, 0, pos),
+    ciphertext: copy(data, pos),
+  };
+}
+
+/** Header details without decrypting; legacy blobs report version 1. */
+export function inspectEnvelope(data: Uint8Array): EnvelopeInfo {
+  if (!isEnvelope(data)) return { version: 1, contentAlg: null, wrapAlg: null, recipients: [] };
+  const { version, contentAlg, wrapAlg, recipients } = parseEnvelope(data);
+  return { version, contentAlg, wrapAlg, recipients };
+}
+
+async function importRecipientKey(publicKey: string): Promise<SubtleKey> {
+  return crypto.subtle.importKey("spki", spkiFromBase64(publicKey), { name: "RSA-OAEP", hash: "SHA-256" }, false, ["encrypt"]);
+}
+
+/**
+ * Encrypts `data` once with a fresh AES-256-GCM key and wraps that key for
+ * every recipient (base64 SPKI or PEM RSA-OAEP public keys).
+ */
+export async function sealEnvelope(data: Uint8Array, recipientPublicKeys: string[]): Promise<Bytes> {
+  if (recipientPublicKeys.length === 0) throw new Error("At least one recipient is required");
+  if (recipientPublicKeys.length > 0xffff) throw new Error("Too many recipients");
+
+  const aesKey = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt"]);
+  const rawKey = await crypto.subtle.exportKey("raw", aesKey);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+
+  const entries: Uint8Array[] = [];
+  for (const publicKey of recipientPublicKeys) {
+    const recipientKey = await importRecipientKey(publicKey);
+    const wrapped = new Uint8Array(await crypto.subtle.encrypt({ name: "RSA-OAEP" }, recipientKey, rawKey));
+    const fingerprint = await keyFingerprint(publicKey);
+
+    const entry = new Uint8Array(FINGERPRINT_LENGTH + 2 + wrapped.length);
+    for (let i = 0; i < FINGERPRINT_LENGTH; i++) entry[i] = parseInt(fingerprint.slice(i * 2, i * 2 + 2), 16);
+    new DataView(entry.buffer).setUint16(FINGERPRINT_LENGTH, wrapped.length);
+    entry.set(wrapped, FINGERPRINT_LENGTH + 2);
+    entries.push(entry);
+  }
+
+  const fixed = new Uint8Array(4 + 4 + IV_LENGTH + 2);
+  fixed.set(Array.from(ENVELOPE_MAGIC, (c) => c.charCodeAt(0)), 0);
+  fixed.set([ENVELOPE_VERSION, CONTENT_ALG_AES_256_GCM, WRAP_ALG_RSA_OAEP_SHA256, IV_LENGTH], 4);
+  fixed.set(iv, 8);
+  new DataView(fixed.buffer).setUint16(8 + IV_LENGTH, entries.length);
+
+  const header = concat([fixed, ...entries]);
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: "AES-GCM", iv, additionalData: header }, aesKey, copy(data))
+  );
+  return concat([header, ciphertext]);
+}
+
+function concat(parts: Uint8Array[]): Bytes {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+async function unwrapAesKey(wrappedKey: Bytes, privateKey: SubtleKey): Promise<SubtleKey> {
+  const raw = await crypto.subtle.decrypt({ name: "RSA-OAEP" }, privateKey, wrappedKey);
+  return crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["decrypt"]);
+}
+
+interface LegacyLayout {
+  iv: Bytes;
+  wrappedKey: Bytes;
+  /** Ciphertext with the tag appended, as Web Crypto expects. */
+  ciphertext: Bytes;
+}
+
+/** Candidate readings of a header-less blob; the length fields decide which are plausible. */
+function legacyLayouts(data: Uint8Array): LegacyLayout[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const layouts: LegacyLayout[] = [];
+
+  // Backend: IV(16) + tag(16) + u16BE key length + key + ciphertext
+  if (data.length >= 34) {
+    const keyLength = view.getUint16(32, false);
+    if (keyLength > 0 && 34 + keyLength <= data.length) {
+      layouts.push({
+        iv: copy(data, 0, 16),
+        wrappedKey: copy(data, 34, 34 + keyLength),
+        ciphertext: concat([data.subarray(34 + keyLength), data.subarray(16, 32)]),
+      });
+    }
+  }
+
+  // Browser: IV(12) + u16LE key length + key + ciphertext||tag
+  if (data.length >= 14) {
+    const keyLength = view.getUint16(12, true);
+    if (keyLength > 0 && 14 + keyLength + TAG_LENGTH <= data.length) {
+      layouts.push({
+        iv: copy(data, 0, 12),
+        wrappedKey: copy(data, 14, 14 + keyLength),
+        ciphertext: copy(data, 14 + keyLength),
+      });
+    }
+  }
+
+  return layouts;
+}
+
+/**
+ * Decrypts a sealed blob with the recipient's RSA-OAEP private key. When
+ * `publicKey` is given, the envelope entry is picked by fingerprint;
+ * otherwise every entry is tried. Throws if the key can't open the blob.
+ */
+export async function openEnvelope(data: Uint8Array, privateKey: SubtleKey, publicKey?: string): Promise<Bytes> {
+  if (isEnvelope(data)) {
+    const envelope = parseEnvelope(data);
+    let candidates = envelope.wrappedKeys;
+    if (publicKey) {
+      const fingerprint = await keyFingerprint(publicKey);
+      candidates = candidates.filter((k) => k.fingerprint === fingerprint);
+      if (candidates.length === 0) {
+        throw new Error(`This archive is not sealed to key ${fingerprint.slice(0, 16)}…`);
+      }
+    }
+
+    for (const { wrappedKey } of candidates) {
+      let aesKey: SubtleKey;
+      try {
+        aesKey = await unwrapAesKey(wrappedKey, privateKey);
+      } catch {
+        continue; // wrapped for someone else
+      }
+      const plain = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: envelope.iv, additionalData: envelope.header },
+        aesKey,
+        envelope.ciphertext
+      );
+      return new Uint8Array(plain);
+    }
+    throw new Error("None of the envelope's recipient keys can be opened with this private key");
+  }
+
+  for (const layout of legacyLayouts(data)) {
+    try {
+      const aesKey = await unwrapAesKey(layout.wrappedKey, privateKey);
+      const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: layout.iv }, aesKey, layout.ciphertext);
+      return new Uint8Array(plain);
+    } catch {
+      // Try the other layout
+    }
+  }
+  throw new Error("Could not decrypt legacy sealed blob with this private key");
+}
@@ -0,0 +1,61 @@
+// shared/recipientProof.ts
+/**
+ * Proof of key possession for the recipient directory, shared by the
+ * backend (verification) and the viewer (signing).
+ *
+ * Directory keys are RSA-OAEP encryption keys, which Web Crypto won't sign
+ * with. The same RSA key is re-imported for RSA-PSS (SHA-256, 32-byte salt)
+ * to sign a short text statement naming the action, the key fingerprint
+ * and a timestamp, so a proof can't be reused for another key or action,
+ * or replayed once it is stale.
+ */
+import { spkiFromBase64 } from "./envelope";
+
+export type ProofAction = "register" | "revoke";
+
+/** Proofs older (or further in the future) than this are rejected. */
+export const PROOF_MAX_AGE_MS = 10 * 60_000;
+
+const PSS_PARAMS = { name: "RSA-PSS", saltLength: 32 };
+
+export function proofStatement(action: ProofAction, fingerprint: string, displayName: string, timestamp: string): string {
+  return [
+    "ArchiveChain recipient directory",
+    `action: ${action}`,
+    `fingerprint: ${fingerprint}`,
+    `name: ${displayName}`,
+    `timestamp: ${timestamp}`,
+  ].join("\n");
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Signs `statement` with an extractable RSA private key (any Web Crypto
+ * RSA algorithm). Returns the base64 signature.
+ */
+export async function signStatement(privateKey: Awaited<ReturnType<typeof crypto.subtle.importKey>>, statement: string): Promise<string> {
+  const pkcs8 = await crypto.subtle.exportKey("pkcs8", privateKey);
+  const signingKey = await crypto.subtle.importKey("pkcs8", pkcs8, { name: "RSA-PSS", hash: "SHA-256" }, false, ["sign"]);
+  const signature = await crypto.subtle.sign(PSS_PARAMS, signingKey, new TextEncoder().encode(statement));
+  return toBase64(new Uint8Array(signature));
+}
+
+/** True when `signature` (base64) is a valid RSA-PSS signature of `statement` by `publicKey`. */
+export async function verifyStatement(publicKey: string, statement: string, signature: string): Promise<boolean> {
+  try {
+    const verifyKey = await crypto.subtle.importKey("spki", spkiFromBase64(publicKey), { name: "RSA-PSS", hash: "SHA-256" }, false, ["verify"]);
+    return await crypto.subtle.verify(PSS_PARAMS, verifyKey, fromBase64(signature), new TextEncoder().encode(statement));
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,169 @@
+// shared/resource.ts
+/**
+ * Archives of non-HTML resources (PDFs, images, JSON, plain text) hold
+ * the bytes exactly as the server sent them, zipped with the manifest and
+ * attestation. The MIME type is recorded on-chain and in the manifest;
+ * only archives made before that are the bare bytes, and readers sniff
+ * their type. The backend (change detection, /api/analyze) and the
+ * viewer (rendering, diff) use the same text extraction.
+ *
+ * Only uses Web APIs available in both Node and browsers; pdf.js is
+ * loaded by each side and passed in.
+ */
+
+type Bytes = Uint8Array;
+
+/** Content types that are rendered in the browser and captured as a page. */
+export function isPageMimeType(mimeType: string): boolean {
+  return /^(text\/html|application\/xhtml\+xml)$/i.test(mimeType);
+}
+
+/** "application/pdf" from "application/pdf; charset=binary" and similar. */
+export function essenceOf(contentType: string | null | undefined): string {
+  return (contentType ?? "").split(";")[0].trim().toLowerCase();
+}
+
+export function isJsonMimeType(mimeType: string): boolean {
+  return /^application\/([\w.+-]+\+)?json$/.test(mimeType);
+}
+
+function startsWith(bytes: Bytes, signature: number[], offset = 0): boolean {
+  return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+const ascii = (s: string) => Array.from(s, (c) => c.charCodeAt(0));
+
+/**
+ * MIME type of a stored blob, from its leading bytes. Zip archives
+ * (page captures) are reported as application/zip; text that parses as
+ * JSON as application/json. Null when the bytes aren't recognised.
+ */
+export function sniffMimeType(bytes: Bytes): string | null {
+  if (startsWith(bytes, ascii("%PDF-"))) return "application/pdf";
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(bytes, ascii("GIF87a")) || startsWith(bytes, ascii("GIF89a"))) return "image/gif";
+  if (startsWith(bytes, ascii("RIFF")) && startsWith(bytes, ascii("WEBP"), 8)) return "image/webp";
+  if (startsWith(bytes, ascii("PK\x03\x04"))) return "application/zip";
+
+  const head = new TextDecoder().decode(bytes.subarray(0, 512)).replace(/^﻿/, "").trimStart();
+  if (/^<svg[\s>]/i.test(head) || (/^<\?xml/i.test(head) && /<svg[\s>]/i.test(head))) return "image/svg+xml";
+  if (/^[[{]/.test(head)) {
+    try {
+      JSON.parse(new TextDecoder().decode(bytes));
+      return "application/json";
+    } catch {
+      // Not JSON after all
+    }
+  }
+  return null;
+}
+
+/** File extension for downloads; empty when there's no obvious one. */
+export function extensionOf(mimeType: string): string {
+  const known: Record<string, string> = {
+    "application/pdf": ".pdf",
+    "application/json": ".json",
+    "application/zip": ".zip",
+    "image/png": ".png",
+    "image/jpeg": ".jpg",
+    "image/gif": ".gif",
+    "image/webp": ".webp",
+    "image/svg+xml": ".svg",
+    "text/plain": ".txt",
+    "text/csv": ".csv",
+    "application/xml": ".xml",
+    "text/xml": ".xml",
+  };
+  return known[mimeType] ?? (isJsonMimeType(mimeType) ? ".json" : "");
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * JSON with keys sorted at every level, two-space indented: one value
+ * per line, so a line diff of two versions is a diff of their structure
+ * and reordered keys don't show up as changes.
+ */
+export function normalizeJson(text: string): string {
+  return JSON.stringify(sortKeys(JSON.parse(text)), null, 2);
+}
+
+// --- PDF text ---
+
+/**
+ * The part of a pdf.js document (pdfjs-dist) used for text extraction.
+ * The backend and the viewer each load their own pdf.js build and pass a
+ * PdfLoader in, so both extract the same text from the same bytes.
+ */
+export interface PdfDocument {
+  numPages: number;
+  getPage(pageNumber: number): Promise<{ getTextContent(): Promise<{ items: unknown[] }> }>;
+  destroy(): Promise<void>;
+}
+
+/** Opens a PDF with pdf.js; it may take ownership of (detach) `data`. */
+export type PdfLoader = (data: Uint8Array) => Promise<PdfDocument>;
+
+/**
+ * Text of a PDF as pdf.js lays it out, line by line, with a blank line
+ * between pages. Good enough to diff two versions of a report; scanned
+ * PDFs yield little or no text.
+ */
+export async function extractPdfText(pdf: Bytes, loadPdf: PdfLoader): Promise<string> {
+  // pdf.js transfers the buffer it is given
+  const doc = await loadPdf(new Uint8Array(pdf));
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+      const { items } = await (await doc.getPage(pageNumber)).getTextContent();
+      let text = "";
+      for (const item of items as { str?: string; hasEOL?: boolean }[]) {
+        // Marked-content items carry no text
+        if (typeof item.str !== "string") continue;
+        text += item.str + (item.hasEOL ? "\n" : "");
+      }
+      pages.push(text);
+    }
+    return pages
+      .join("\n\n")
+      .split("\n")
+      .map((line) => line.replace(/\s+/g, " ").trim())
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  } finally {
+    await doc.destroy();
+  }
+}
+
+/**
+ * What readers diff and what change detection hashes: extracted text for
+ * PDFs, normalized JSON, text as-is. Null for images and other binary
+ * resources, which can only be compared byte for byte.
+ */
+export async function resourceText(bytes: Bytes, mimeType: string, loadPdf: PdfLoader): Promise<string | null> {
+  if (mimeType === "application/pdf") return extractPdfText(bytes, loadPdf);
+  const text = mimeType.startsWith("text/") || isJsonMimeType(mimeType) || /xml/.test(mimeType)
+    ? new TextDecoder().decode(bytes)
+    : null;
+  if (text === null) return null;
+  if (isJsonMimeType(mimeType)) {
+    try {
+      return normalizeJson(text);
+    } catch {
+      return text; // Served as JSON but isn't
+    }
+  }
+  return text;
+}